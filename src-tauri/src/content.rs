@@ -0,0 +1,101 @@
+// File contents beyond UTF-8 text: raw bytes for the viewers, legacy encodings for editing
+use std::fs;
+use std::io::Read;
+
+use chardetng::EncodingDetector;
+use encoding_rs::{Encoding, UTF_16BE, UTF_16LE, UTF_8};
+use serde::Serialize;
+use tauri::ipc::Response;
+
+/// Bytes at the start of a file checked for signs of binary data
+const SNIFF_LEN: usize = 8192;
+
+/// A file read for the editor
+#[derive(Serialize)]
+#[serde(tag = "kind", rename_all = "camelCase")]
+pub enum TextContent {
+    /// Decoded text and the encoding to write it back in
+    Text { content: String, encoding: String, bom: bool },
+    /// Not text in any encoding we can tell
+    Binary { size: u64 },
+}
+
+/// NUL bytes, or control characters other than whitespace in more than a tenth of the sample
+fn looks_binary(bytes: &[u8]) -> bool {
+    let sample = &bytes[..bytes.len().min(SNIFF_LEN)];
+    let controls = sample
+        .iter()
+        .filter(|&&b| b < 0x20 && !matches!(b, b'\t' | b'\n' | b'\r' | 0x0c | 0x1b))
+        .count();
+    sample.contains(&0) || controls * 10 > sample.len()
+}
+
+/// Decode by BOM, then as UTF-8, then with the detector's best guess
+fn decode(bytes: &[u8]) -> Option<(String, &'static Encoding, bool)> {
+    if let Some((encoding, bom_len)) = Encoding::for_bom(bytes) {
+        let (text, had_errors) = encoding.decode_without_bom_handling(&bytes[bom_len..]);
+        return (!had_errors).then(|| (text.into_owned(), encoding, true));
+    }
+    if looks_binary(bytes) {
+        return None;
+    }
+    if let Ok(text) = std::str::from_utf8(bytes) {
+        return Some((text.to_string(), UTF_8, false));
+    }
+    let mut detector = EncodingDetector::new();
+    detector.feed(bytes, true);
+    let encoding = detector.guess(None, false);
+    let (text, had_errors) = encoding.decode_without_bom_handling(bytes);
+    (!had_errors).then(|| (text.into_owned(), encoding, false))
+}
+
+/// Read a file as text in whatever encoding it uses, or report it as binary
+#[tauri::command]
+pub fn read_text_file(path: String) -> Result<TextContent, String> {
+    let bytes = fs::read(&path).map_err(|e| format!("Failed to read file: {}", e))?;
+    Ok(match decode(&bytes) {
+        Some((content, encoding, bom)) => TextContent::Text { content, encoding: encoding.name().to_string(), bom },
+        None => TextContent::Binary { size: bytes.len() as u64 },
+    })
+}
+
+/// Raw bytes of a file, at most `limit` of them, returned as an ArrayBuffer
+#[tauri::command]
+pub fn read_file_bytes(path: String, limit: Option<u64>) -> Result<Response, String> {
+    let file = fs::File::open(&path).map_err(|e| format!("Failed to open file: {}", e))?;
+    let mut bytes = Vec::new();
+    match limit {
+        Some(limit) => file.take(limit).read_to_end(&mut bytes),
+        None => (&file).read_to_end(&mut bytes),
+    }
+    .map_err(|e| format!("Failed to read file: {}", e))?;
+    Ok(Response::new(bytes))
+}
+
+/// Write text back in the encoding it was read in
+/// Characters the encoding can't represent fail the write instead of being replaced.
+#[tauri::command]
+pub fn write_text_file(path: String, content: String, encoding: String, bom: bool) -> Result<(), String> {
+    let encoding = Encoding::for_label(encoding.as_bytes()).ok_or_else(|| format!("Unknown encoding: {}", encoding))?;
+    let mut bytes = Vec::new();
+    // encoding_rs only decodes UTF-16; its encoder would produce UTF-8
+    if encoding == UTF_16LE || encoding == UTF_16BE {
+        let little_endian = encoding == UTF_16LE;
+        if bom {
+            bytes.extend_from_slice(if little_endian { &[0xFF, 0xFE] } else { &[0xFE, 0xFF] });
+        }
+        for unit in content.encode_utf16() {
+            bytes.extend_from_slice(&if little_endian { unit.to_le_bytes() } else { unit.to_be_bytes() });
+        }
+    } else {
+        if bom && encoding == UTF_8 {
+            bytes.extend_from_slice(&[0xEF, 0xBB, 0xBF]);
+        }
+        let (encoded, _, had_errors) = encoding.encode(&content);
+        if had_errors {
+            return Err(format!("The text contains characters that cannot be saved as {}", encoding.name()));
+        }
+        bytes.extend_from_slice(&encoded);
+    }
+    fs::write(&path, bytes).map_err(|e| format!("Failed to write file: {}", e))
+}
@@ -2,6 +2,12 @@
 use std::fs;
 use std::path::Path;
 use std::io::Write;
+use std::time::UNIX_EPOCH;
+use tauri_plugin_opener::OpenerExt;
+
+mod content;
+mod scan;
+mod watcher;
 
 #[tauri::command]
 fn greet(name: &str) -> String {
@@ -27,12 +33,100 @@ fn read_file_content(path: String) -> Result<String, String> {
     fs::read_to_string(&path).map_err(|e| format!("Failed to read file: {}", e))
 }
 
+/// Copy a single file, creating the destination's parent directories
+#[tauri::command]
+fn copy_file(from: String, to: String) -> Result<(), String> {
+    if let Some(parent) = Path::new(&to).parent() {
+        fs::create_dir_all(parent).map_err(|e| format!("Failed to create directory: {}", e))?;
+    }
+    fs::copy(&from, &to)
+        .map(|_| ())
+        .map_err(|e| format!("Failed to copy file: {}", e))
+}
+
+/// Rename or move a file or directory, creating the destination's parent directories
+/// Refuses to replace an existing path or to move a folder into itself.
+#[tauri::command]
+fn rename_path(from: String, to: String) -> Result<(), String> {
+    let (source, target) = (Path::new(&from), Path::new(&to));
+    if target.exists() {
+        return Err(format!("Target already exists: {}", to));
+    }
+    if target.starts_with(source) {
+        return Err("Cannot move a folder into itself".to_string());
+    }
+    if let Some(parent) = target.parent() {
+        fs::create_dir_all(parent).map_err(|e| format!("Failed to create directory: {}", e))?;
+    }
+    fs::rename(source, target).map_err(|e| format!("Failed to rename: {}", e))
+}
+
+fn copy_recursive(from: &Path, to: &Path) -> std::io::Result<()> {
+    if !fs::symlink_metadata(from)?.is_dir() {
+        return fs::copy(from, to).map(|_| ());
+    }
+    fs::create_dir_all(to)?;
+    for entry in fs::read_dir(from)? {
+        let entry = entry?;
+        copy_recursive(&entry.path(), &to.join(entry.file_name()))?;
+    }
+    Ok(())
+}
+
+/// Copy a file or a whole directory tree, creating the destination's parent directories
+/// Refuses to replace an existing path or to copy a folder into itself.
+#[tauri::command]
+fn copy_path(from: String, to: String) -> Result<(), String> {
+    let (source, target) = (Path::new(&from), Path::new(&to));
+    if target.exists() {
+        return Err(format!("Target already exists: {}", to));
+    }
+    if target.starts_with(source) {
+        return Err("Cannot copy a folder into itself".to_string());
+    }
+    if let Some(parent) = target.parent() {
+        fs::create_dir_all(parent).map_err(|e| format!("Failed to create directory: {}", e))?;
+    }
+    copy_recursive(source, target).map_err(|e| format!("Failed to copy: {}", e))
+}
+
 /// Check if a path exists
 #[tauri::command]
 fn path_exists(path: String) -> bool {
     Path::new(&path).exists()
 }
 
+/// Size and mtime of a file, in the units the scanner reports
+#[derive(serde::Serialize)]
+struct FileStats {
+    /// Last modification time, ms since epoch
+    modified: u64,
+    size: u64,
+}
+
+#[tauri::command]
+fn file_stats(path: String) -> Result<FileStats, String> {
+    let metadata = fs::metadata(&path).map_err(|e| format!("Failed to read file metadata: {}", e))?;
+    let modified = metadata
+        .modified()
+        .ok()
+        .and_then(|t| t.duration_since(UNIX_EPOCH).ok())
+        .map_or(0, |d| d.as_millis() as u64);
+    Ok(FileStats { modified, size: metadata.len() })
+}
+
+/// Open a file in its default app
+/// Only files inside a configured library, so the webview can't launch anything on the system.
+#[tauri::command]
+fn open_library_file(app: tauri::AppHandle, state: tauri::State<watcher::WatcherState>, path: String) -> Result<(), String> {
+    if !watcher::is_in_library(&state, Path::new(&path)) {
+        return Err(format!("Not inside a skill library: {}", path));
+    }
+    app.opener()
+        .open_path(path.as_str(), None::<&str>)
+        .map_err(|e| format!("Failed to open file: {}", e))
+}
+
 /// Read directory contents
 #[tauri::command]
 fn read_directory(path: String) -> Result<Vec<(String, bool)>, String> {
@@ -70,14 +164,29 @@ pub fn run() {
         .plugin(tauri_plugin_fs::init())
         .plugin(tauri_plugin_dialog::init())
         .plugin(tauri_plugin_store::Builder::default().build())
+        .manage(watcher::WatcherState::default())
         .invoke_handler(tauri::generate_handler![
             greet,
             create_directory,
             write_file_content,
             read_file_content,
+            content::read_text_file,
+            content::read_file_bytes,
+            content::write_text_file,
+            copy_file,
+            rename_path,
+            copy_path,
             path_exists,
+            file_stats,
+            open_library_file,
             read_directory,
-            remove_path
+            remove_path,
+            scan::scan_library,
+            scan::is_gitignored_path,
+            scan::list_folder,
+            scan::file_identity,
+            scan::read_skill_bundles,
+            watcher::watch_libraries
         ])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
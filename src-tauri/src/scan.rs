@@ -0,0 +1,663 @@
+// Native library scanning: one IPC call per library instead of one per folder/file
+use std::collections::HashMap;
+use std::fs;
+use std::path::{Path, PathBuf};
+use std::sync::atomic::{AtomicUsize, Ordering};
+use std::sync::{Arc, Mutex};
+use std::time::UNIX_EPOCH;
+
+use globset::{GlobBuilder, GlobSet, GlobSetBuilder};
+use ignore::gitignore::Gitignore;
+use ignore::Match;
+use rayon::prelude::*;
+use serde::{Deserialize, Serialize};
+use tauri::{AppHandle, Emitter};
+
+/// Event name for scan progress updates
+pub const SCAN_PROGRESS_EVENT: &str = "scan-progress";
+
+/// Emit progress every this many visited folders
+const PROGRESS_INTERVAL: usize = 25;
+
+/// A file pattern that marks a skill entry, flattened from the frontend's format definitions
+#[derive(Deserialize, Clone)]
+#[serde(rename_all = "camelCase")]
+pub struct EntryRule {
+    format: String,
+    /// File name, case-insensitive, `*` wildcards allowed
+    file: String,
+    parent_dir: Option<String>,
+    #[serde(default)]
+    nested: bool,
+    kind: String,
+    #[serde(default)]
+    owns_folder: bool,
+}
+
+/// What to look for and what to skip; rules are tried in order
+#[derive(Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct ScanRules {
+    entries: Vec<EntryRule>,
+    /// Hidden folders that are still descended into
+    dot_dirs: Vec<String>,
+    max_depth: usize,
+    /// Folder the globs are relative to (the library root); defaults to the scanned root
+    #[serde(default)]
+    base: Option<String>,
+    /// When set, entry files must match one of these globs
+    #[serde(default)]
+    include: Vec<String>,
+    /// Globs for files and folders to skip
+    #[serde(default)]
+    exclude: Vec<String>,
+    #[serde(default)]
+    respect_gitignore: bool,
+    /// Keep descending below a folder entry (SKILL.md) to find nested skills
+    #[serde(default)]
+    allow_nested: bool,
+    /// Files the caller already has (from the skill index); unchanged ones aren't read again
+    #[serde(default)]
+    known: HashMap<String, KnownFile>,
+}
+
+/// Stats of a file as it was when last read
+#[derive(Deserialize)]
+pub struct KnownFile {
+    modified: u64,
+    size: u64,
+}
+
+/// A matched entry file with its raw content
+#[derive(Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct ScannedEntry {
+    path: String,
+    format: String,
+    kind: String,
+    /// None when the file matches its `known` stats and wasn't read
+    content: Option<String>,
+    /// Last modification time, ms since epoch
+    modified: u64,
+    size: u64,
+    /// Device + inode; survives renames and moves within a volume
+    file_key: Option<String>,
+}
+
+/// A path the scan passed over or couldn't read
+/// `reason` is a stable code the frontend labels; `detail` carries the pattern or error.
+#[derive(Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct ScanIssue {
+    path: String,
+    reason: &'static str,
+    detail: Option<String>,
+}
+
+/// Entries plus a record of what was visited, skipped and failed
+#[derive(Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct ScanOutput {
+    entries: Vec<ScannedEntry>,
+    visited: Vec<String>,
+    skipped: Vec<ScanIssue>,
+    failed: Vec<ScanIssue>,
+}
+
+#[derive(Default)]
+struct Diagnostics {
+    visited: Vec<String>,
+    skipped: Vec<ScanIssue>,
+    failed: Vec<ScanIssue>,
+}
+
+#[derive(Clone, Serialize)]
+#[serde(rename_all = "camelCase")]
+struct ScanProgress {
+    scan_id: String,
+    visited_dirs: usize,
+    found: usize,
+    current_path: String,
+}
+
+struct ScanContext<'a> {
+    app: &'a AppHandle,
+    scan_id: &'a str,
+    rules: &'a ScanRules,
+    /// Folder globs are matched relative to
+    base: &'a Path,
+    include: Option<GlobSet>,
+    exclude: GlobSet,
+    /// Cleaned exclude patterns, indexed like `exclude`
+    exclude_patterns: Vec<String>,
+    visited: AtomicUsize,
+    found: AtomicUsize,
+    diagnostics: Mutex<Diagnostics>,
+}
+
+impl ScanContext<'_> {
+    fn skip(&self, path: &Path, reason: &'static str, detail: Option<String>) {
+        if let Ok(mut d) = self.diagnostics.lock() {
+            d.skipped.push(ScanIssue { path: path.to_string_lossy().to_string(), reason, detail });
+        }
+    }
+
+    fn fail(&self, path: &Path, reason: &'static str, error: String) {
+        if let Ok(mut d) = self.diagnostics.lock() {
+            d.failed.push(ScanIssue { path: path.to_string_lossy().to_string(), reason, detail: Some(error) });
+        }
+    }
+
+    /// The first exclude pattern matching a path, for the report
+    fn excluded_by(&self, relative: &str) -> Option<String> {
+        self.exclude
+            .matches(relative)
+            .first()
+            .and_then(|&i| self.exclude_patterns.get(i).cloned())
+    }
+}
+
+/// .gitignore matchers that apply to a folder, outermost first
+type IgnoreChain = Vec<Arc<Gitignore>>;
+
+/// Trim patterns and drop empty ones
+fn clean_patterns(patterns: &[String]) -> Vec<String> {
+    patterns
+        .iter()
+        .map(|p| p.trim().trim_start_matches("./").trim_end_matches('/').to_string())
+        .filter(|p| !p.is_empty())
+        .collect()
+}
+
+/// Compile cleaned globs; bare names (no `/`) match at any depth, like .gitignore
+fn build_globset(patterns: &[String]) -> Result<GlobSet, String> {
+    let mut builder = GlobSetBuilder::new();
+    for pattern in patterns {
+        let full = if pattern.contains('/') {
+            pattern.trim_start_matches('/').to_string()
+        } else {
+            format!("**/{}", pattern)
+        };
+        let glob = GlobBuilder::new(&full)
+            .literal_separator(true)
+            .build()
+            .map_err(|e| format!("Invalid glob {}: {}", pattern, e))?;
+        builder.add(glob);
+    }
+    builder.build().map_err(|e| format!("Invalid glob list: {}", e))
+}
+
+fn load_gitignore(dir: &Path) -> Option<Arc<Gitignore>> {
+    let file = dir.join(".gitignore");
+    if !file.is_file() {
+        return None;
+    }
+    let (gitignore, err) = Gitignore::new(&file);
+    if let Some(e) = err {
+        eprintln!("Problem in {}: {}", file.display(), e);
+    }
+    Some(Arc::new(gitignore))
+}
+
+/// .gitignore files above the root, up to the repository top (the folder holding `.git`)
+fn ancestor_ignores(root: &Path) -> IgnoreChain {
+    if root.join(".git").exists() {
+        return Vec::new();
+    }
+    let mut chain = Vec::new();
+    for dir in root.ancestors().skip(1) {
+        chain.extend(load_gitignore(dir));
+        if dir.join(".git").exists() {
+            chain.reverse();
+            return chain;
+        }
+    }
+    // Not inside a repository: .gitignore files above the root don't apply
+    Vec::new()
+}
+
+/// Deepest .gitignore with an opinion wins
+fn is_gitignored(chain: &IgnoreChain, path: &Path, is_dir: bool) -> bool {
+    for gitignore in chain.iter().rev() {
+        match gitignore.matched(path, is_dir) {
+            Match::Ignore(_) => return true,
+            Match::Whitelist(_) => return false,
+            Match::None => {}
+        }
+    }
+    false
+}
+
+fn relative_path(root: &Path, path: &Path) -> String {
+    path.strip_prefix(root)
+        .unwrap_or(path)
+        .to_string_lossy()
+        .replace('\\', "/")
+}
+
+/// Case-insensitive match with `*` wildcards
+fn wildcard_match(pattern: &str, name: &str) -> bool {
+    let pattern: Vec<char> = pattern.to_lowercase().chars().collect();
+    let name: Vec<char> = name.to_lowercase().chars().collect();
+    let (mut p, mut n) = (0, 0);
+    let mut backtrack: Option<(usize, usize)> = None;
+
+    while n < name.len() {
+        if p < pattern.len() && pattern[p] == '*' {
+            backtrack = Some((p, n));
+            p += 1;
+        } else if p < pattern.len() && pattern[p] == name[n] {
+            p += 1;
+            n += 1;
+        } else if let Some((star, matched)) = backtrack {
+            p = star + 1;
+            n = matched + 1;
+            backtrack = Some((star, matched + 1));
+        } else {
+            return false;
+        }
+    }
+    pattern[p..].iter().all(|c| *c == '*')
+}
+
+fn matches_parent(rule: &EntryRule, dir: &str) -> bool {
+    let parent = match &rule.parent_dir {
+        Some(parent) if !parent.is_empty() => parent.replace('\\', "/").trim_matches('/').to_string(),
+        _ => return true,
+    };
+    if dir == parent || dir.ends_with(&format!("/{}", parent)) {
+        return true;
+    }
+    rule.nested && (dir.starts_with(&format!("{}/", parent)) || dir.contains(&format!("/{}/", parent)))
+}
+
+fn match_entry<'a>(rules: &'a ScanRules, dir: &str, file_name: &str) -> Option<&'a EntryRule> {
+    rules
+        .entries
+        .iter()
+        .find(|rule| wildcard_match(&rule.file, file_name) && matches_parent(rule, dir))
+}
+
+fn read_entry(ctx: &ScanContext, path: &Path, rule: &EntryRule) -> Option<ScannedEntry> {
+    let path_key = path.to_string_lossy().to_string();
+    let metadata = fs::metadata(path).ok();
+    let modified = metadata
+        .as_ref()
+        .and_then(|m| m.modified().ok())
+        .and_then(|t| t.duration_since(UNIX_EPOCH).ok())
+        .map(|d| d.as_millis() as u64)
+        .unwrap_or(0);
+    let file_key = metadata.as_ref().and_then(file_key);
+    let size = metadata.as_ref().map(|m| m.len());
+
+    let unchanged = match (ctx.rules.known.get(&path_key), size) {
+        (Some(known), Some(size)) => known.modified == modified && known.size == size,
+        _ => false,
+    };
+    let content = if unchanged {
+        None
+    } else {
+        let bytes = match fs::read(path) {
+            Ok(bytes) => bytes,
+            Err(e) => {
+                ctx.fail(path, "readFile", e.to_string());
+                return None;
+            }
+        };
+        // Still listed, decoded lossily, but worth knowing about
+        if let Err(e) = std::str::from_utf8(&bytes) {
+            ctx.fail(path, "encoding", e.to_string());
+        }
+        Some(String::from_utf8_lossy(&bytes).to_string())
+    };
+
+    Some(ScannedEntry {
+        path: path_key,
+        format: rule.format.clone(),
+        kind: rule.kind.clone(),
+        size: size.unwrap_or_else(|| content.as_ref().map_or(0, |c| c.len() as u64)),
+        content,
+        modified,
+        file_key,
+    })
+}
+
+#[cfg(unix)]
+fn file_key(metadata: &fs::Metadata) -> Option<String> {
+    use std::os::unix::fs::MetadataExt;
+    Some(format!("{}:{}", metadata.dev(), metadata.ino()))
+}
+
+// No stable file index on other platforms; ids then only follow the path
+#[cfg(not(unix))]
+fn file_key(_metadata: &fs::Metadata) -> Option<String> {
+    None
+}
+
+fn report_progress(ctx: &ScanContext, dir: &Path) {
+    if let Ok(mut d) = ctx.diagnostics.lock() {
+        d.visited.push(dir.to_string_lossy().to_string());
+    }
+    let visited = ctx.visited.fetch_add(1, Ordering::Relaxed) + 1;
+    if visited % PROGRESS_INTERVAL == 0 {
+        let progress = ScanProgress {
+            scan_id: ctx.scan_id.to_string(),
+            visited_dirs: visited,
+            found: ctx.found.load(Ordering::Relaxed),
+            current_path: dir.to_string_lossy().to_string(),
+        };
+        let _ = ctx.app.emit(SCAN_PROGRESS_EVENT, progress);
+    }
+}
+
+/// Scan one folder, then its sub-folders in parallel
+/// A folder entry (SKILL.md) makes the whole folder one skill; the descent stops
+/// there unless nested skills are allowed.
+fn scan_dir(ctx: &ScanContext, dir: &Path, depth: usize, parent_ignores: &IgnoreChain) -> Vec<ScannedEntry> {
+    if depth > ctx.rules.max_depth {
+        return Vec::new();
+    }
+    report_progress(ctx, dir);
+
+    let read = match fs::read_dir(dir) {
+        Ok(read) => read,
+        Err(e) => {
+            ctx.fail(dir, "readDir", e.to_string());
+            return Vec::new();
+        }
+    };
+
+    let mut ignores = parent_ignores.clone();
+    if ctx.rules.respect_gitignore {
+        ignores.extend(load_gitignore(dir));
+    }
+
+    let dir_key = dir.to_string_lossy().replace('\\', "/");
+    let mut files: Vec<(PathBuf, &EntryRule)> = Vec::new();
+    let mut subdirs = Vec::new();
+    for entry in read.flatten() {
+        let name = entry.file_name().to_string_lossy().to_string();
+        let path = entry.path();
+        let is_dir = entry.file_type().map(|t| t.is_dir()).unwrap_or(false);
+        let relative = relative_path(ctx.base, &path);
+
+        // Plain files that aren't entries are not worth reporting
+        let rule = if is_dir { None } else { match_entry(ctx.rules, &dir_key, &name) };
+        if !is_dir && rule.is_none() {
+            continue;
+        }
+
+        if let Some(pattern) = ctx.excluded_by(&relative) {
+            ctx.skip(&path, "exclude", Some(pattern));
+            continue;
+        }
+        if ctx.rules.respect_gitignore && is_gitignored(&ignores, &path, is_dir) {
+            ctx.skip(&path, "gitignore", None);
+            continue;
+        }
+        if is_dir {
+            if name.starts_with('.') && !ctx.rules.dot_dirs.contains(&name) {
+                ctx.skip(&path, "hidden", None);
+            } else if depth + 1 > ctx.rules.max_depth {
+                ctx.skip(&path, "depth", Some(ctx.rules.max_depth.to_string()));
+            } else {
+                subdirs.push(path);
+            }
+        } else if let Some(rule) = rule {
+            if ctx.include.as_ref().map_or(true, |include| include.is_match(&relative)) {
+                files.push((path, rule));
+            } else {
+                ctx.skip(&path, "include", None);
+            }
+        }
+    }
+
+    let owner = files.iter().find(|(_, rule)| rule.owns_folder);
+    let mut results: Vec<ScannedEntry> = match owner {
+        Some((owner_path, rule)) => {
+            for (path, _) in files.iter().filter(|(path, _)| path != owner_path) {
+                ctx.skip(path, "insideSkill", Some(owner_path.to_string_lossy().to_string()));
+            }
+            read_entry(ctx, owner_path, rule).into_iter().collect()
+        }
+        None => files.iter().filter_map(|(path, rule)| read_entry(ctx, path, rule)).collect(),
+    };
+    ctx.found.fetch_add(results.len(), Ordering::Relaxed);
+
+    if let Some((owner_path, _)) = owner {
+        if !ctx.rules.allow_nested {
+            for sub in &subdirs {
+                ctx.skip(sub, "insideSkill", Some(owner_path.to_string_lossy().to_string()));
+            }
+            return results;
+        }
+    }
+
+    results.extend(
+        subdirs
+            .par_iter()
+            .flat_map_iter(|sub| scan_dir(ctx, sub, depth + 1, &ignores))
+            .collect::<Vec<_>>(),
+    );
+    results
+}
+
+/// Walk a library and return every entry file with its content and mtime,
+/// along with the folders visited and the paths skipped or failed on the way
+#[tauri::command]
+pub async fn scan_library(app: AppHandle, root: String, rules: ScanRules, scan_id: String) -> Result<ScanOutput, String> {
+    if !Path::new(&root).is_dir() {
+        return Err(format!("Library folder not found: {}", root));
+    }
+
+    let include_patterns = clean_patterns(&rules.include);
+    let include = if include_patterns.is_empty() { None } else { Some(build_globset(&include_patterns)?) };
+    let exclude_patterns = clean_patterns(&rules.exclude);
+    let exclude = build_globset(&exclude_patterns)?;
+
+    tauri::async_runtime::spawn_blocking(move || {
+        let root_path = PathBuf::from(&root);
+        let base_path = rules.base.as_ref().map(PathBuf::from).unwrap_or_else(|| root_path.clone());
+        let ignores = if rules.respect_gitignore { ancestor_ignores(&root_path) } else { Vec::new() };
+        let ctx = ScanContext {
+            app: &app,
+            scan_id: &scan_id,
+            rules: &rules,
+            base: &base_path,
+            include,
+            exclude,
+            exclude_patterns,
+            visited: AtomicUsize::new(0),
+            found: AtomicUsize::new(0),
+            diagnostics: Mutex::new(Diagnostics::default()),
+        };
+        let results = scan_dir(&ctx, &root_path, 0, &ignores);
+
+        let _ = app.emit(
+            SCAN_PROGRESS_EVENT,
+            ScanProgress {
+                scan_id: scan_id.clone(),
+                visited_dirs: ctx.visited.load(Ordering::Relaxed),
+                found: results.len(),
+                current_path: root.clone(),
+            },
+        );
+
+        let diagnostics = ctx.diagnostics.into_inner().unwrap_or_default();
+        ScanOutput {
+            entries: results,
+            visited: diagnostics.visited,
+            skipped: diagnostics.skipped,
+            failed: diagnostics.failed,
+        }
+    })
+    .await
+    .map_err(|e| format!("Scan failed: {}", e))
+}
+
+/// Whether .gitignore files (from the repository top down to the file) exclude a path
+/// Used for single watcher events, where no scan has built the chain.
+#[tauri::command]
+pub fn is_gitignored_path(root: String, path: String) -> bool {
+    let root = PathBuf::from(root);
+    let path = PathBuf::from(path);
+    let mut chain = ancestor_ignores(&root);
+
+    let mut dir = root.clone();
+    chain.extend(load_gitignore(&dir));
+    if let Ok(relative) = path.strip_prefix(&root) {
+        let mut components = relative.components().peekable();
+        while let Some(component) = components.next() {
+            let is_last = components.peek().is_none();
+            let current = dir.join(component);
+            if is_gitignored(&chain, &current, !is_last || current.is_dir()) {
+                return true;
+            }
+            if !is_last {
+                chain.extend(load_gitignore(&current));
+            }
+            dir = current;
+        }
+    }
+    false
+}
+
+/// .gitignore matchers that apply inside `dir`, from above the root down to `dir` itself
+fn ignores_down_to(root: &Path, dir: &Path) -> IgnoreChain {
+    let mut chain = ancestor_ignores(root);
+    chain.extend(load_gitignore(root));
+    if let Ok(relative) = dir.strip_prefix(root) {
+        let mut current = root.to_path_buf();
+        for component in relative.components() {
+            current.push(component);
+            chain.extend(load_gitignore(&current));
+        }
+    }
+    chain
+}
+
+/// A file or folder in a skill's file tree
+#[derive(Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct FolderEntry {
+    name: String,
+    path: String,
+    is_directory: bool,
+    /// Bytes; 0 for folders
+    size: u64,
+    /// Last modification time, ms since epoch
+    modified: u64,
+}
+
+/// List one folder with sizes and mtimes, leaving out what `exclude` globs
+/// (relative to `root`) or .gitignore files hide
+/// One call per expanded folder, so the tree never joins paths entry by entry over IPC.
+#[tauri::command]
+pub fn list_folder(root: String, dir: String, exclude: Vec<String>, respect_gitignore: bool) -> Result<Vec<FolderEntry>, String> {
+    let root = PathBuf::from(root);
+    let dir = PathBuf::from(dir);
+    let exclude = build_globset(&clean_patterns(&exclude))?;
+    let ignores = if respect_gitignore { ignores_down_to(&root, &dir) } else { Vec::new() };
+
+    let read = fs::read_dir(&dir).map_err(|e| format!("Failed to read directory: {}", e))?;
+    Ok(read
+        .flatten()
+        .filter_map(|item| {
+            let path = item.path();
+            // Follow symlinks so linked folders can be expanded; a broken link shows as a file
+            let metadata = fs::metadata(&path).or_else(|_| item.metadata()).ok()?;
+            let is_dir = metadata.is_dir();
+            if exclude.is_match(relative_path(&root, &path)) {
+                return None;
+            }
+            if respect_gitignore && is_gitignored(&ignores, &path, is_dir) {
+                return None;
+            }
+            let modified = metadata
+                .modified()
+                .ok()
+                .and_then(|t| t.duration_since(UNIX_EPOCH).ok())
+                .map_or(0, |d| d.as_millis() as u64);
+            Some(FolderEntry {
+                name: item.file_name().to_string_lossy().to_string(),
+                path: path.to_string_lossy().to_string(),
+                is_directory: is_dir,
+                size: if is_dir { 0 } else { metadata.len() },
+                modified,
+            })
+        })
+        .collect())
+}
+
+/// Identity of a single file (see `ScannedEntry::file_key`), for reads outside a scan
+#[tauri::command]
+pub fn file_identity(path: String) -> Option<String> {
+    fs::metadata(path).ok().as_ref().and_then(file_key)
+}
+
+/// Bundled files larger than this are not indexed for search
+const MAX_BUNDLE_FILE_SIZE: u64 = 512 * 1024;
+const MAX_BUNDLE_DEPTH: usize = 4;
+
+/// A text file bundled in a folder skill (scripts/, examples/, ...)
+#[derive(Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct BundleText {
+    /// Entry file of the skill the file belongs to
+    entry: String,
+    path: String,
+    content: String,
+}
+
+/// Collect UTF-8 text files below a skill folder, skipping hidden and binary files
+fn collect_texts(dir: &Path, entry: &Path, depth: usize, out: &mut Vec<(PathBuf, String)>) {
+    let Ok(read) = fs::read_dir(dir) else { return };
+    for item in read.flatten() {
+        let path = item.path();
+        if item.file_name().to_string_lossy().starts_with('.') || path == entry {
+            continue;
+        }
+        let Ok(file_type) = item.file_type() else { continue };
+        if file_type.is_dir() {
+            if depth < MAX_BUNDLE_DEPTH {
+                collect_texts(&path, entry, depth + 1, out);
+            }
+        } else if file_type.is_file() {
+            if item.metadata().map_or(true, |m| m.len() > MAX_BUNDLE_FILE_SIZE) {
+                continue;
+            }
+            let Ok(bytes) = fs::read(&path) else { continue };
+            // NUL bytes near the start mean a binary file
+            if bytes.iter().take(8192).any(|b| *b == 0) {
+                continue;
+            }
+            if let Ok(text) = String::from_utf8(bytes) {
+                out.push((path, text));
+            }
+        }
+    }
+}
+
+/// Read the text files bundled next to each entry file, for full-text search
+#[tauri::command]
+pub async fn read_skill_bundles(entries: Vec<String>) -> Result<Vec<BundleText>, String> {
+    tauri::async_runtime::spawn_blocking(move || {
+        entries
+            .par_iter()
+            .flat_map_iter(|entry| {
+                let entry_path = PathBuf::from(entry);
+                let mut files = Vec::new();
+                if let Some(dir) = entry_path.parent() {
+                    collect_texts(dir, &entry_path, 0, &mut files);
+                }
+                files.into_iter().map(move |(path, content)| BundleText {
+                    entry: entry.clone(),
+                    path: path.to_string_lossy().to_string(),
+                    content,
+                })
+            })
+            .collect()
+    })
+    .await
+    .map_err(|e| format!("Reading bundles failed: {}", e))
+}
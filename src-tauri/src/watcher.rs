@@ -0,0 +1,114 @@
+// Filesystem watching for skill libraries
+use std::collections::HashMap;
+use std::path::{Path, PathBuf};
+use std::sync::Mutex;
+
+use notify::event::{ModifyKind, RenameMode};
+use notify::{Event, EventKind, RecommendedWatcher, RecursiveMode, Watcher};
+use serde::Serialize;
+use tauri::{AppHandle, Emitter, State};
+
+/// Event name the frontend listens to
+pub const FS_EVENT: &str = "library-fs-event";
+
+/// One change below a watched library
+#[derive(Clone, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct FsChangeEvent {
+    /// "create", "modify" or "delete"
+    kind: &'static str,
+    path: String,
+    /// Library root the change happened in
+    root: String,
+    is_dir: bool,
+}
+
+/// Active watchers keyed by library path
+#[derive(Default)]
+pub struct WatcherState(Mutex<HashMap<String, RecommendedWatcher>>);
+
+/// Whether `path` resolves to somewhere inside a watched library, i.e. one the user configured
+/// Both sides are canonicalized so `..` segments and symlinks can't lead outside.
+pub fn is_in_library(state: &WatcherState, path: &Path) -> bool {
+    let Ok(path) = path.canonicalize() else { return false };
+    let Ok(watchers) = state.0.lock() else { return false };
+    watchers
+        .keys()
+        .any(|root| Path::new(root).canonicalize().map_or(false, |root| path.starts_with(root)))
+}
+
+fn emit(app: &AppHandle, root: &str, kind: &'static str, path: &Path) {
+    let event = FsChangeEvent {
+        kind,
+        path: path.to_string_lossy().to_string(),
+        root: root.to_string(),
+        is_dir: path.is_dir(),
+    };
+    if let Err(e) = app.emit(FS_EVENT, event) {
+        eprintln!("Failed to emit fs event: {}", e);
+    }
+}
+
+/// Translate a notify event into create/modify/delete changes
+fn forward(app: &AppHandle, root: &str, event: Event) {
+    match event.kind {
+        EventKind::Create(_) => event.paths.iter().for_each(|p| emit(app, root, "create", p)),
+        EventKind::Remove(_) => event.paths.iter().for_each(|p| emit(app, root, "delete", p)),
+        EventKind::Modify(ModifyKind::Name(mode)) => match mode {
+            RenameMode::From => event.paths.iter().for_each(|p| emit(app, root, "delete", p)),
+            RenameMode::To => event.paths.iter().for_each(|p| emit(app, root, "create", p)),
+            RenameMode::Both if event.paths.len() == 2 => {
+                emit(app, root, "delete", &event.paths[0]);
+                emit(app, root, "create", &event.paths[1]);
+            }
+            // Platforms that don't say which side of the rename this is
+            _ => event.paths.iter().for_each(|p| {
+                emit(app, root, if p.exists() { "create" } else { "delete" }, p)
+            }),
+        },
+        EventKind::Modify(_) => event.paths.iter().for_each(|p| emit(app, root, "modify", p)),
+        _ => {}
+    }
+}
+
+fn start_watcher(app: AppHandle, root: String) -> Result<RecommendedWatcher, String> {
+    let event_root = root.clone();
+    let mut watcher = notify::recommended_watcher(move |res: notify::Result<Event>| match res {
+        Ok(event) => forward(&app, &event_root, event),
+        Err(e) => eprintln!("Watch error: {}", e),
+    })
+    .map_err(|e| format!("Failed to create watcher: {}", e))?;
+
+    watcher
+        .watch(&PathBuf::from(&root), RecursiveMode::Recursive)
+        .map_err(|e| format!("Failed to watch {}: {}", root, e))?;
+    Ok(watcher)
+}
+
+/// Watch exactly the given library paths: start new watchers, drop the rest
+/// Paths that can't be watched are reported but don't stop the others.
+#[tauri::command]
+pub fn watch_libraries(app: AppHandle, state: State<WatcherState>, paths: Vec<String>) -> Result<(), String> {
+    let mut watchers = state.0.lock().map_err(|e| format!("Watcher state poisoned: {}", e))?;
+
+    watchers.retain(|path, _| paths.contains(path));
+
+    let mut errors = Vec::new();
+    for path in paths {
+        if watchers.contains_key(&path) {
+            continue;
+        }
+        match start_watcher(app.clone(), path.clone()) {
+            Ok(watcher) => {
+                watchers.insert(path, watcher);
+            }
+            Err(e) => errors.push(e),
+        }
+    }
+
+    if errors.is_empty() {
+        Ok(())
+    } else {
+        Err(errors.join("; "))
+    }
+}
@@ -1,12 +1,19 @@
 import './index.css';
 import { useAppStore } from './store/appStore';
 import { useSkillScanner } from './hooks/useSkillScanner';
+import { useLibraryWatcher } from './hooks/useLibraryWatcher';
+import { useSkillIndex } from './hooks/useSkillIndex';
+import { useSearchIndex } from './hooks/useSearchIndex';
+import { useDrafts } from './hooks/useDrafts';
 import { useEffect, useMemo } from 'react';
 import { AppLayout } from './components/layout';
 import { Dashboard } from './components/Dashboard';
 import { WelcomeScreen } from './components/WelcomeScreen';
 import { Settings } from './components/Settings';
 import { Editor } from './components/Editor';
+import { CommandPalette } from './components/CommandPalette';
+import { DraftRecoveryDialog } from './components/editor';
+import { useRegisterCommands } from './commands';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X } from 'lucide-react';
 
@@ -22,13 +29,29 @@ function App() {
 
   const { scanAllLibraries } = useSkillScanner();
 
-  // Scan libraries on mount, when libraries change, OR when returning to dashboard
+  // Full scan on mount and when libraries change (starting from the on-disk index);
+  // afterwards the watcher keeps skills in sync
   useEffect(() => {
     const libraries = preferences.libraries || [];
-    if (libraries.length > 0 && (currentView === 'dashboard' || currentView === 'welcome')) {
+    if (libraries.length > 0) {
       scanAllLibraries();
     }
-  }, [preferences.libraries, currentView, scanAllLibraries]);
+  }, [preferences.libraries, scanAllLibraries]);
+
+  useLibraryWatcher();
+  useSkillIndex();
+  useSearchIndex();
+  useDrafts();
+
+  useRegisterCommands(() => [
+    {
+      id: 'app.rescan',
+      title: '重新扫描所有技能库',
+      group: '技能库',
+      keywords: ['rescan', 'refresh', 'reload'],
+      run: () => scanAllLibraries(),
+    },
+  ], [scanAllLibraries]);
 
   // Apply theme based on preference
   useEffect(() => {
@@ -93,6 +116,8 @@ function App() {
         </AnimatePresence>
         {screen}
       </div>
+      {hasCompletedOnboarding && <CommandPalette />}
+      {hasCompletedOnboarding && <DraftRecoveryDialog />}
     </AppLayout>
   );
 }
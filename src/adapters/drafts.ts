@@ -0,0 +1,53 @@
+import { load, type Store } from '@tauri-apps/plugin-store';
+
+// Lives in the app data directory, next to the skill index
+const DRAFTS_FILE = 'drafts.json';
+
+/**
+ * Unsaved Editor content kept on disk so it survives a crash or quit
+ */
+export interface Draft {
+  path: string;
+  skillId: string;
+  content: string;
+  /** When the draft was written, ms since epoch */
+  savedAt: number;
+}
+
+let storePromise: Promise<Store> | null = null;
+// Writes run one after another so an older buffer never overwrites a newer one
+let writeQueue: Promise<void> = Promise.resolve();
+
+function getStore(): Promise<Store> {
+  storePromise ??= load(DRAFTS_FILE, { defaults: {}, autoSave: false });
+  return storePromise;
+}
+
+function enqueue(update: (drafts: Record<string, Draft>) => void): Promise<void> {
+  writeQueue = writeQueue.then(async () => {
+    const store = await getStore();
+    const drafts = { ...(await store.get<Record<string, Draft>>('drafts')) };
+    update(drafts);
+    await store.set('drafts', drafts);
+    await store.save();
+  }).catch(err => console.error('Failed to write drafts:', err));
+  return writeQueue;
+}
+
+export async function loadDrafts(): Promise<Draft[]> {
+  try {
+    await writeQueue;
+    return Object.values((await (await getStore()).get<Record<string, Draft>>('drafts')) ?? {});
+  } catch (err) {
+    console.warn('Failed to load drafts:', err);
+    return [];
+  }
+}
+
+export function saveDrafts(drafts: Draft[]): Promise<void> {
+  return enqueue(stored => drafts.forEach(draft => { stored[draft.path] = draft; }));
+}
+
+export function removeDrafts(paths: string[]): Promise<void> {
+  return enqueue(stored => paths.forEach(path => { delete stored[path]; }));
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { parseFrontmatter, updateFrontmatter } from './frontmatter';
+
+describe('updateFrontmatter', () => {
+  it('sets and replaces keys while keeping comments and key order', () => {
+    const content = '---\n# owner: docs\nname: demo\ndescription: old\n---\nBody\n';
+    const updated = updateFrontmatter(content, { description: 'new', version: 2 });
+
+    expect(updated).toBe('---\n# owner: docs\nname: demo\ndescription: new\nversion: 2\n---\nBody\n');
+  });
+
+  it('removes keys set to empty values', () => {
+    const content = '---\nname: demo\ntags: [a, b]\nlicense: MIT\n---\nBody';
+    const updated = updateFrontmatter(content, { tags: [], license: '' });
+
+    expect(updated).toBe('---\nname: demo\n---\nBody');
+  });
+
+  it('keeps cleared keys in place with keepEmpty', () => {
+    const content = '---\nname: demo\ndescription: old\nversion: 1\n---\nBody';
+    const cleared = updateFrontmatter(content, { description: '' }, { keepEmpty: true });
+
+    expect(cleared).toBe('---\nname: demo\ndescription: ""\nversion: 1\n---\nBody');
+    expect(updateFrontmatter(cleared, { description: 'new' }, { keepEmpty: true })).toBe('---\nname: demo\ndescription: new\nversion: 1\n---\nBody');
+    expect(updateFrontmatter(cleared, { description: undefined }, { keepEmpty: true })).toBe('---\nname: demo\nversion: 1\n---\nBody');
+  });
+
+  it('leaves an empty block when the last key is removed', () => {
+    expect(updateFrontmatter('---\nname: demo\n---\nBody', { name: undefined })).toBe('---\n---\nBody');
+  });
+
+  it('adds a block in front of content without frontmatter', () => {
+    const updated = updateFrontmatter('# Title\n', { name: 'demo' });
+
+    expect(updated).toBe('---\nname: demo\n---\n\n# Title\n');
+    expect(parseFrontmatter(updated).data).toEqual({ name: 'demo' });
+  });
+
+  it('creates a block for an empty file', () => {
+    expect(updateFrontmatter('', { name: 'demo' })).toBe('---\nname: demo\n---\n');
+  });
+
+  it('keeps CRLF line endings', () => {
+    const content = '---\r\nname: demo\r\n---\r\nBody\r\n';
+    const updated = updateFrontmatter(content, { tags: ['x'] });
+
+    expect(updated).toBe('---\r\nname: demo\r\ntags:\r\n  - x\r\n---\r\nBody\r\n');
+  });
+
+  it('refuses to rewrite invalid YAML', () => {
+    expect(() => updateFrontmatter('---\nname: [oops\n---\n', { name: 'demo' })).toThrow(/invalid frontmatter/);
+  });
+});
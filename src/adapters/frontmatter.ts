@@ -0,0 +1,174 @@
+import { Document, isMap, isScalar, parseDocument } from 'yaml';
+
+/**
+ * Result of splitting a Markdown file into its YAML frontmatter and body
+ */
+export interface FrontmatterBlock {
+  /** Parsed key/value pairs (empty when the block is absent or invalid) */
+  data: Record<string, unknown>;
+  /** Raw YAML text between the delimiters, or null if there is no block */
+  yaml: string | null;
+  /** Markdown body following the closing delimiter */
+  body: string;
+  /** Whether the content opens with a `---` delimited block */
+  hasFrontmatter: boolean;
+  /** Parse error message if the block exists but is not valid YAML */
+  error: string | null;
+}
+
+/**
+ * Metadata extracted from a skill file, shared by the scanner and the Editor
+ */
+export interface SkillMetadata {
+  title: string;
+  description: string;
+  tags: string[];
+  /** Every frontmatter key other than name/description/tags */
+  metadata: Record<string, unknown>;
+  error: string | null;
+}
+
+// Opening delimiter, optional YAML body, closing delimiter on its own line
+const FRONTMATTER_REGEX = /^\uFEFF?---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+const RESERVED_KEYS = ['name', 'description', 'tags'];
+
+const MAX_DESCRIPTION_LENGTH = 120;
+
+/**
+ * Split content into frontmatter and body, parsing the YAML block
+ */
+export function parseFrontmatter(content: string): FrontmatterBlock {
+  const match = content.match(FRONTMATTER_REGEX);
+  if (!match) {
+    return { data: {}, yaml: null, body: content, hasFrontmatter: false, error: null };
+  }
+
+  const yaml = match[1] ?? '';
+  const body = content.slice(match[0].length);
+  const doc = parseDocument(yaml);
+
+  if (doc.errors.length > 0) {
+    return { data: {}, yaml, body, hasFrontmatter: true, error: doc.errors[0].message.split('\n')[0] };
+  }
+
+  const value = doc.toJS();
+  if (value === null || value === undefined) {
+    return { data: {}, yaml, body, hasFrontmatter: true, error: null };
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { data: {}, yaml, body, hasFrontmatter: true, error: 'Frontmatter must be a key/value mapping' };
+  }
+
+  return { data: value as Record<string, unknown>, yaml, body, hasFrontmatter: true, error: null };
+}
+
+/**
+ * Normalize a `tags` value (YAML list or comma separated string) into a string array
+ */
+export function normalizeTags(value: unknown): string[] {
+  const raw = Array.isArray(value)
+    ? value
+    : typeof value === 'string' ? value.split(',') : [];
+
+  const tags = raw
+    .filter(t => t !== null && t !== undefined)
+    .map(t => String(t).trim())
+    .filter(t => t.length > 0);
+
+  return Array.from(new Set(tags));
+}
+
+function asText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return String(value).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Parse skill metadata from content string
+ * Frontmatter `name`/`description`/`tags` are mapped onto the skill, every other
+ * key is kept in `metadata`. Without frontmatter the first heading and paragraph are used.
+ */
+export function parseSkillMetadata(content: string, fallbackTitle = 'Untitled Skill'): SkillMetadata {
+  const fm = parseFrontmatter(content);
+
+  let title = '';
+  let description = '';
+  let tags: string[] = [];
+  const metadata: Record<string, unknown> = {};
+
+  if (fm.hasFrontmatter && !fm.error) {
+    title = asText(fm.data.name);
+    description = asText(fm.data.description);
+    tags = normalizeTags(fm.data.tags);
+
+    for (const [key, value] of Object.entries(fm.data)) {
+      if (!RESERVED_KEYS.includes(key)) metadata[key] = value;
+    }
+  }
+
+  if (!title) {
+    // Fallback: use first heading as title
+    const headerMatch = fm.body.match(/^#\s+(.+)$/m);
+    title = headerMatch ? headerMatch[1].trim() : fallbackTitle;
+  }
+
+  if (!description && !fm.hasFrontmatter) {
+    // Fallback: use first non-heading paragraph as description
+    const lines = fm.body.split('\n').map(l => l.trim()).filter(l => l.length > 0 && !l.startsWith('#'));
+    if (lines.length > 0) description = lines[0];
+  }
+
+  if (description.length > MAX_DESCRIPTION_LENGTH) {
+    description = description.substring(0, MAX_DESCRIPTION_LENGTH - 3) + '...';
+  }
+
+  return {
+    title,
+    description: description || '暂无描述',
+    tags,
+    metadata,
+    error: fm.error,
+  };
+}
+
+/**
+ * Apply key updates to a file's frontmatter and return the new content
+ * Edits go through the YAML document so comments, key order and quoting of
+ * untouched keys survive. `undefined`, empty strings and empty lists remove the key.
+ * Throws if the existing block is not valid YAML.
+ * @param options.keepEmpty - Only `undefined` removes a key; empty values are written as is
+ */
+export function updateFrontmatter(
+  content: string,
+  updates: Record<string, unknown>,
+  { keepEmpty = false }: { keepEmpty?: boolean } = {}
+): string {
+  const fm = parseFrontmatter(content);
+  if (fm.error) {
+    throw new Error(`Cannot update invalid frontmatter: ${fm.error}`);
+  }
+
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const parsed = parseDocument(fm.yaml ?? '');
+  const doc: Document = parsed.contents === null ? new Document({}) : parsed;
+
+  for (const [key, value] of Object.entries(updates)) {
+    const isEmpty = value === undefined || (!keepEmpty && (value === null || value === ''
+      || (Array.isArray(value) && value.length === 0)));
+    if (isEmpty) {
+      doc.delete(key);
+    } else {
+      // A cleared value is quoted to stay a string; let the new one pick its own style
+      const node = doc.get(key, true);
+      if (isScalar(node) && node.value === '') node.type = undefined;
+      doc.set(key, value);
+    }
+  }
+
+  const isEmptyMap = isMap(doc.contents) && doc.contents.items.length === 0;
+  const block = isEmptyMap ? '' : doc.toString({ lineWidth: 0 }).replace(/\r?\n/g, eol);
+  const body = fm.hasFrontmatter ? fm.body : (content.length > 0 ? eol + content : '');
+
+  return `---${eol}${block}---${eol}${body}`;
+}
@@ -1,6 +1,14 @@
 import { join, basename } from '@tauri-apps/api/path';
 import { invoke } from '@tauri-apps/api/core';
-import type { Skill, SkillFormat } from '../types';
+import type { LibraryScanConfig, ScanFailReason, ScanIssue, ScanSkipReason, Skill, SkillFormat, SkillKind } from '../types';
+import { normalizeTags, parseFrontmatter, parseSkillMetadata, updateFrontmatter } from './frontmatter';
+import { lintSkillFile } from '../lint';
+import { fillPlaceholders, isFolderEntryFile, resolveFormat } from '../formats';
+import { isTabDirty, useAppStore } from '../store/appStore';
+import type { FileStats } from './skillIndex';
+import { basenameOf, dirnameOf, joinPath, numberedName } from '../utils/path';
+
+export { parseSkillMetadata } from './frontmatter';
 
 // Custom fs functions that bypass Tauri's scope restrictions
 export async function customMkdir(path: string): Promise<void> {
@@ -15,10 +23,207 @@ export async function customReadFile(path: string): Promise<string> {
   return await invoke<string>('read_file_content', { path });
 }
 
+/**
+ * A file read for the editor: text decoded from its encoding, or a marker that it isn't text
+ * `encoding` is an Encoding Standard name such as `UTF-8`, `GBK` or `windows-1252`.
+ */
+export type TextFileContent =
+  | { kind: 'text'; content: string; encoding: string; bom: boolean }
+  | { kind: 'binary'; size: number };
+
+export const DEFAULT_ENCODING = 'UTF-8';
+
+export async function readTextFile(path: string): Promise<TextFileContent> {
+  return await invoke<TextFileContent>('read_text_file', { path });
+}
+
+/**
+ * Decoded text of a file that has to be text (entry files, bundled sources); throws for binaries
+ */
+export async function readDecodedText(path: string): Promise<string> {
+  const read = await readTextFile(path);
+  if (read.kind !== 'text') throw new Error(`${path} is not a text file`);
+  return read.content;
+}
+
+/**
+ * Write text in the encoding it was read in; fails if the text has characters the encoding lacks
+ */
+export async function writeTextFile(path: string, content: string, encoding = DEFAULT_ENCODING, bom = false): Promise<void> {
+  await invoke('write_text_file', { path, content, encoding, bom });
+}
+
+// Raw bytes for the image and hex viewers, the first `limit` of them if given
+export async function readFileBytes(path: string, limit?: number): Promise<Uint8Array> {
+  return new Uint8Array(await invoke<ArrayBuffer>('read_file_bytes', { path, limit }));
+}
+
+// Open a file inside a library in the system's default app
+export async function openLibraryFile(path: string): Promise<void> {
+  await invoke('open_library_file', { path });
+}
+
 export async function customRemove(path: string, recursive: boolean): Promise<void> {
   await invoke('remove_path', { path, recursive });
 }
 
+export async function customCopyFile(from: string, to: string): Promise<void> {
+  await invoke('copy_file', { from, to });
+}
+
+// Both refuse to overwrite an existing target
+export async function customRename(from: string, to: string): Promise<void> {
+  await invoke('rename_path', { from, to });
+}
+
+export async function customCopyPath(from: string, to: string): Promise<void> {
+  await invoke('copy_path', { from, to });
+}
+
+export async function customPathExists(path: string): Promise<boolean> {
+  return await invoke<boolean>('path_exists', { path });
+}
+
+export async function customFileStats(path: string): Promise<FileStats> {
+  return await invoke<FileStats>('file_stats', { path });
+}
+
+/**
+ * What became of a file on disk since it was read
+ */
+export type ExternalChange =
+  | { deleted: false; content: string; modified: number }
+  | { deleted: true };
+
+/**
+ * The file's current content if someone else changed it since it was read as `base`,
+ * or that it is gone
+ * A matching mtime short-circuits the read; otherwise contents are compared, so a
+ * file that was merely touched is not reported. Files that never were on disk
+ * (no `knownModified`, e.g. restored drafts) are simply created.
+ * @param knownModified - mtime recorded when `base` was read, if known
+ */
+export async function detectExternalChange(
+  path: string,
+  base: string,
+  knownModified?: number
+): Promise<ExternalChange | null> {
+  const stats = await customFileStats(path).catch(() => null);
+  if (!stats) {
+    if (knownModified === undefined) return null;
+    if (await customPathExists(path)) throw new Error(`Failed to read file metadata: ${path}`);
+    return { deleted: true };
+  }
+  if (stats.modified === knownModified) return null;
+  const read = await readTextFile(path);
+  if (read.kind !== 'text') throw new Error(`${path} is no longer a text file`);
+  return read.content === base ? null : { deleted: false, content: read.content, modified: stats.modified };
+}
+
+/**
+ * A change below a watched library, emitted by the Rust watcher
+ */
+export interface FsChangeEvent {
+  kind: 'create' | 'modify' | 'delete';
+  path: string;
+  /** Library root the change happened in */
+  root: string;
+  isDir: boolean;
+}
+
+export const FS_CHANGE_EVENT = 'library-fs-event';
+
+// Watch exactly these library paths; previously watched paths not listed are dropped
+export async function watchLibraries(paths: string[]): Promise<void> {
+  await invoke('watch_libraries', { paths });
+}
+
+/**
+ * Entry pattern sent to the native scanner, flattened from format definitions
+ */
+export interface ScanEntryRule {
+  format: SkillFormat;
+  file: string;
+  parentDir?: string;
+  nested?: boolean;
+  kind: SkillKind;
+  ownsFolder?: boolean;
+}
+
+export interface ScanRules {
+  /** Tried in order; the first match decides format and kind */
+  entries: ScanEntryRule[];
+  dotDirs: string[];
+  maxDepth: number;
+  /** Folder the globs are relative to (the library root) */
+  base?: string;
+  include?: string[];
+  exclude?: string[];
+  respectGitignore?: boolean;
+  allowNested?: boolean;
+  /** Files already indexed; those with matching stats come back without content */
+  known?: Record<string, FileStats>;
+}
+
+/**
+ * Raw entry file returned by the native scanner
+ */
+export interface ScannedEntry {
+  path: string;
+  format: SkillFormat;
+  kind: SkillKind;
+  /** null when the file is unchanged since it was indexed */
+  content: string | null;
+  /** Last modification time, ms since epoch */
+  modified: number;
+  size: number;
+  /** Device + inode, when the platform has one */
+  fileKey: string | null;
+}
+
+/**
+ * Native scan result: entry files plus what was visited, skipped and failed
+ */
+export interface ScanOutput {
+  entries: ScannedEntry[];
+  visited: string[];
+  skipped: ScanIssue<ScanSkipReason>[];
+  failed: ScanIssue<ScanFailReason>[];
+}
+
+export interface ScanProgressEvent {
+  scanId: string;
+  visitedDirs: number;
+  found: number;
+  currentPath: string;
+}
+
+export const SCAN_PROGRESS_EVENT = 'scan-progress';
+
+// Walk a library natively (in parallel) and return every entry file with content and mtime
+export async function scanLibrary(root: string, rules: ScanRules, scanId: string): Promise<ScanOutput> {
+  return await invoke<ScanOutput>('scan_library', { root, rules, scanId });
+}
+
+/**
+ * A text file bundled in a folder skill, read for full-text search
+ */
+export interface BundleText {
+  /** Entry file of the owning skill */
+  entry: string;
+  path: string;
+  content: string;
+}
+
+// Text files next to each entry file (binary and very large files are left out)
+export async function readSkillBundles(entries: string[]): Promise<BundleText[]> {
+  return await invoke<BundleText[]>('read_skill_bundles', { entries });
+}
+
+export async function isGitignoredPath(root: string, path: string): Promise<boolean> {
+  return await invoke<boolean>('is_gitignored_path', { root, path });
+}
+
 export async function customReadDir(path: string): Promise<Array<{ name: string; isDirectory: boolean; isFile: boolean }>> {
   const entries = await invoke<Array<[string, boolean]>>('read_directory', { path });
   return entries.map(([name, isDirectory]) => ({
@@ -31,72 +236,120 @@ export async function customReadDir(path: string): Promise<Array<{ name: string;
 /**
  * Read a skill file from disk
  * @param path - The path to the skill file
- * @param format - The format/ecosystem inherited from the parent library
+ * @param format - The format whose entry pattern matched this file
+ * @param kind - Skill, command, subagent or memory file
  */
-export async function readSkillFile(path: string, format: SkillFormat = 'antigravity'): Promise<Skill | null> {
+export async function readSkillFile(
+  path: string,
+  format: SkillFormat = 'antigravity',
+  kind: SkillKind = 'skill',
+  onError?: (err: unknown) => void
+): Promise<Skill | null> {
   try {
-    const content = await customReadFile(path);
-    // contentBytes decode is no longer needed since customReadFile returns string
-    const filename = await basename(path);
-
-    // Default metadata
-    let title = filename.replace(/\.[^/.]+$/, "");
-    let description = "";
-
-    // Parse YAML Frontmatter
-    const frontmatterRegex = /^---\r?\n([\s\S]*?)\r?\n---/;
-    const match = content.match(frontmatterRegex);
-
-    if (match) {
-      const yaml = match[1];
-      // Simple parser for name/description in YAML
-      const nameMatch = yaml.match(/^name:\s*(.+)$/m);
-      const descMatch = yaml.match(/^description:\s*(.+)$/m);
-
-      if (nameMatch) title = nameMatch[1].trim();
-      if (descMatch) description = descMatch[1].trim();
-    } else {
-      // Fallback if no frontmatter
-      const headerMatch = content.match(/^#\s+(.+)$/m);
-      if (headerMatch) title = headerMatch[1].trim();
-
-      const lines = content.split('\n').map(l => l.trim()).filter(l => l.length > 0 && !l.startsWith('#'));
-      if (lines.length > 0) description = lines[0];
-    }
-
-    // Clean up title (remove quotes if any)
-    title = title.replace(/^["'](.*)["']$/, '$1');
-    description = description.replace(/^["'](.*)["']$/, '$1');
-
-    if (description.length > 120) {
-      description = description.substring(0, 117) + '...';
-    }
-
-    const id = await generateId(path);
-
-    // Use the format passed from the library, with special case for .cursorrules files
-    const effectiveFormat: SkillFormat = filename.toLowerCase() === '.cursorrules' ? 'cursor' : format;
-
-    return {
-      id,
-      title,
-      description: description || '暂无描述',
-      content,
-      tags: [],
-      sourcePath: path,
-      format: effectiveFormat,
-      lastModified: Date.now(),
-    };
+    const content = await readDecodedText(path);
+    return await skillFromContent(path, content, format, kind, Date.now());
   } catch (err) {
     console.error(`Failed to read skill file: ${path}`, err);
+    onError?.(err);
     return null;
   }
 }
 
+export async function fileIdentity(path: string): Promise<string | null> {
+  return await invoke<string | null>('file_identity', { path });
+}
+
+/**
+ * Stable id for a single entry file read outside a full scan
+ */
+async function resolveSkillId(path: string): Promise<string> {
+  const fileKey = await fileIdentity(path).catch(() => null);
+  const { skills, assignSkillIds } = useAppStore.getState();
+  return assignSkillIds([{ path, fileKey }], new Set(skills.map(s => s.sourcePath)))[0];
+}
+
+/**
+ * Build a skill from an entry file's content (shared by single reads and native scans)
+ * @param id - Id already assigned by the caller (scans assign ids in one batch)
+ */
+export async function skillFromContent(
+  path: string,
+  content: string,
+  format: SkillFormat,
+  kind: SkillKind,
+  lastModified: number,
+  id?: string
+): Promise<Skill> {
+  const filename = path.split(/[/\\]/).pop() || path;
+  const stem = filename.replace(/\.[^/.]+$/, "") || filename;
+
+  // Shared frontmatter path with the Editor save flow
+  const parsed = parseSkillMetadata(content, stem);
+  const { description, tags, metadata, error } = parsed;
+  // Slash commands are invoked by file name, not by a frontmatter name
+  const title = kind === 'command' ? `/${stem}` : parsed.title;
+  if (error) {
+    console.warn(`Invalid frontmatter in ${path}: ${error}`);
+  }
+
+  return {
+    id: id ?? await resolveSkillId(path),
+    title,
+    description,
+    content,
+    tags,
+    sourcePath: path,
+    format,
+    kind,
+    lastModified,
+    metadata,
+    parseError: error || undefined,
+  };
+}
+
+/**
+ * Rewrite the `tags:` list in a skill's entry file and return the updated skill
+ * The file is read fresh so other edits on disk survive, and written back in its own
+ * encoding; a comma separated `tags` string stays a string. Callers skip files open
+ * with unsaved edits, which this would write underneath.
+ */
+export async function updateSkillTags(skill: Skill, update: (tags: string[]) => string[]): Promise<Skill> {
+  const read = await readTextFile(skill.sourcePath);
+  if (read.kind !== 'text') throw new Error(`${skill.sourcePath} is not a text file`);
+  const { content, encoding, bom } = read;
+  const fm = parseFrontmatter(content);
+  const current = normalizeTags(fm.data.tags);
+  const next = normalizeTags(update(current));
+  if (next.length === current.length && next.every((tag, i) => tag === current[i])) {
+    return skill;
+  }
+
+  const tags = typeof fm.data.tags === 'string' ? next.join(', ') : next;
+  const updated = updateFrontmatter(content, { tags });
+  await writeTextFile(skill.sourcePath, updated, encoding, bom);
+
+  // An open tab without edits follows the file, so its next save isn't a conflict
+  const { editorTabs, updateTab } = useAppStore.getState();
+  const tab = editorTabs.find(t => t.path === skill.sourcePath);
+  if (tab && !isTabDirty(tab)) {
+    const stats = await customFileStats(skill.sourcePath).catch(() => null);
+    updateTab(tab.path, { content: updated, savedContent: updated, diskModified: stats?.modified, encoding, bom });
+  }
+  return skillFromContent(skill.sourcePath, updated, skill.format, skill.kind, Date.now(), skill.id);
+}
+
 /**
  * Write a skill file to disk
+ * @param options.validate - Lint the content first and refuse to write if it has errors
  */
-export async function writeSkillFile(skill: Skill): Promise<void> {
+export async function writeSkillFile(skill: Skill, options: { validate?: boolean } = {}): Promise<void> {
+  if (options.validate) {
+    const errors = lintSkillFile(skill.content, skill.sourcePath, skill.format, skill.kind).filter(d => d.severity === 'error');
+    if (errors.length > 0) {
+      throw new Error(`Skill file has ${errors.length} lint error(s): ${errors.map(e => e.message).join('; ')}`);
+    }
+  }
+
   try {
     // Write directly using custom Rust command
     await customWriteFile(skill.sourcePath, skill.content);
@@ -107,86 +360,97 @@ export async function writeSkillFile(skill: Skill): Promise<void> {
 }
 
 /**
- * Parse skill metadata from content string
- * Returns the extracted title and description from YAML frontmatter or fallback sources
+ * File location (relative to the library root) for kinds that are single files
  */
-export function parseSkillMetadata(content: string): { title: string; description: string } {
-  let title = 'Untitled Skill';
-  let description = '';
+function kindFileSegments(kind: SkillKind, safeName: string): string[] {
+  switch (kind) {
+    case 'command': return ['.claude', 'commands', `${safeName}.md`];
+    case 'agent': return ['.claude', 'agents', `${safeName}.md`];
+    default: return ['CLAUDE.md'];
+  }
+}
 
-  // Parse YAML Frontmatter
-  const frontmatterRegex = /^---\r?\n([\s\S]*?)\r?\n---/;
-  const match = content.match(frontmatterRegex);
+/**
+ * Initial content for single-file kinds
+ */
+function kindTemplate(kind: SkillKind, name: string, safeName: string): string {
+  switch (kind) {
+    case 'command':
+      return `---
+description: "在这里输入命令描述"
+argument-hint: "[参数]"
+---
 
-  if (match) {
-    const yaml = match[1];
-    const nameMatch = yaml.match(/^name:\s*(.+)$/m);
-    const descMatch = yaml.match(/^description:\s*(.+)$/m);
+# /${safeName}
 
-    if (nameMatch) title = nameMatch[1].trim().replace(/^["'](.*)["']$/, '$1');
-    if (descMatch) description = descMatch[1].trim().replace(/^["'](.*)["']$/, '$1');
-  } else {
-    // Fallback: use first heading as title
-    const headerMatch = content.match(/^#\s+(.+)$/m);
-    if (headerMatch) title = headerMatch[1].trim();
+在这里编写命令提示词，使用 $ARGUMENTS 引用调用时传入的参数。
+`;
+    case 'agent':
+      return `---
+name: ${safeName}
+description: "在这里描述何时调用此子代理"
+tools: Read, Grep, Glob
+---
 
-    // Fallback: use first non-heading paragraph as description
-    const lines = content.split('\n').map(l => l.trim()).filter(l => l.length > 0 && !l.startsWith('#'));
-    if (lines.length > 0) description = lines[0];
-  }
+你是${name}。在这里编写子代理的系统提示词。
+`;
+    default:
+      return `# ${name}
 
-  if (description.length > 120) {
-    description = description.substring(0, 117) + '...';
+## 项目概述
+在这里记录需要始终加载的项目约定与指令。
+`;
   }
-
-  return { title, description: description || '暂无描述' };
 }
 
 /**
- * Create a new skill directory structure and file
+ * Create a new skill (laid out per the format definition), command, subagent or CLAUDE.md memory file
  */
-export async function createNewSkill(libraryPath: string, name: string): Promise<Skill | null> {
-  console.log('--- Starting CreateNewSkill ---');
-  console.log('Target Library Path:', libraryPath);
-  console.log('Requested Name:', name);
-
+export async function createNewSkill(
+  libraryPath: string,
+  name: string,
+  kind: SkillKind = 'skill',
+  format: SkillFormat = 'antigravity'
+): Promise<Skill | null> {
   try {
     // Softer sanitization: remove common forbidden characters but keep letters, numbers, and CJK characters
     const safeName = name.trim().replace(/[<>:"/\\|?*]/g, '-');
-    const skillDir = await join(libraryPath, safeName);
-    console.log('Resolved Skill Directory Path:', skillDir);
 
-    // Create directory structure using custom Rust command (bypasses scope)
-    console.log('Attempting to create directory:', skillDir);
-    await customMkdir(skillDir);
-
-    console.log('Creating subdirectories: scripts, examples, resources');
-    await customMkdir(await join(skillDir, 'scripts'));
-    await customMkdir(await join(skillDir, 'examples'));
-    await customMkdir(await join(skillDir, 'resources'));
+    if (kind !== 'skill') {
+      const filePath = await join(libraryPath, ...kindFileSegments(kind, safeName));
+      if (await customPathExists(filePath)) {
+        throw new Error(`File exists: ${filePath}`);
+      }
 
-    const skillFilePath = await join(skillDir, 'SKILL.md');
-    console.log('Initial metadata file path:', skillFilePath);
+      const { dirname } = await import('@tauri-apps/api/path');
+      await customMkdir(await dirname(filePath));
+      await customWriteFile(filePath, kindTemplate(kind, name, safeName));
 
-    const initialContent = `---
-name: "${name}"
-description: "在这里输入技能描述"
----
+      return await readSkillFile(filePath, 'claude', kind);
+    }
 
-# ${name}
+    // Skills follow the layout and template of the library's format
+    const definition = resolveFormat(format);
+    const { layout } = definition;
+    const skillFilePath = await join(libraryPath, ...layout.entryPath.map(segment => fillPlaceholders(segment, safeName)));
+    if (await customPathExists(skillFilePath)) {
+      throw new Error(`File exists: ${skillFilePath}`);
+    }
 
-## 概述
-这是一个新创建的技能。
+    const { dirname } = await import('@tauri-apps/api/path');
+    const skillDir = await dirname(skillFilePath);
+    await customMkdir(skillDir);
 
-## 使用方法
-在这里描述如何使用此技能。
-`;
+    if (layout.bundleDirs.length > 0) {
+      for (const dir of layout.bundleDirs) {
+        await customMkdir(await join(skillDir, dir));
+      }
+    }
 
     // Write file using custom Rust command (bypasses scope)
-    await customWriteFile(skillFilePath, initialContent);
-    console.log('SKILL.md written successfully');
+    await customWriteFile(skillFilePath, fillPlaceholders(definition.template, safeName));
 
-    const skill = await readSkillFile(skillFilePath);
+    const skill = await readSkillFile(skillFilePath, definition.id, layout.kind);
     if (!skill) {
       console.error('Skill was created but readSkillFile returned null');
     }
@@ -200,12 +464,18 @@ description: "在这里输入技能描述"
 }
 
 /**
- * Delete an entire skill directory
+ * Delete a skill: the whole folder for folder entries (SKILL.md), only the file for
+ * standalone entries (.mdc, .cursorrules, commands) that share a folder with others
  */
 export async function deleteSkill(skillPath: string): Promise<boolean> {
   try {
     const { dirname } = await import('@tauri-apps/api/path');
 
+    if (!isFolderEntryFile(await basename(skillPath))) {
+      await customRemove(skillPath, false);
+      return true;
+    }
+
     // Get the parent directory of the skill file (the skill folder)
     const skillDir = await dirname(skillPath);
 
@@ -223,71 +493,90 @@ export interface SkillFolderItem {
   name: string;
   path: string;
   isDirectory: boolean;
-  children?: SkillFolderItem[];
+  /** Bytes; 0 for folders */
+  size: number;
+  /** Last modification time, ms since epoch */
+  modified: number;
 }
 
+/** Files at least this big are flagged in the file tree and confirmed before opening */
+export const LARGE_FILE_SIZE = 1024 * 1024;
+
+// Never worth showing in a skill's file tree, whatever the library excludes
+const TREE_HIDDEN = ['.git', '.DS_Store', 'Thumbs.db'];
+
 /**
- * Get the folder structure of a skill
+ * One level of a skill folder with sizes and mtimes, directories first
+ * Deeper levels are listed when their folder is expanded.
+ * @param root - The library root, which the exclude globs are relative to
+ * @param ignore - The library's exclude globs and whether .gitignore files apply
  */
-export async function getSkillFolderContents(skillPath: string): Promise<SkillFolderItem[]> {
-  try {
-    const { dirname } = await import('@tauri-apps/api/path');
-
-    const skillDir = await dirname(skillPath);
-    // Use custom command to read directory
-    const entries = await customReadDir(skillDir);
-
-    const items: SkillFolderItem[] = [];
-
-    for (const entry of entries) {
-      const fullPath = await join(skillDir, entry.name);
-      const item: SkillFolderItem = {
-        name: entry.name,
-        path: fullPath,
-        isDirectory: entry.isDirectory || false,
-      };
-
-      // Recursively get children for directories
-      if (entry.isDirectory) {
-        try {
-          const subEntries = await customReadDir(fullPath);
-          item.children = [];
-          for (const subEntry of subEntries) {
-            const subPath = await join(fullPath, subEntry.name);
-            item.children.push({
-              name: subEntry.name,
-              path: subPath,
-              isDirectory: subEntry.isDirectory || false,
-            });
-          }
-        } catch {
-          // Empty folder or no access
-          item.children = [];
-        }
-      }
+export async function listSkillFolder(
+  root: string,
+  dir: string,
+  ignore: Pick<LibraryScanConfig, 'exclude' | 'respectGitignore'>
+): Promise<SkillFolderItem[]> {
+  const items = await invoke<SkillFolderItem[]>('list_folder', {
+    root,
+    dir,
+    exclude: [...TREE_HIDDEN, ...ignore.exclude],
+    respectGitignore: ignore.respectGitignore,
+  });
+  // Sort: directories first, then files
+  return items.sort((a, b) => {
+    if (a.isDirectory && !b.isDirectory) return -1;
+    if (!a.isDirectory && b.isDirectory) return 1;
+    return a.name.localeCompare(b.name);
+  });
+}
 
-      items.push(item);
-    }
+/**
+ * A free path in `dir` for `name`; taken names get numbered (` 2`, or `suffix`, `suffix 2`, ...)
+ */
+export async function uniquePath(dir: string, name: string, suffix = ''): Promise<string> {
+  let candidate = joinPath(dir, suffix ? numberedName(name, 1, suffix) : name);
+  for (let n = 2; await customPathExists(candidate); n++) {
+    candidate = joinPath(dir, numberedName(name, n, suffix));
+  }
+  return candidate;
+}
 
-    // Sort: directories first, then files
-    return items.sort((a, b) => {
-      if (a.isDirectory && !b.isDirectory) return -1;
-      if (!a.isDirectory && b.isDirectory) return 1;
-      return a.name.localeCompare(b.name);
-    });
-  } catch (err) {
-    console.error('Failed to get skill folder contents:', err);
-    return [];
+/**
+ * Create an empty file or a folder below `dir`
+ * @param relative - May contain subfolders (`scripts/validate.py`), which are created too
+ */
+export async function createFolderItem(dir: string, relative: string, isDirectory: boolean): Promise<string> {
+  const path = joinPath(dir, relative);
+  if (await customPathExists(path)) throw new Error(`${relative} 已存在`);
+  if (isDirectory) {
+    await customMkdir(path);
+  } else {
+    await customMkdir(dirnameOf(path));
+    await customWriteFile(path, '');
   }
+  return path;
 }
 
-// Helper to generate a stable ID
-async function generateId(path: string): Promise<string> {
-  let hash = 0;
-  for (let i = 0; i < path.length; i++) {
-    const char = path.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
+/**
+ * Copy a file or folder next to itself as `name 副本.ext`, `name 副本 2.ext`, ...
+ */
+export async function duplicatePath(path: string): Promise<string> {
+  const target = await uniquePath(dirnameOf(path), basenameOf(path), '副本');
+  await customCopyPath(path, target);
+  return target;
+}
+
+/**
+ * Copy files or folders from elsewhere (e.g. dropped from the OS) into `dir`
+ * Clashing names get numbered instead of replacing what's there.
+ * @returns The new paths
+ */
+export async function importPaths(sources: string[], dir: string): Promise<string[]> {
+  const imported: string[] = [];
+  for (const source of sources) {
+    const target = await uniquePath(dir, basenameOf(source));
+    await customCopyPath(source, target);
+    imported.push(target);
   }
-  return Math.abs(hash).toString(16);
+  return imported;
 }
@@ -0,0 +1,101 @@
+import { load, type Store } from '@tauri-apps/plugin-store';
+import type { Skill } from '../types';
+
+// Lives in the app data directory, next to other plugin-store files
+const INDEX_FILE = 'skill-index.json';
+// Bump when the stored shape changes; older indexes are ignored
+const INDEX_VERSION = 1;
+
+/**
+ * File stats as the native scanner reports them
+ */
+export interface FileStats {
+  /** Last modification time, ms since epoch */
+  modified: number;
+  size: number;
+}
+
+/**
+ * A skill as last read from disk, with what's needed to tell whether the file changed
+ */
+export interface IndexedSkill extends FileStats {
+  skill: Skill;
+}
+
+interface SkillIndexFile {
+  version: number;
+  savedAt: number;
+  entries: IndexedSkill[];
+}
+
+let storePromise: Promise<Store> | null = null;
+let loaded = false;
+const indexed = new Map<string, IndexedSkill>();
+// Saves run one after another so an older snapshot never overwrites a newer one
+let saveQueue: Promise<void> = Promise.resolve();
+
+function getStore(): Promise<Store> {
+  storePromise ??= load(INDEX_FILE, { defaults: {}, autoSave: false });
+  return storePromise;
+}
+
+/**
+ * Read the index from disk (once) and return its entries
+ */
+export async function loadSkillIndex(): Promise<IndexedSkill[]> {
+  if (!loaded) {
+    try {
+      const file = await (await getStore()).get<SkillIndexFile>('index');
+      if (file?.version === INDEX_VERSION) {
+        file.entries.forEach(entry => indexed.set(entry.skill.sourcePath, entry));
+      }
+    } catch (err) {
+      console.warn('Failed to load skill index:', err);
+    }
+    loaded = true;
+  }
+  return [...indexed.values()];
+}
+
+export function isSkillIndexLoaded(): boolean {
+  return loaded;
+}
+
+export function getIndexedSkill(path: string): IndexedSkill | undefined {
+  return indexed.get(path);
+}
+
+/**
+ * Stats of every indexed file, for the scanner to skip unchanged ones
+ */
+export function getKnownFiles(): Record<string, FileStats> {
+  return Object.fromEntries([...indexed].map(([path, { modified, size }]) => [path, { modified, size }]));
+}
+
+/**
+ * Replace the index with the given skills
+ * @param stats - Fresh stats from a scan; skills without them keep their previous
+ *   stats when the content is unchanged, otherwise they'll be re-read next launch
+ */
+export function saveSkillIndex(skills: Skill[], stats: Map<string, FileStats> = new Map()): Promise<void> {
+  saveQueue = saveQueue.then(async () => {
+    const entries = skills.map((skill): IndexedSkill => {
+      const previous = indexed.get(skill.sourcePath);
+      const unchanged = previous !== undefined && previous.skill.content === skill.content;
+      const fileStats = stats.get(skill.sourcePath) ?? (unchanged ? previous : undefined);
+      return {
+        skill,
+        modified: fileStats?.modified ?? skill.lastModified,
+        size: fileStats?.size ?? new TextEncoder().encode(skill.content).length,
+      };
+    });
+
+    indexed.clear();
+    entries.forEach(entry => indexed.set(entry.skill.sourcePath, entry));
+
+    const store = await getStore();
+    await store.set('index', { version: INDEX_VERSION, savedAt: Date.now(), entries } satisfies SkillIndexFile);
+    await store.save();
+  }).catch(err => console.error('Failed to save skill index:', err));
+  return saveQueue;
+}
@@ -0,0 +1,26 @@
+/**
+ * Score `text` against a fuzzy query: every query character must appear in
+ * order; consecutive runs and word starts score higher, as do shorter texts.
+ * @returns The score and the matched character indexes, or null for no match
+ */
+export function fuzzyMatch(query: string, text: string): { score: number; indices: number[] } | null {
+    const q = query.toLowerCase().replace(/\s+/g, '');
+    if (!q) return { score: 0, indices: [] };
+    const t = text.toLowerCase();
+
+    const indices: number[] = [];
+    let score = 0;
+    let from = 0;
+    for (const char of q) {
+        const at = t.indexOf(char, from);
+        if (at === -1) return null;
+        const isConsecutive = indices.length > 0 && at === indices[indices.length - 1] + 1;
+        const isWordStart = at === 0 || /[\s/\\_\-.:]/.test(t[at - 1]) || (text[at] !== t[at] && text[at - 1] === t[at - 1]);
+        score += 1 + (isConsecutive ? 3 : 0) + (isWordStart ? 2 : 0) - Math.min(at - from, 5) * 0.1;
+        indices.push(at);
+        from = at + 1;
+    }
+    // A substring match beats a scattered one
+    if (t.includes(q)) score += q.length * 2;
+    return { score: score - text.length * 0.01, indices };
+}
@@ -0,0 +1,2 @@
+export { registerCommands, useCommands, useRegisterCommands, type Command } from './registry';
+export { fuzzyMatch } from './fuzzy';
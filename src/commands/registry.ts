@@ -0,0 +1,58 @@
+import { useEffect, useSyncExternalStore, type DependencyList } from 'react';
+
+/**
+ * An action offered in the command palette
+ */
+export interface Command {
+    /** Unique across all registrations, e.g. `editor.save` */
+    id: string;
+    title: string;
+    /** Section heading in the palette */
+    group: string;
+    /** Extra words the fuzzy search matches, e.g. English names for Chinese titles */
+    keywords?: string[];
+    /** Displayed only; the owning component binds the key itself */
+    shortcut?: string;
+    run: () => void | Promise<void>;
+}
+
+const registrations = new Set<Command[]>();
+const listeners = new Set<() => void>();
+let snapshot: Command[] = [];
+
+function emit(): void {
+    // Later registrations win on duplicate ids (e.g. a remounted component)
+    const byId = new Map<string, Command>();
+    registrations.forEach(commands => commands.forEach(command => byId.set(command.id, command)));
+    snapshot = [...byId.values()];
+    listeners.forEach(listener => listener());
+}
+
+/**
+ * Add commands to the palette until the returned function is called
+ */
+export function registerCommands(commands: Command[]): () => void {
+    registrations.add(commands);
+    emit();
+    return () => {
+        registrations.delete(commands);
+        emit();
+    };
+}
+
+function subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+export function useCommands(): Command[] {
+    return useSyncExternalStore(subscribe, () => snapshot);
+}
+
+/**
+ * Register a component's commands while it is mounted
+ * The factory re-runs when `deps` change, like useMemo, so commands see current state.
+ */
+export function useRegisterCommands(factory: () => Command[], deps: DependencyList): void {
+    useEffect(() => registerCommands(factory()), deps);
+}
@@ -0,0 +1,186 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Command as CommandIcon, FileCode, Search } from 'lucide-react';
+import { useAppStore } from '../store/appStore';
+import { fuzzyMatch, useCommands, type Command } from '../commands';
+import { useFormats, resolveFormat } from '../formats';
+import type { Skill } from '../types';
+
+type PaletteItem =
+    | { type: 'command'; key: string; command: Command; score: number; indices: number[] }
+    | { type: 'skill'; key: string; skill: Skill; score: number; indices: number[] };
+
+const MAX_SKILLS = 30;
+
+function Highlighted({ text, indices }: { text: string; indices: number[] }) {
+    const marked = new Set(indices);
+    return (
+        <>
+            {[...text].map((char, i) => marked.has(i)
+                ? <span key={i} className="text-accent font-semibold">{char}</span>
+                : char)}
+        </>
+    );
+}
+
+/**
+ * Best match of a command's title, falling back to its keywords (no highlight then)
+ */
+function matchCommand(query: string, command: Command): { score: number; indices: number[] } | null {
+    const title = fuzzyMatch(query, command.title);
+    const keyword = Math.max(...(command.keywords ?? []).map(k => fuzzyMatch(query, k)?.score ?? -Infinity));
+    if (title && title.score >= keyword) return title;
+    return keyword > -Infinity ? { score: keyword, indices: [] } : null;
+}
+
+/**
+ * CommandPalette - Ctrl/Cmd+K launcher for registered commands and skills
+ */
+export function CommandPalette() {
+    const skills = useAppStore((s) => s.skills);
+    const commands = useCommands();
+    const formats = useFormats();
+
+    const [isOpen, setIsOpen] = useState(false);
+    const [query, setQuery] = useState('');
+    const [activeIndex, setActiveIndex] = useState(0);
+    const listRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if ((e.ctrlKey || e.metaKey) && !e.shiftKey && !e.altKey && e.key.toLowerCase() === 'k') {
+                e.preventDefault();
+                setIsOpen(open => !open);
+                setQuery('');
+                setActiveIndex(0);
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    const items = useMemo<PaletteItem[]>(() => {
+        const commandItems = commands.flatMap((command): PaletteItem[] => {
+            const match = matchCommand(query, command);
+            return match ? [{ type: 'command', key: `command:${command.id}`, command, ...match }] : [];
+        });
+        if (!query.trim()) return commandItems;
+
+        const skillItems = skills
+            .flatMap((skill): PaletteItem[] => {
+                const match = fuzzyMatch(query, skill.title);
+                return match ? [{ type: 'skill', key: `skill:${skill.id}`, skill, ...match }] : [];
+            })
+            .sort((a, b) => b.score - a.score)
+            .slice(0, MAX_SKILLS);
+        return [...commandItems, ...skillItems].sort((a, b) => b.score - a.score);
+    }, [commands, skills, query]);
+
+    // Keep the highlighted row in view
+    useEffect(() => {
+        listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+    }, [activeIndex]);
+
+    const close = () => setIsOpen(false);
+
+    const runItem = (item: PaletteItem) => {
+        close();
+        if (item.type === 'skill') {
+            const { setSelectedSkill, setEditorTarget, setCurrentView } = useAppStore.getState();
+            setEditorTarget(null);
+            setSelectedSkill(item.skill.id);
+            setCurrentView('editor');
+            return;
+        }
+        Promise.resolve(item.command.run()).catch((err) => {
+            console.error(`Command ${item.command.id} failed:`, err);
+            useAppStore.getState().setError(`${item.command.title}失败：${err}`);
+        });
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            if (items.length === 0) return;
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            setActiveIndex((activeIndex + step + items.length) % items.length);
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            const item = items[activeIndex];
+            if (item) runItem(item);
+        } else if (e.key === 'Escape') {
+            close();
+        }
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="fixed inset-0 z-[200] flex items-start justify-center pt-[15vh] bg-black/40 backdrop-blur-sm"
+                    onClick={close}
+                >
+                    <motion.div
+                        initial={{ scale: 0.97, y: -10 }}
+                        animate={{ scale: 1, y: 0 }}
+                        exit={{ scale: 0.97, y: -10 }}
+                        transition={{ duration: 0.12 }}
+                        className="w-full max-w-xl mx-4 bg-surface border border-border/50 rounded-2xl shadow-2xl overflow-hidden"
+                        onClick={(e) => e.stopPropagation()}
+                        onKeyDown={handleKeyDown}
+                    >
+                        <div className="flex items-center gap-3 px-4 border-b border-border/30">
+                            <Search className="w-4 h-4 text-muted shrink-0" />
+                            <input
+                                autoFocus
+                                type="text"
+                                value={query}
+                                onChange={(e) => {
+                                    setQuery(e.target.value);
+                                    setActiveIndex(0);
+                                }}
+                                placeholder="搜索命令或技能..."
+                                className="flex-1 py-4 bg-transparent text-foreground placeholder-muted focus:outline-none"
+                            />
+                            <kbd className="px-1.5 py-0.5 text-[10px] text-muted border border-border/50 rounded">Esc</kbd>
+                        </div>
+
+                        <div ref={listRef} className="max-h-[50vh] overflow-y-auto py-2">
+                            {items.length === 0 ? (
+                                <div className="px-4 py-8 text-center text-sm text-muted">没有匹配的命令或技能</div>
+                            ) : items.map((item, i) => {
+                                const isActive = i === activeIndex;
+                                const format = item.type === 'skill' ? resolveFormat(item.skill.format, formats) : null;
+                                return (
+                                    <button
+                                        key={item.key}
+                                        data-index={i}
+                                        onClick={() => runItem(item)}
+                                        onMouseMove={() => !isActive && setActiveIndex(i)}
+                                        className={`w-full flex items-center gap-3 px-4 py-2 text-left text-sm transition-colors ${isActive ? 'bg-accent/10 text-foreground' : 'text-foreground/80'}`}
+                                    >
+                                        {item.type === 'skill'
+                                            ? <FileCode className="w-4 h-4 shrink-0" style={{ color: format?.color }} />
+                                            : <CommandIcon className="w-4 h-4 shrink-0 text-muted" />}
+                                        <span className="flex-1 truncate">
+                                            <Highlighted text={item.type === 'skill' ? item.skill.title : item.command.title} indices={item.indices} />
+                                        </span>
+                                        {item.type === 'command' && item.command.shortcut && (
+                                            <kbd className="px-1.5 py-0.5 text-[10px] text-muted border border-border/50 rounded">{item.command.shortcut}</kbd>
+                                        )}
+                                        <span className="text-[10px] text-muted shrink-0">
+                                            {item.type === 'skill' ? `打开技能 · ${format?.label}` : item.command.group}
+                                        </span>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+}
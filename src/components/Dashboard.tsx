@@ -1,8 +1,11 @@
 import { motion, AnimatePresence } from 'framer-motion';
-import { Search, Plus, AlertCircle } from 'lucide-react';
+import { Search, Plus, AlertCircle, ClipboardList } from 'lucide-react';
 import { useAppStore, useFilteredSkills } from '../store/appStore';
-import { SkillCard, CreateSkillModal } from './skills';
-import { useState } from 'react';
+import { SkillCard, CreateSkillModal, ScanReportModal, SearchBox, TagSidebar, BulkTagBar, CollectionBar, SaveSearchButton } from './skills';
+import { useMemo, useState } from 'react';
+import { SKILL_KIND_LABELS, type Skill, type SkillKind } from '../types';
+import { parseQuery, setQualifier, useSearchResults, type SearchMatch } from '../search';
+import { useRegisterCommands } from '../commands';
 
 /**
  * Dashboard - Main skills grid view
@@ -11,144 +14,265 @@ export function Dashboard() {
     const searchQuery = useAppStore((s) => s.searchQuery);
     const setSearchQuery = useAppStore((s) => s.setSearchQuery);
     const isLoading = useAppStore((s) => s.isLoading);
+    const scanProgress = useAppStore((s) => s.scanProgress);
+    const scanReport = useAppStore((s) => s.scanReport);
     const error = useAppStore((s) => s.error);
     const skills = useFilteredSkills();
+    const allSkills = useAppStore((s) => s.skills);
+    const filterKind = useAppStore((s) => s.filterKind);
+    const activeCollection = useAppStore((s) => (s.preferences.collections || []).find(c => c.id === s.activeCollectionId));
 
     const setSelectedSkill = useAppStore((s) => s.setSelectedSkill);
     const setCurrentView = useAppStore((s) => s.setCurrentView);
+    const setEditorTarget = useAppStore((s) => s.setEditorTarget);
+
+    // Qualifiers only filter; free text switches to ranked results
+    const searchText = useMemo(() => parseQuery(searchQuery).text.toLowerCase().trim(), [searchQuery]);
+    const isSearching = !!searchText;
+    const searchResults = useSearchResults(searchText);
+    const matchesById = useMemo(
+        () => new Map((searchResults ?? []).map(r => [r.skillId, r.matches])),
+        [searchResults]
+    );
 
     const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+    const [isReportOpen, setIsReportOpen] = useState(false);
+    // Skills picked for bulk tagging; while any are picked, clicking a card toggles it
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const selectedSkills = useMemo(() => allSkills.filter(s => selectedIds.has(s.id)), [allSkills, selectedIds]);
+
+    const toggleSelected = (id: string) => {
+        const next = new Set(selectedIds);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        setSelectedIds(next);
+    };
+
+    useRegisterCommands(() => [
+        { id: 'dashboard.new', title: '新建技能', group: '技能库', keywords: ['new', 'create'], run: () => setIsCreateModalOpen(true) },
+        {
+            id: 'dashboard.clear',
+            title: '清除搜索与筛选',
+            group: '技能库',
+            keywords: ['clear', 'reset', 'filter'],
+            run: () => {
+                setSearchQuery('');
+                useAppStore.getState().setActiveCollection(null);
+            },
+        },
+        ...(scanReport ? [{ id: 'dashboard.report', title: '查看扫描报告', group: '技能库', keywords: ['scan', 'report'], run: () => setIsReportOpen(true) }] : []),
+    ], [setSearchQuery, !!scanReport]);
 
-    const handleOpenSkill = (id: string) => {
+    const failedCount = scanReport?.libraries.reduce((n, l) => n + l.failed.length, 0) ?? 0;
+
+    // While searching, open at the clicked match (or the best one)
+    const handleOpenSkill = (id: string, match?: SearchMatch) => {
         if (!id) return;
+        const target = match ?? matchesById.get(id)?.[0];
+        setEditorTarget(target ? { skillId: id, path: target.path, line: target.line } : null);
         setSelectedSkill(id);
         setCurrentView('editor');
     };
 
+    const renderGrid = (list: Skill[]) => (
+        <motion.div
+            className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-5"
+            initial="hidden"
+            animate="visible"
+            variants={{
+                hidden: { opacity: 0 },
+                visible: {
+                    opacity: 1,
+                    transition: { staggerChildren: 0.05 },
+                },
+            }}
+        >
+            <AnimatePresence mode="popLayout">
+                {list.map((skill) => (
+                    <SkillCard
+                        key={skill.id}
+                        skill={skill}
+                        matches={matchesById.get(skill.id)}
+                        selected={selectedIds.has(skill.id)}
+                        onClick={() => selectedSkills.length > 0 ? toggleSelected(skill.id) : handleOpenSkill(skill.id)}
+                        onToggleSelect={() => toggleSelected(skill.id)}
+                        onOpenMatch={(match) => handleOpenSkill(skill.id, match)}
+                    />
+                ))}
+            </AnimatePresence>
+        </motion.div>
+    );
+
+    // Only offer kinds that actually exist in the libraries
+    const kindCounts = allSkills.reduce<Partial<Record<SkillKind, number>>>((acc, s) => {
+        const kind = s.kind || 'skill';
+        acc[kind] = (acc[kind] || 0) + 1;
+        return acc;
+    }, {});
+    const availableKinds = (Object.keys(SKILL_KIND_LABELS) as SkillKind[]).filter(k => kindCounts[k]);
+
     // Grouping logic with defensive checks
     const formats = Array.from(new Set(skills.map(s => s.format || 'generic'))).sort();
 
     return (
-        <div className="flex-1 flex flex-col overflow-hidden">
-            {/* Header */}
-            <header className="px-8 py-6 border-b border-border/30">
-                <div className="flex items-center justify-between mb-6">
-                    <div>
-                        <h1 className="text-2xl font-bold text-foreground">技能库</h1>
-                        <p className="text-muted mt-1">管理本地skills</p>
+        <div className="flex-1 flex overflow-hidden">
+            <TagSidebar />
+            <div className="flex-1 flex flex-col overflow-hidden">
+                {/* Header */}
+                <header className="px-8 py-6 border-b border-border/30">
+                    <div className="flex items-center justify-between mb-6">
+                        <div>
+                            <h1 className="text-2xl font-bold text-foreground">技能库</h1>
+                            <p className="text-muted mt-1">管理本地skills</p>
+                        </div>
+                        <motion.button
+                            onClick={() => setIsCreateModalOpen(true)}
+                            className="flex items-center gap-2 px-4 py-2.5 bg-accent hover:bg-accent/90 text-white rounded-xl font-medium transition-colors"
+                            whileHover={{ scale: 1.02 }}
+                            whileTap={{ scale: 0.98 }}
+                        >
+                            <Plus className="w-4 h-4" />
+                            新建技能
+                        </motion.button>
                     </div>
-                    <motion.button
-                        onClick={() => setIsCreateModalOpen(true)}
-                        className="flex items-center gap-2 px-4 py-2.5 bg-accent hover:bg-accent/90 text-white rounded-xl font-medium transition-colors"
-                        whileHover={{ scale: 1.02 }}
-                        whileTap={{ scale: 0.98 }}
-                    >
-                        <Plus className="w-4 h-4" />
-                        新建技能
-                    </motion.button>
-                </div>
 
-                {/* Search and filters */}
-                <div className="flex items-center gap-4">
-                    <div className="flex-1 relative">
-                        <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-muted" />
-                        <input
-                            type="text"
-                            placeholder="模糊搜索名称或描述..."
-                            value={searchQuery}
-                            onChange={(e) => setSearchQuery(e.target.value)}
-                            className="w-full pl-11 pr-4 py-3 bg-surface/50 border border-border/50 rounded-xl text-foreground placeholder-muted focus:outline-none focus:border-accent/50 transition-colors"
-                        />
+                    {/* Search and filters */}
+                    <div className="flex items-center gap-4">
+                        <SearchBox />
+                        {!(activeCollection?.kind === 'smart' && activeCollection.query === searchQuery.trim()) && <SaveSearchButton />}
+                        {isLoading && (
+                            <div className="flex items-center gap-2 px-3 py-1 bg-accent/10 border border-accent/20 rounded-lg">
+                                <motion.div
+                                    animate={{ rotate: 360 }}
+                                    transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
+                                    className="w-4 h-4 border-2 border-accent border-t-transparent rounded-full"
+                                />
+                                <span className="text-xs text-accent font-medium" title={scanProgress?.currentPath}>
+                                    扫描中...
+                                    {scanProgress && ` 已发现 ${scanProgress.found} 个 · ${scanProgress.visitedDirs} 个目录`}
+                                </span>
+                            </div>
+                        )}
+                        {!isLoading && scanReport && (
+                            <button
+                                onClick={() => setIsReportOpen(true)}
+                                className={`flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-medium border transition-colors ${failedCount > 0
+                                    ? 'bg-red-500/10 border-red-500/30 text-red-400 hover:bg-red-500/20'
+                                    : 'bg-surface/50 border-border/50 text-muted hover:text-foreground'
+                                    }`}
+                                title="查看扫描报告"
+                            >
+                                <ClipboardList className="w-4 h-4" />
+                                扫描报告
+                                {failedCount > 0 && <span>{failedCount} 个问题</span>}
+                            </button>
+                        )}
                     </div>
-                    {isLoading && (
-                        <div className="flex items-center gap-2 px-3 py-1 bg-accent/10 border border-accent/20 rounded-lg">
-                            <motion.div
-                                animate={{ rotate: 360 }}
-                                transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
-                                className="w-4 h-4 border-2 border-accent border-t-transparent rounded-full"
-                            />
-                            <span className="text-xs text-accent font-medium">扫描中...</span>
+
+                    {(availableKinds.length > 1 || filterKind) && (
+                        <div className="flex items-center gap-2 mt-4">
+                            {[null, ...availableKinds].map((kind) => (
+                                <button
+                                    key={kind ?? 'all'}
+                                    onClick={() => setSearchQuery(setQualifier(searchQuery, 'kind', kind))}
+                                    className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${filterKind === kind
+                                        ? 'bg-accent text-white'
+                                        : 'bg-surface/50 text-muted hover:text-foreground border border-border/50'
+                                        }`}
+                                >
+                                    {kind ? SKILL_KIND_LABELS[kind] : '全部'}
+                                    <span className="ml-1.5 opacity-60">{kind ? kindCounts[kind] : allSkills.length}</span>
+                                </button>
+                            ))}
                         </div>
                     )}
-                </div>
 
-                {error && (
-                    <motion.div
-                        initial={{ opacity: 0, height: 0 }}
-                        animate={{ opacity: 1, height: 'auto' }}
-                        className="mt-4 p-3 bg-red-500/10 border border-red-500/30 rounded-xl text-red-400 text-sm flex items-center gap-2"
-                    >
-                        <AlertCircle className="w-4 h-4 shrink-0" />
-                        <span className="flex-1">{error}</span>
-                        <button
-                            onClick={() => useAppStore.getState().setError(null)}
-                            className="p-1 hover:bg-red-500/20 rounded-md"
+                    {activeCollection && (
+                        <CollectionBar key={activeCollection.id} collection={activeCollection} count={skills.length} />
+                    )}
+
+                    <AnimatePresence>
+                        {selectedSkills.length > 0 && (
+                            <BulkTagBar
+                                selected={selectedSkills}
+                                onSelectAll={() => setSelectedIds(new Set([...selectedIds, ...skills.map(s => s.id)]))}
+                                onClear={() => setSelectedIds(new Set())}
+                            />
+                        )}
+                    </AnimatePresence>
+
+                    {error && (
+                        <motion.div
+                            initial={{ opacity: 0, height: 0 }}
+                            animate={{ opacity: 1, height: 'auto' }}
+                            className="mt-4 p-3 bg-red-500/10 border border-red-500/30 rounded-xl text-red-400 text-sm flex items-center gap-2"
                         >
-                            <Plus className="w-4 h-4 rotate-45" />
-                        </button>
-                    </motion.div>
-                )}
-            </header>
-
-            {/* Skills Grid */}
-            <div className="flex-1 overflow-y-auto p-8">
-                {skills.length === 0 ? (
-                    <EmptyState isSearching={!!searchQuery} />
-                ) : (
-                    <div className="space-y-12 pb-12">
-                        {formats.map(format => {
-                            const groupSkills = skills.filter(s => (s.format || 'generic') === format);
-                            if (groupSkills.length === 0) return null;
-
-                            return (
-                                <section key={format} className="space-y-6">
-                                    <div className="flex items-center gap-4">
-                                        <h2 className="text-sm font-bold tracking-wider text-accent uppercase flex items-center gap-2">
-                                            {format}
-                                            <span className="px-2 py-0.5 rounded-full bg-accent/10 border border-accent/20 text-[10px] lowercase font-medium">
-                                                {groupSkills.length} {groupSkills.length === 1 ? 'skill' : 'skills'}
-                                            </span>
-                                        </h2>
-                                        <div className="flex-1 h-px bg-gradient-to-r from-accent/20 to-transparent opacity-50" />
-                                    </div>
-
-                                    <motion.div
-                                        className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-5"
-                                        initial="hidden"
-                                        animate="visible"
-                                        variants={{
-                                            hidden: { opacity: 0 },
-                                            visible: {
-                                                opacity: 1,
-                                                transition: { staggerChildren: 0.05 },
-                                            },
-                                        }}
-                                    >
-                                        <AnimatePresence mode="popLayout">
-                                            {groupSkills.map((skill) => (
-                                                <SkillCard
-                                                    key={skill.id}
-                                                    skill={skill}
-                                                    onClick={() => handleOpenSkill(skill.id)}
-                                                />
-                                            ))}
-                                        </AnimatePresence>
-                                    </motion.div>
-                                </section>
-                            );
-                        })}
-                    </div>
-                )}
+                            <AlertCircle className="w-4 h-4 shrink-0" />
+                            <span className="flex-1">{error}</span>
+                            <button
+                                onClick={() => useAppStore.getState().setError(null)}
+                                className="p-1 hover:bg-red-500/20 rounded-md"
+                            >
+                                <Plus className="w-4 h-4 rotate-45" />
+                            </button>
+                        </motion.div>
+                    )}
+                </header>
+
+                {/* Skills Grid */}
+                <div className="flex-1 overflow-y-auto p-8">
+                    {skills.length === 0 ? (
+                        <EmptyState isSearching={!!searchQuery.trim() || !!activeCollection} />
+                    ) : isSearching ? (
+                        // Ranked results stay in one list instead of format groups
+                        <section className="space-y-6 pb-12">
+                            <div className="flex items-center gap-4">
+                                <h2 className="text-sm font-bold tracking-wider text-accent flex items-center gap-2">
+                                    搜索结果
+                                    <span className="px-2 py-0.5 rounded-full bg-accent/10 border border-accent/20 text-[10px] font-medium">
+                                        {skills.length}
+                                    </span>
+                                </h2>
+                                <div className="flex-1 h-px bg-gradient-to-r from-accent/20 to-transparent opacity-50" />
+                            </div>
+                            {renderGrid(skills)}
+                        </section>
+                    ) : (
+                        <div className="space-y-12 pb-12">
+                            {formats.map(format => {
+                                const groupSkills = skills.filter(s => (s.format || 'generic') === format);
+                                if (groupSkills.length === 0) return null;
+
+                                return (
+                                    <section key={format} className="space-y-6">
+                                        <div className="flex items-center gap-4">
+                                            <h2 className="text-sm font-bold tracking-wider text-accent uppercase flex items-center gap-2">
+                                                {format}
+                                                <span className="px-2 py-0.5 rounded-full bg-accent/10 border border-accent/20 text-[10px] lowercase font-medium">
+                                                    {groupSkills.length} {groupSkills.length === 1 ? 'skill' : 'skills'}
+                                                </span>
+                                            </h2>
+                                            <div className="flex-1 h-px bg-gradient-to-r from-accent/20 to-transparent opacity-50" />
+                                        </div>
+
+                                        {renderGrid(groupSkills)}
+                                    </section>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+                {/* Modal */}
+                <AnimatePresence>
+                    {isCreateModalOpen && (
+                        <CreateSkillModal
+                            isOpen={isCreateModalOpen}
+                            onClose={() => setIsCreateModalOpen(false)}
+                        />
+                    )}
+                    {isReportOpen && <ScanReportModal onClose={() => setIsReportOpen(false)} />}
+                </AnimatePresence>
             </div>
-            {/* Modal */}
-            <AnimatePresence>
-                {isCreateModalOpen && (
-                    <CreateSkillModal
-                        isOpen={isCreateModalOpen}
-                        onClose={() => setIsCreateModalOpen(false)}
-                    />
-                )}
-            </AnimatePresence>
         </div>
     );
 }
@@ -159,6 +283,12 @@ export function Dashboard() {
 function EmptyState({ isSearching }: { isSearching: boolean }) {
     const setCurrentView = useAppStore((s) => s.setCurrentView);
     const setSearchQuery = useAppStore((s) => s.setSearchQuery);
+    const setActiveCollection = useAppStore((s) => s.setActiveCollection);
+
+    const clearSearch = () => {
+        setSearchQuery('');
+        setActiveCollection(null);
+    };
 
     return (
         <motion.div
@@ -178,7 +308,7 @@ function EmptyState({ isSearching }: { isSearching: boolean }) {
                     : '还没有导入任何技能。前往设置添加技能库路径，或者创建一个新技能。'}
             </p>
             <motion.button
-                onClick={() => isSearching ? setSearchQuery('') : setCurrentView('settings')}
+                onClick={() => isSearching ? clearSearch() : setCurrentView('settings')}
                 className="px-6 py-3 bg-accent hover:bg-accent/90 text-white rounded-xl font-medium transition-colors"
                 whileHover={{ scale: 1.02 }}
                 whileTap={{ scale: 0.98 }}
@@ -1,11 +1,36 @@
-import { useState, useEffect, useMemo, useCallback } from 'react';
-import { useAppStore } from '../store/appStore';
-import { deleteSkill, getSkillFolderContents, type SkillFolderItem, customReadFile, customWriteFile } from '../adapters/fs';
-import { Save, FileCode, Eye, PenTool, Layout, Check, AlertCircle, Sparkles, X, Trash2, FolderOpen, File, ChevronRight, ChevronDown, ArrowLeft } from 'lucide-react';
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { useAppStore, isTabDirty, DEFAULT_AUTOSAVE_DELAY, type EditorTab } from '../store/appStore';
+import { deleteSkill, customFileStats, detectExternalChange, readTextFile, skillFromContent, writeTextFile, DEFAULT_ENCODING } from '../adapters/fs';
+import { Save, FileCode, Eye, PenTool, Layout, Check, AlertCircle, Sparkles, X, Trash2, FolderOpen, ArrowLeft, ArrowLeftRight } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import remarkFrontmatter from 'remark-frontmatter';
 import { Highlight, themes } from 'prism-react-renderer';
+import {
+    FrontmatterForm,
+    DiagnosticsPanel,
+    CodeEditor,
+    EditorTabs,
+    FileTree,
+    ImageViewer,
+    BinaryView,
+    imageMimeType,
+    binaryTypeLabel,
+    UnsavedChangesDialog,
+    SaveConflictDialog,
+    mergeConflict,
+    tabLabel,
+    type CodeEditorHandle,
+    type SaveConflict,
+} from './editor';
+import { ConvertSkillModal } from './skills';
+import { lintSkillFile, countErrors } from '../lint';
+import { hasConflictMarkers } from '../utils/diff';
+import { basenameOf, dirnameOf, isSameOrInside } from '../utils/path';
+import { formatBadgeStyle, isFolderEntryFile, resolveFormat, useFormats } from '../formats';
+import { useRegisterCommands } from '../commands';
+import { getScanConfig } from '../hooks/useSkillScanner';
+import { exportSkill } from '../convert';
 
 // Stable reference for plugins
 const REMARK_PLUGINS = [remarkGfm, remarkFrontmatter];
@@ -27,6 +52,7 @@ const EXT_TO_LANGUAGE: Record<string, string> = {
     'yaml': 'yaml',
     'yml': 'yaml',
     'md': 'markdown',
+    'mdc': 'markdown',
     'sh': 'bash',
     'bash': 'bash',
     'rs': 'rust',
@@ -46,7 +72,32 @@ function getLanguageFromPath(path: string): string {
 }
 
 function isMarkdownFile(path: string): boolean {
-    return path.toLowerCase().endsWith('.md');
+    const lower = path.toLowerCase();
+    return lower.endsWith('.md') || lower.endsWith('.mdc');
+}
+
+/**
+ * Read a file into a new tab: images and binaries open in a viewer, text keeps its encoding
+ */
+async function readTab(path: string, skillId: string): Promise<EditorTab> {
+    // Known image and binary types skip the read; the viewers load what they need
+    const mimeType = imageMimeType(path);
+    if (mimeType || binaryTypeLabel(path)) {
+        return { path, skillId, content: '', savedContent: '', view: mimeType ? 'image' : 'binary' };
+    }
+    // Stat before reading, so a write in between shows up as a newer mtime at save
+    const { modified } = await customFileStats(path);
+    const read = await readTextFile(path);
+    if (read.kind === 'binary') return { path, skillId, content: '', savedContent: '', view: 'binary' };
+    return {
+        path,
+        skillId,
+        content: read.content,
+        savedContent: read.content,
+        diskModified: modified,
+        encoding: read.encoding,
+        bom: read.bom,
+    };
 }
 
 /**
@@ -67,13 +118,19 @@ function MarkdownPreview({ content }: { content: string }) {
     );
 }
 
+/**
+ * Whether the app is rendered dark (system theme fallback logic included in App.tsx but simplified here)
+ */
+function useIsDark(): boolean {
+    const storedTheme = useAppStore(s => s.preferences.theme);
+    return storedTheme === 'dark' || (storedTheme === 'system' && window.matchMedia('(prefers-color-scheme: dark)').matches);
+}
+
 /**
  * CodePreview - Syntax highlighted code viewer
  */
 function CodePreview({ content, language }: { content: string; language: string }) {
-    // Detect theme (system theme fallback logic included in App.tsx but simplified here)
-    const storedTheme = useAppStore(s => s.preferences.theme);
-    const isDark = storedTheme === 'dark' || (storedTheme === 'system' && window.matchMedia('(prefers-color-scheme: dark)').matches);
+    const isDark = useIsDark();
 
     return (
         <Highlight theme={isDark ? themes.nightOwl : themes.github} code={content} language={language as any}>
@@ -95,78 +152,9 @@ function CodePreview({ content, language }: { content: string; language: string
     );
 }
 
-/**
- * FileTreeItem - Renders a single item in the skill's file tree
- */
-function FileTreeItem({
-    item,
-    depth = 0,
-    selectedPath,
-    onSelectFile
-}: {
-    item: SkillFolderItem;
-    depth?: number;
-    selectedPath: string | null;
-    onSelectFile: (path: string) => void;
-}) {
-    const [isOpen, setIsOpen] = useState(true);
-    const isSelected = selectedPath === item.path;
-    const isSkillMd = item.name.toUpperCase() === 'SKILL.MD';
-
-    const handleClick = () => {
-        if (item.isDirectory) {
-            setIsOpen(!isOpen);
-        } else {
-            onSelectFile(item.path);
-        }
-    };
-
-    return (
-        <div>
-            <div
-                className={`flex items-center gap-2 py-1.5 px-2 rounded-lg cursor-pointer transition-all ${isSelected ? 'bg-accent/20 text-accent' :
-                    isSkillMd ? 'text-accent/80 hover:bg-accent/10' :
-                        'hover:bg-accent/5 text-foreground/70 hover:text-foreground'
-                    }`}
-                style={{ paddingLeft: `${depth * 12 + 8}px` }}
-                onClick={handleClick}
-            >
-                {item.isDirectory ? (
-                    <>
-                        {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
-                        <FolderOpen size={14} className="text-amber-400" />
-                    </>
-                ) : (
-                    <>
-                        <span className="w-[14px]" />
-                        <File size={14} className={isSelected || isSkillMd ? 'text-accent' : 'text-muted'} />
-                    </>
-                )}
-                <span className={`text-xs font-medium truncate ${isSkillMd ? 'font-bold' : ''}`}>{item.name}</span>
-                {item.children && item.children.length > 0 && (
-                    <span className="text-[10px] text-muted ml-auto">{item.children.length}</span>
-                )}
-            </div>
-            {item.isDirectory && isOpen && item.children && (
-                <div>
-                    {item.children.map((child) => (
-                        <FileTreeItem
-                            key={child.path}
-                            item={child}
-                            depth={depth + 1}
-                            selectedPath={selectedPath}
-                            onSelectFile={onSelectFile}
-                        />
-                    ))}
-                    {item.children.length === 0 && (
-                        <div className="text-[10px] text-muted italic py-1" style={{ paddingLeft: `${(depth + 1) * 12 + 24}px` }}>
-                            (空)
-                        </div>
-                    )}
-                </div>
-            )}
-        </div>
-    );
+interface SaveOptions {
+    auto?: boolean;
+    force?: boolean;
 }
 
 /**
@@ -179,62 +167,126 @@ export function Editor() {
     const removeSkill = useAppStore((s) => s.removeSkill);
     const setCurrentView = useAppStore((s) => s.setCurrentView);
     const setSelectedSkill = useAppStore((s) => s.setSelectedSkill);
-
-    const skill = useMemo(() => skills.find(s => s.id === selectedSkillId), [skills, selectedSkillId]);
+    const editorTarget = useAppStore((s) => s.editorTarget);
+    const setEditorTarget = useAppStore((s) => s.setEditorTarget);
+    const resolvePendingView = useAppStore((s) => s.resolvePendingView);
+    const blockSaveOnLintErrors = useAppStore((s) => !!s.preferences.blockSaveOnLintErrors);
+    const libraries = useAppStore((s) => s.preferences.libraries);
+    const autosave = useAppStore((s) => !!s.preferences.autosave);
+    const autosaveDelay = useAppStore((s) => s.preferences.autosaveDelay ?? DEFAULT_AUTOSAVE_DELAY);
+    const formats = useFormats();
+    const isDark = useIsDark();
+
+    const editorTabs = useAppStore((s) => s.editorTabs);
+    const activeTabPath = useAppStore((s) => s.activeTabPath);
+    const pendingView = useAppStore((s) => s.pendingView);
+    const activeTab = editorTabs.find(t => t.path === activeTabPath) ?? null;
+    const dirtyTabs = editorTabs.filter(isTabDirty);
+    const openPathsKey = editorTabs.map(t => t.path).join('\n');
+    const openPaths = useMemo(() => openPathsKey.split('\n'), [openPathsKey]);
+
+    // The active tab decides the skill, so tabs from other skills bring their skill along
+    const skill = useMemo(
+        () => skills.find(s => s.id === (activeTab?.skillId ?? selectedSkillId)),
+        [skills, activeTab?.skillId, selectedSkillId]
+    );
 
     // State
-    const [currentFilePath, setCurrentFilePath] = useState<string | null>(null);
-    const [fileContent, setFileContent] = useState('');
-    const [originalContent, setOriginalContent] = useState('');
-    const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
     const [isSaving, setIsSaving] = useState(false);
     const [saveStatus, setSaveStatus] = useState<'idle' | 'success' | 'error'>('idle');
     const [lastError, setLastError] = useState<string | null>(null);
     const [viewMode, setViewMode] = useState<'edit' | 'preview' | 'split'>('split');
-    const [folderContents, setFolderContents] = useState<SkillFolderItem[]>([]);
     const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
     const [isDeleting, setIsDeleting] = useState(false);
     const [isLoadingFile, setIsLoadingFile] = useState(false);
+    const [showConvertModal, setShowConvertModal] = useState(false);
+    // Tabs waiting for a save/discard decision before they close
+    const [pendingClose, setPendingClose] = useState<string[] | null>(null);
+    // Saves stopped because the file changed on disk, resolved one at a time
+    const [conflicts, setConflicts] = useState<SaveConflict[]>([]);
 
     // Derived
-    const isMarkdown = currentFilePath ? isMarkdownFile(currentFilePath) : true;
+    const currentFilePath = activeTab?.path ?? null;
+    const fileContent = activeTab?.content ?? '';
+    const hasUnsavedChanges = !!activeTab && isTabDirty(activeTab);
+    // Images and binaries open in a viewer instead of the text editor
+    const fileView = activeTab?.view;
+    const encoding = activeTab?.encoding ?? DEFAULT_ENCODING;
+    const isMarkdown = !fileView && (currentFilePath ? isMarkdownFile(currentFilePath) : true);
     const language = currentFilePath ? getLanguageFromPath(currentFilePath) : 'markdown';
     const currentFileName = currentFilePath ? currentFilePath.split(/[/\\]/).pop() : 'SKILL.md';
+    const isEntryFile = !!skill && currentFilePath === skill.sourcePath;
+    // Standalone entries (.mdc, commands) share their folder with other skills, so it stays read-only
+    const ownsFolder = !!skill && isFolderEntryFile(basenameOf(skill.sourcePath), formats);
+    // The file tree hides what the skill's library excludes from scans
+    const library = skill ? libraries?.find(l => isSameOrInside(skill.sourcePath, l.path)) : undefined;
+    const treeIgnore = useMemo(
+        () => library ? getScanConfig(library) : { exclude: [], respectGitignore: false },
+        [library]
+    );
+
+    const codeEditorRef = useRef<CodeEditorHandle>(null);
 
-    // Initialize when skill changes - load SKILL.md by default
+    // Only the skill's entry file is linted; bundled scripts/resources are free-form
+    const diagnostics = useMemo(
+        () => (skill && isEntryFile ? lintSkillFile(fileContent, skill.sourcePath, skill.format, skill.kind) : []),
+        [skill?.sourcePath, skill?.format, skill?.kind, isEntryFile, fileContent]
+    );
+
+    // A newly selected skill opens its SKILL.md in a tab (or re-activates it)
+    // The entry is read from disk like any other file; the store's copy is decoded
+    // lossily by the scanner and only serves the index.
+    useEffect(() => {
+        const selected = useAppStore.getState().skills.find(s => s.id === selectedSkillId);
+        if (!selected) return;
+        const { editorTabs, activeTabPath, setActiveTab } = useAppStore.getState();
+        // Selecting a tab also selects its skill; that must not jump back to the entry file
+        if (editorTabs.some(t => t.path === activeTabPath && t.skillId === selected.id)) return;
+        if (editorTabs.some(t => t.path === selected.sourcePath)) {
+            setActiveTab(selected.sourcePath);
+            return;
+        }
+
+        let cancelled = false;
+        setIsLoadingFile(true);
+        readTab(selected.sourcePath, selected.id).then((tab) => {
+            if (!cancelled) useAppStore.getState().openTab(tab);
+        }).catch((err) => {
+            console.error('Failed to load entry file:', err);
+            if (cancelled) return;
+            setLastError('无法加载文件');
+            setSaveStatus('error');
+        }).finally(() => setIsLoadingFile(false));
+        return () => { cancelled = true; };
+    }, [selectedSkillId]);
+
+    // Reset per-skill UI when the active skill changes
     useEffect(() => {
         if (skill) {
-            setCurrentFilePath(skill.sourcePath);
-            setFileContent(skill.content || '');
-            setOriginalContent(skill.content || '');
-            setHasUnsavedChanges(false);
             setSaveStatus('idle');
             setLastError(null);
             setShowDeleteConfirm(false);
-
-            // Load folder structure
-            getSkillFolderContents(skill.sourcePath).then(setFolderContents);
         }
     }, [skill?.id]);
 
-    // Load file content when selecting a different file
-    const handleSelectFile = useCallback(async (path: string) => {
-        if (path === currentFilePath) return;
+    const selectTab = useCallback((tab: EditorTab) => {
+        useAppStore.getState().setActiveTab(tab.path);
+        if (tab.skillId !== useAppStore.getState().selectedSkillId) setSelectedSkill(tab.skillId);
+        setSaveStatus('idle');
+    }, [setSelectedSkill]);
 
-        // Warn if unsaved changes
-        if (hasUnsavedChanges) {
-            const confirm = window.confirm('当前文件有未保存的修改，确定要切换吗？');
-            if (!confirm) return;
+    // Open a file of the current skill in a tab, reusing the tab if it is already open
+    const handleSelectFile = useCallback(async (path: string) => {
+        const { editorTabs, openTab, setActiveTab } = useAppStore.getState();
+        if (editorTabs.some(t => t.path === path)) {
+            setActiveTab(path);
+            return;
         }
+        if (!skill) return;
 
         setIsLoadingFile(true);
         try {
-            // Use customReadFile which returns string directly and bypasses scope
-            const content = await customReadFile(path);
-            setCurrentFilePath(path);
-            setFileContent(content);
-            setOriginalContent(content);
-            setHasUnsavedChanges(false);
+            openTab(await readTab(path, skill.id));
             setSaveStatus('idle');
         } catch (err) {
             console.error('Failed to load file:', err);
@@ -243,46 +295,103 @@ export function Editor() {
         } finally {
             setIsLoadingFile(false);
         }
-    }, [currentFilePath, hasUnsavedChanges]);
+    }, [skill?.id]);
 
-    const handleContentChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
-        const newValue = e.target.value;
-        setFileContent(newValue);
-        setHasUnsavedChanges(newValue !== originalContent);
+    // Shared by the code editor and the frontmatter form so both stay in sync
+    const applyContent = useCallback((newValue: string) => {
+        if (currentFilePath) useAppStore.getState().updateTabContent(currentFilePath, newValue);
         if (saveStatus !== 'idle') setSaveStatus('idle');
-    }, [originalContent, saveStatus]);
+    }, [currentFilePath, saveStatus]);
+
+    const handleJumpToLine = useCallback((line: number) => {
+        codeEditorRef.current?.jumpToLine(line);
+    }, []);
 
-    const handleSave = async () => {
-        if (!currentFilePath || isSaving) return;
+    // Opened from a search match: load its file, then jump to the line
+    useEffect(() => {
+        if (!skill || !editorTarget || editorTarget.skillId !== skill.id) return;
+        if (!currentFilePath || isLoadingFile) return;
+        if (currentFilePath !== editorTarget.path) {
+            handleSelectFile(editorTarget.path);
+            return;
+        }
+        if (viewMode === 'preview') {
+            setViewMode('split');
+            return;
+        }
+        const frame = requestAnimationFrame(() => handleJumpToLine(editorTarget.line));
+        setEditorTarget(null);
+        return () => cancelAnimationFrame(frame);
+    }, [skill?.id, editorTarget, currentFilePath, isLoadingFile, viewMode, handleJumpToLine]);
+
+    /**
+     * Write one tab to disk; entry files also refresh the skill's metadata
+     * @param auto - Autosaves skip lint-blocked files without reporting them
+     * @param force - Overwrite even if the file changed on disk since it was read
+     * @returns false when lint errors or an external change blocked the save
+     */
+    const saveTab = async (tab: EditorTab, { auto = false, force = false }: SaveOptions): Promise<boolean> => {
+        const tabSkill = useAppStore.getState().skills.find(s => s.id === tab.skillId);
+        const isEntry = !!tabSkill && tab.path === tabSkill.sourcePath;
+
+        if (tabSkill && isEntry && blockSaveOnLintErrors) {
+            const errorCount = countErrors(lintSkillFile(tab.content, tabSkill.sourcePath, tabSkill.format, tabSkill.kind));
+            if (errorCount > 0) {
+                if (auto) return false;
+                setLastError(`${tabSkill.title}：存在 ${errorCount} 个错误，已阻止保存。请先修复问题面板中的错误。`);
+                setSaveStatus('error');
+                return false;
+            }
+        }
+
+        // An agent or another editor rewrote the file since we read it: let the user decide
+        const external = force ? null : await detectExternalChange(tab.path, tab.savedContent, tab.diskModified);
+        if (external) {
+            const conflict: SaveConflict = {
+                path: tab.path,
+                base: tab.savedContent,
+                mine: tab.content,
+                theirs: external.deleted ? '' : external.content,
+                modified: external.deleted ? 0 : external.modified,
+                deleted: external.deleted,
+            };
+            setConflicts(prev => [...prev.filter(c => c.path !== tab.path), conflict]);
+            return false;
+        }
+
+        // Written back in the encoding it was read in, bypassing the fs scope
+        await writeTextFile(tab.path, tab.content, tab.encoding, tab.bom);
+        const stats = await customFileStats(tab.path).catch(() => null);
+        useAppStore.getState().markTabSaved(tab.path, tab.content, stats?.modified);
+
+        // If saving the entry file, rebuild the skill the way a scan would
+        if (tabSkill && isEntry) {
+            const saved = await skillFromContent(tab.path, tab.content, tabSkill.format, tabSkill.kind, Date.now(), tabSkill.id);
+            updateSkill(tabSkill.id, saved);
+
+            if (saved.parseError) {
+                useAppStore.getState().setError(`已保存，但 Frontmatter 解析失败：${saved.parseError}`);
+            }
+        }
+        return true;
+    };
+
+    /**
+     * Save several tabs, reporting the first failure
+     * @returns Whether every tab was saved
+     */
+    const saveTabs = async (tabs: EditorTab[], options: SaveOptions = {}): Promise<boolean> => {
+        if (isSaving || tabs.length === 0) return tabs.length === 0;
 
-        console.log('Attempting to save to:', currentFilePath);
         setIsSaving(true);
         setSaveStatus('idle');
         setLastError(null);
 
+        let allSaved = true;
         try {
-            // Use customWriteFile to bypass scope
-            await customWriteFile(currentFilePath, fileContent);
-            console.log('File written successfully');
-
-            setOriginalContent(fileContent);
-            setHasUnsavedChanges(false);
-            setSaveStatus('success');
-
-            // If saving SKILL.md, also update the skill metadata in store
-            if (skill && currentFilePath === skill.sourcePath) {
-                const { parseSkillMetadata } = await import('../adapters/fs');
-                const { title, description } = parseSkillMetadata(fileContent);
-                updateSkill(skill.id, {
-                    content: fileContent,
-                    title,
-                    description,
-                    lastModified: Date.now()
-                });
-                console.log('Skill metadata updated in store');
+            for (const tab of tabs) {
+                allSaved = (await saveTab(tab, options)) && allSaved;
             }
-
-            setTimeout(() => setSaveStatus('idle'), 3000);
         } catch (err: any) {
             console.error('Save failed details:', err);
             const errMsg = err?.toString() || '保存失败：请检查文件夹权限';
@@ -290,9 +399,80 @@ export function Editor() {
             setSaveStatus('error');
             // Also notify global store
             useAppStore.getState().setError(errMsg);
+            allSaved = false;
         } finally {
             setIsSaving(false);
         }
+
+        if (allSaved) {
+            setSaveStatus('success');
+            setTimeout(() => setSaveStatus('idle'), 3000);
+        }
+        return allSaved;
+    };
+
+    const handleSave = () => activeTab ? saveTabs([activeTab]) : Promise.resolve(false);
+    // Read from the store so a save right after typing picks up the latest buffers
+    const handleSaveAll = () => saveTabs(useAppStore.getState().editorTabs.filter(isTabDirty));
+    // Skips files waiting on a conflict decision and unresolved merges
+    const handleAutosave = () => saveTabs(
+        useAppStore.getState().editorTabs.filter(t => isTabDirty(t)
+            && !conflicts.some(c => c.path === t.path)
+            && !hasConflictMarkers(t.content)),
+        { auto: true }
+    );
+
+    const resolveConflict = async (conflict: SaveConflict, choice: 'mine' | 'theirs' | 'merge') => {
+        setConflicts(prev => prev.filter(c => c !== conflict));
+        const { editorTabs, updateTab, setActiveTab } = useAppStore.getState();
+        const tab = editorTabs.find(t => t.path === conflict.path);
+        if (!tab) return;
+
+        if (choice === 'mine') {
+            await saveTabs([tab], { force: true });
+            return;
+        }
+        // Accepting a deletion closes the tab along with its edits
+        if (conflict.deleted) {
+            closeTabs([tab.path]);
+            return;
+        }
+        // Both remaining choices adopt the disk version as the new base
+        const rebased = { savedContent: conflict.theirs, diskModified: conflict.modified };
+        if (choice === 'theirs') {
+            updateTab(tab.path, { ...rebased, content: conflict.theirs });
+            return;
+        }
+
+        const merged = mergeConflict(conflict);
+        updateTab(tab.path, { ...rebased, content: merged.text });
+        if (merged.conflicts === 0) {
+            await saveTabs([{ ...tab, ...rebased, content: merged.text }]);
+            return;
+        }
+        // Leave the markers in the buffer and show the first one
+        setActiveTab(tab.path);
+        setLastError(`合并后有 ${merged.conflicts} 处冲突，请处理冲突标记后再保存`);
+        setSaveStatus('error');
+        const line = merged.text.split('\n').findIndex(l => l.startsWith('<<<<<<< ')) + 1;
+        requestAnimationFrame(() => handleJumpToLine(line));
+    };
+
+    // Closing the last tab leaves the Editor empty; otherwise the next active tab's skill is selected
+    const closeTabs = (paths: string[]) => {
+        const { closeTabs, selectedSkillId } = useAppStore.getState();
+        closeTabs(paths);
+        const { editorTabs, activeTabPath } = useAppStore.getState();
+        const next = editorTabs.find(t => t.path === activeTabPath);
+        if (!next) setSelectedSkill(null);
+        else if (next.skillId !== selectedSkillId) setSelectedSkill(next.skillId);
+    };
+
+    // Dirty tabs ask first; clean ones close right away
+    const requestCloseTabs = (paths: string[]) => {
+        const hasDirty = useAppStore.getState().editorTabs.some(t => paths.includes(t.path) && isTabDirty(t));
+        if (hasDirty) setPendingClose(paths);
+        else closeTabs(paths);
     };
 
     const handleDelete = async () => {
@@ -302,6 +482,7 @@ export function Editor() {
         try {
             const success = await deleteSkill(skill.sourcePath);
             if (success) {
+                closeTabs(useAppStore.getState().editorTabs.filter(t => t.skillId === skill.id).map(t => t.path));
                 removeSkill(skill.id);
                 setSelectedSkill(null);
                 setCurrentView('dashboard');
@@ -318,19 +499,156 @@ export function Editor() {
         }
     };
 
+    const handleExport = async () => {
+        if (!skill) return;
+        const { open } = await import('@tauri-apps/plugin-dialog');
+        const destination = await open({ directory: true, multiple: false, title: '选择导出位置' });
+        if (typeof destination !== 'string') return;
+        const exported = await exportSkill(skill, destination);
+        const { revealItemInDir } = await import('@tauri-apps/plugin-opener');
+        await revealItemInDir(exported);
+    };
+
+    // Commands call the latest handlers without re-registering on every keystroke
+    const handlers = useRef({ handleSave, handleSaveAll, handleAutosave, handleExport, requestCloseTabs });
+    handlers.current = { handleSave, handleSaveAll, handleAutosave, handleExport, requestCloseTabs };
+
+    // Autosave once typing pauses; every edit restarts the wait
+    useEffect(() => {
+        if (!autosave || !editorTabs.some(isTabDirty)) return;
+        const timer = setTimeout(() => handlers.current.handleAutosave(), autosaveDelay);
+        return () => clearTimeout(timer);
+    }, [autosave, autosaveDelay, editorTabs]);
+
+    useRegisterCommands(() => !skill ? [] : [
+        { id: 'editor.save', title: '保存当前文件', group: '编辑器', keywords: ['save'], shortcut: 'Ctrl+S', run: () => { handlers.current.handleSave(); } },
+        { id: 'editor.saveAll', title: '保存全部文件', group: '编辑器', keywords: ['save all'], shortcut: 'Ctrl+Shift+S', run: () => { handlers.current.handleSaveAll(); } },
+        {
+            id: 'editor.closeTab',
+            title: '关闭当前标签页',
+            group: '编辑器',
+            keywords: ['close tab'],
+            run: () => { if (currentFilePath) handlers.current.requestCloseTabs([currentFilePath]); },
+        },
+        {
+            id: 'editor.closeOthers',
+            title: '关闭其他标签页',
+            group: '编辑器',
+            keywords: ['close others', 'tabs'],
+            run: () => handlers.current.requestCloseTabs(
+                useAppStore.getState().editorTabs.filter(t => t.path !== currentFilePath).map(t => t.path)
+            ),
+        },
+        { id: 'editor.delete', title: '删除技能', group: '编辑器', keywords: ['delete', 'remove'], run: () => setShowDeleteConfirm(true) },
+        { id: 'editor.convert', title: '转换格式', group: '编辑器', keywords: ['convert'], run: () => setShowConvertModal(true) },
+        { id: 'editor.export', title: '导出技能', group: '编辑器', keywords: ['export', 'copy'], run: () => handlers.current.handleExport() },
+        {
+            id: 'editor.reveal',
+            title: '在文件管理器中显示',
+            group: '编辑器',
+            keywords: ['open folder', 'reveal', 'finder', 'explorer'],
+            run: async () => {
+                const { revealItemInDir } = await import('@tauri-apps/plugin-opener');
+                await revealItemInDir(currentFilePath ?? skill.sourcePath);
+            },
+        },
+        ...(['edit', 'split', 'preview'] as const).map(mode => ({
+            id: `editor.view.${mode}`,
+            title: `视图：${{ edit: '编辑', split: '分屏', preview: '预览' }[mode]}`,
+            group: '编辑器',
+            keywords: [mode],
+            run: () => setViewMode(mode),
+        })),
+    ], [skill?.id, skill?.sourcePath, currentFilePath]);
+
+    // Ctrl/Cmd+S saves, with Shift saves all tabs
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if ((e.ctrlKey || e.metaKey) && !e.altKey && e.key.toLowerCase() === 's') {
+                e.preventDefault();
+                if (e.shiftKey) handlers.current.handleSaveAll();
+                else handlers.current.handleSave();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    const conflictTab = conflicts.length > 0 ? editorTabs.find(t => t.path === conflicts[0].path) : undefined;
+    const dialogs = (
+        <>
+            {/* Leaving the Editor with unsaved tabs */}
+            {pendingView && (
+                <UnsavedChangesDialog
+                    title="离开编辑器"
+                    tabs={dirtyTabs}
+                    saveLabel="全部保存"
+                    discardLabel="放弃修改"
+                    isSaving={isSaving}
+                    onCancel={() => resolvePendingView(false)}
+                    onDiscard={() => {
+                        useAppStore.getState().revertTabs(dirtyTabs.map(t => t.path));
+                        resolvePendingView(true);
+                    }}
+                    onSave={async () => {
+                        if (await handleSaveAll()) resolvePendingView(true);
+                    }}
+                />
+            )}
+
+            {/* Saving over a file changed on disk */}
+            {conflicts.length > 0 && (
+                <SaveConflictDialog
+                    key={conflicts[0].path}
+                    conflict={conflicts[0]}
+                    fileLabel={conflictTab ? tabLabel(conflictTab, skills) : conflicts[0].path}
+                    onKeepMine={() => resolveConflict(conflicts[0], 'mine')}
+                    onTakeTheirs={() => resolveConflict(conflicts[0], 'theirs')}
+                    onMerge={() => resolveConflict(conflicts[0], 'merge')}
+                    onCancel={() => setConflicts(prev => prev.slice(1))}
+                />
+            )}
+
+            {/* Closing tabs with unsaved changes */}
+            {pendingClose && (
+                <UnsavedChangesDialog
+                    title={pendingClose.length > 1 ? '关闭标签页' : '关闭文件'}
+                    tabs={dirtyTabs.filter(t => pendingClose.includes(t.path))}
+                    saveLabel="保存并关闭"
+                    discardLabel="不保存"
+                    isSaving={isSaving}
+                    onCancel={() => setPendingClose(null)}
+                    onDiscard={() => {
+                        closeTabs(pendingClose);
+                        setPendingClose(null);
+                    }}
+                    onSave={async () => {
+                        if (await saveTabs(dirtyTabs.filter(t => pendingClose.includes(t.path)))) {
+                            closeTabs(pendingClose);
+                            setPendingClose(null);
+                        }
+                    }}
+                />
+            )}
+        </>
+    );
+
     if (!skill) {
         return (
-            <div className="flex-1 flex flex-col items-center justify-center text-muted gap-4">
+            <div className="flex-1 flex flex-col items-center justify-center text-muted gap-4 relative">
                 <div className="p-4 rounded-2xl bg-surface/50 border border-border/50">
                     <FileCode className="w-12 h-12 opacity-20" />
                 </div>
                 <p className="text-sm font-medium">请先选择一个技能进行编辑</p>
+                {dialogs}
             </div>
         );
     }
 
     return (
         <div className="flex flex-col h-full bg-background overflow-hidden relative">
+            {dialogs}
+
             {/* Delete Confirmation Modal */}
             {showDeleteConfirm && (
                 <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
@@ -366,6 +684,11 @@ export function Editor() {
                 </div>
             )}
 
+            {/* Convert Modal */}
+            {showConvertModal && (
+                <ConvertSkillModal skill={skill} onClose={() => setShowConvertModal(false)} />
+            )}
+
             {/* Error Toast */}
             {saveStatus === 'error' && (
                 <div className="absolute top-20 right-6 z-40 animate-in fade-in slide-in-from-right-4">
@@ -399,6 +722,14 @@ export function Editor() {
                         <div className="flex items-center gap-2">
                             <h2 className="font-bold text-foreground text-sm">{skill.title}</h2>
                             <span className="text-muted text-xs">/ {currentFileName}</span>
+                            {!fileView && encoding !== DEFAULT_ENCODING && (
+                                <span
+                                    className="text-[9px] font-black uppercase text-muted bg-surface px-1.5 py-0.5 rounded border border-border/50"
+                                    title={`此文件以 ${encoding} 编码读取，保存时仍使用该编码`}
+                                >
+                                    {encoding}
+                                </span>
+                            )}
                             {hasUnsavedChanges && (
                                 <span className="flex items-center gap-1 text-[9px] font-black uppercase text-amber-400 bg-amber-400/10 px-1.5 py-0.5 rounded border border-amber-400/20">
                                     <span className="w-1 h-1 rounded-full bg-amber-400 animate-pulse" />
@@ -411,7 +742,7 @@ export function Editor() {
 
                 <div className="flex items-center gap-2">
                     {/* View Mode Switcher */}
-                    <div className="flex items-center bg-surface/80 border border-border/50 rounded-lg p-0.5">
+                    <div className={`flex items-center bg-surface/80 border border-border/50 rounded-lg p-0.5 ${fileView ? 'invisible' : ''}`}>
                         {[
                             { id: 'edit', icon: PenTool, label: '编辑' },
                             { id: 'split', icon: Layout, label: '分屏' },
@@ -433,6 +764,14 @@ export function Editor() {
 
                     <div className="w-px h-5 bg-border/30" />
 
+                    <button
+                        onClick={() => setShowConvertModal(true)}
+                        className="p-2 rounded-lg text-muted hover:text-foreground hover:bg-accent/5 transition-colors"
+                        title="转换格式"
+                    >
+                        <ArrowLeftRight size={16} />
+                    </button>
+
                     <button
                         onClick={() => setShowDeleteConfirm(true)}
                         className="p-2 rounded-lg text-red-400 hover:bg-red-500/10 transition-colors"
@@ -474,51 +813,78 @@ export function Editor() {
                             文件结构
                         </h3>
                     </div>
-                    <div className="flex-1 overflow-y-auto p-1.5 custom-scrollbar">
-                        {isLoadingFile && (
-                            <div className="p-4 text-center">
-                                <div className="w-4 h-4 border-2 border-accent border-t-transparent rounded-full animate-spin mx-auto" />
-                            </div>
-                        )}
-                        {folderContents.map((item) => (
-                            <FileTreeItem
-                                key={item.path}
-                                item={item}
-                                selectedPath={currentFilePath}
-                                onSelectFile={handleSelectFile}
-                            />
-                        ))}
-                    </div>
-                </aside>
-
-                {/* Center: Editor/Preview */}
-                <main className="flex-1 flex overflow-hidden">
-                    {/* Editor Pane */}
-                    {(viewMode === 'edit' || viewMode === 'split') && (
-                        <div className={`flex-1 flex flex-col overflow-hidden ${viewMode === 'split' ? 'border-r border-border/20' : ''}`}>
-                            <textarea
-                                className="flex-1 w-full h-full bg-background/30 p-6 resize-none focus:outline-none font-mono text-[13px] leading-relaxed text-foreground selection:bg-accent/40 custom-scrollbar"
-                                value={fileContent}
-                                onChange={handleContentChange}
-                                placeholder="// 开始编辑..."
-                                spellCheck="false"
-                            />
+                    {isLoadingFile && (
+                        <div className="p-4 text-center">
+                            <div className="w-4 h-4 border-2 border-accent border-t-transparent rounded-full animate-spin mx-auto" />
                         </div>
                     )}
+                    <FileTree
+                        key={skill.sourcePath}
+                        rootPath={dirnameOf(skill.sourcePath)}
+                        entryPath={skill.sourcePath}
+                        libraryRoot={library?.path ?? dirnameOf(skill.sourcePath)}
+                        ignore={treeIgnore}
+                        selectedPath={currentFilePath}
+                        editable={ownsFolder}
+                        onSelectFile={handleSelectFile}
+                        onMoved={(from, to) => useAppStore.getState().renameTabs(from, to)}
+                        onDeleted={(path) => closeTabs(useAppStore.getState().editorTabs
+                            .filter(t => isSameOrInside(t.path, path))
+                            .map(t => t.path))}
+                    />
+                </aside>
 
-                    {/* Preview Pane */}
-                    {(viewMode === 'preview' || viewMode === 'split') && (
-                        <div className="flex-1 overflow-y-auto bg-surface/5 custom-scrollbar">
-                            {isMarkdown ? (
-                                <div className="max-w-4xl mx-auto p-10">
-                                    <MarkdownPreview content={fileContent} />
-                                </div>
-                            ) : (
-                                <CodePreview content={fileContent} language={language} />
-                            )}
-                        </div>
-                    )}
-                </main>
+                {/* Center: Tabs + Editor/Preview */}
+                <div className="flex-1 flex flex-col overflow-hidden">
+                    <EditorTabs
+                        tabs={editorTabs}
+                        activePath={currentFilePath}
+                        onSelect={selectTab}
+                        onClose={requestCloseTabs}
+                        onCloseOthers={() => requestCloseTabs(editorTabs.filter(t => t.path !== currentFilePath).map(t => t.path))}
+                        onSaveAll={handleSaveAll}
+                    />
+                    <main className="flex-1 flex overflow-hidden">
+                        {currentFilePath && fileView === 'image' && (
+                            <ImageViewer path={currentFilePath} mimeType={imageMimeType(currentFilePath) ?? 'image/png'} />
+                        )}
+                        {currentFilePath && fileView === 'binary' && (
+                            <BinaryView path={currentFilePath} typeLabel={binaryTypeLabel(currentFilePath)} />
+                        )}
+
+                        {/* Editor Pane */}
+                        {!fileView && (viewMode === 'edit' || viewMode === 'split') && (
+                            <div className={`flex-1 flex flex-col overflow-hidden ${viewMode === 'split' ? 'border-r border-border/20' : ''}`}>
+                                <CodeEditor
+                                    ref={codeEditorRef}
+                                    value={fileContent}
+                                    path={currentFilePath}
+                                    openPaths={openPaths}
+                                    language={language}
+                                    isDark={isDark}
+                                    onChange={applyContent}
+                                    placeholder="// 开始编辑..."
+                                />
+                                {isEntryFile && (
+                                    <DiagnosticsPanel diagnostics={diagnostics} onJumpToLine={handleJumpToLine} />
+                                )}
+                            </div>
+                        )}
+
+                        {/* Preview Pane */}
+                        {!fileView && (viewMode === 'preview' || viewMode === 'split') && (
+                            <div className="flex-1 overflow-y-auto bg-surface/5 custom-scrollbar">
+                                {isMarkdown ? (
+                                    <div className="max-w-4xl mx-auto p-10">
+                                        <MarkdownPreview content={fileContent} />
+                                    </div>
+                                ) : (
+                                    <CodePreview content={fileContent} language={language} />
+                                )}
+                            </div>
+                        )}
+                    </main>
+                </div>
 
                 {/* Right Sidebar: Metadata */}
                 <aside className="w-64 bg-surface/30 border-l border-border/30 p-5 flex flex-col gap-6 hidden xl:flex overflow-y-auto">
@@ -528,18 +894,34 @@ export function Editor() {
                         </header>
                         <div className="bg-background/50 p-3 rounded-lg border border-border/50">
                             <div className="text-xs font-medium text-foreground mb-1">{currentFileName}</div>
-                            <div className="text-[10px] text-muted uppercase">{language}</div>
+                            <div className="text-[10px] text-muted uppercase">
+                                {fileView === 'image' ? '图片' : fileView === 'binary' ? '二进制' : `${language} · ${encoding}${activeTab?.bom ? ' BOM' : ''}`}
+                            </div>
                         </div>
                     </section>
 
+                    {isMarkdown && (
+                        <section className="space-y-3">
+                            <header className="text-[10px] font-black text-foreground/40 uppercase tracking-wider">
+                                元数据
+                            </header>
+                            <FrontmatterForm
+                                content={fileContent}
+                                format={skill.format}
+                                onChange={applyContent}
+                            />
+                        </section>
+                    )}
+
                     <section className="space-y-3">
                         <header className="text-[10px] font-black text-foreground/40 uppercase tracking-wider">
                             技能格式
                         </header>
-                        <div className={`inline-flex items-center px-2 py-1 rounded text-[10px] font-bold uppercase ${skill.format === 'antigravity' ? 'bg-purple-500/20 text-purple-400' :
-                            skill.format === 'cursor' ? 'bg-blue-500/20 text-blue-400' : 'bg-orange-500/20 text-orange-400'
-                            }`}>
-                            {skill.format}
+                        <div
+                            className="inline-flex items-center px-2 py-1 rounded text-[10px] font-bold uppercase"
+                            style={formatBadgeStyle(resolveFormat(skill.format, formats).color)}
+                        >
+                            {resolveFormat(skill.format, formats).label}
                         </div>
                     </section>
 
@@ -550,7 +932,7 @@ export function Editor() {
                                 提示
                             </h4>
                             <p className="text-[10px] text-foreground/50 leading-relaxed">
-                                点击左侧文件树可切换编辑不同文件。支持 Java、Python、SQL、JSON 等多种语法高亮。
+                                点击左侧文件树在标签页中打开文件，右键可新建、重命名或移动文件，也可以把文件拖入 scripts、examples、resources。中键点击标签页可关闭。支持 Java、Python、SQL、JSON 等多种语法高亮。
                             </p>
                         </div>
                     </div>
@@ -1,33 +1,11 @@
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { FolderPlus, Trash2, RefreshCw, Info, Edit2, X, Check, Plus, Keyboard, Type } from 'lucide-react';
-import { useAppStore } from '../store/appStore';
-import type { SkillLibrary, SkillFormat } from '../types';
-import { PRESET_FORMATS } from '../types/skill';
-
-// Dynamic color generator for custom formats
-function getFormatColor(format: string): { bg: string; text: string; bgButton: string } {
-    const presetColors: Record<string, { bg: string; text: string; bgButton: string }> = {
-        antigravity: { bg: 'bg-purple-500', text: 'text-purple-400', bgButton: 'bg-purple-500' },
-        cursor: { bg: 'bg-blue-500', text: 'text-blue-400', bgButton: 'bg-blue-500' },
-        claude: { bg: 'bg-orange-500', text: 'text-orange-400', bgButton: 'bg-orange-500' },
-    };
-
-    if (presetColors[format]) return presetColors[format];
-
-    // Generate a consistent color based on string hash for custom formats
-    let hash = 0;
-    for (let i = 0; i < format.length; i++) {
-        hash = format.charCodeAt(i) + ((hash << 5) - hash);
-    }
-    const hue = Math.abs(hash % 360);
-    // Return a teal/green/cyan color for custom formats
-    return {
-        bg: `bg-[hsl(${hue},60%,50%)]`,
-        text: `text-[hsl(${hue},70%,60%)]`,
-        bgButton: `bg-[hsl(${hue},60%,50%)]`
-    };
-}
+import { FolderPlus, Trash2, RefreshCw, Info, Edit2, X, Check, Plus, Keyboard, Type, SlidersHorizontal } from 'lucide-react';
+import { useAppStore, DEFAULT_AUTOSAVE_DELAY } from '../store/appStore';
+import type { LibraryScanConfig, SkillLibrary, SkillFormat } from '../types';
+import { createCustomFormat, detectFormatFromPath, resolveFormat, useFormats, withAlpha, type FormatDefinition } from '../formats';
+import { FormatEditorModal, LibraryScanSettings } from './settings';
+import { getScanConfig } from '../hooks/useSkillScanner';
 
 /**
  * Settings - Configuration panel with custom format support
@@ -47,10 +25,38 @@ export function Settings() {
     const [customFormat, setCustomFormat] = useState('');
     const [showCustomInput, setShowCustomInput] = useState(false);
     const [isManualInput, setIsManualInput] = useState(false);
+    // undefined: closed, null: creating a new format
+    const [editingFormat, setEditingFormat] = useState<FormatDefinition | null | undefined>(undefined);
 
-    // Get all unique formats from existing libraries for suggestions
+    // Registered formats plus labels libraries still use without a definition
+    const formats = useFormats();
+    const customFormats = preferences.customFormats || [];
     const existingFormats = Array.from(new Set(libraries.map(lib => lib.format)));
-    const allFormats = Array.from(new Set([...PRESET_FORMATS, ...existingFormats]));
+    const allFormats = [
+        ...formats,
+        ...existingFormats.filter(id => !formats.some(f => f.id === id)).map(id => resolveFormat(id, formats)),
+    ];
+
+    // Quick custom labels get a default definition so they show up in the format list
+    const ensureFormat = (id: string) => {
+        if (!formats.some(f => f.id === id)) {
+            setPreferences({ customFormats: [...customFormats, createCustomFormat(id)] });
+        }
+    };
+
+    const handleSaveFormat = (definition: FormatDefinition) => {
+        const exists = customFormats.some(f => f.id === definition.id);
+        setPreferences({
+            customFormats: exists
+                ? customFormats.map(f => f.id === definition.id ? definition : f)
+                : [...customFormats, definition],
+        });
+        setEditingFormat(undefined);
+    };
+
+    const handleRemoveFormat = (id: string) => {
+        setPreferences({ customFormats: customFormats.filter(f => f.id !== id) });
+    };
 
     const handleSelectFolder = async () => {
         try {
@@ -66,15 +72,8 @@ export function Settings() {
                 setNewLibPath(selected);
                 setNewLibName(folderName);
 
-                // Auto-detect format from folder name
-                const lowerName = folderName.toLowerCase();
-                if (lowerName.includes('cursor')) {
-                    setNewLibFormat('cursor');
-                } else if (lowerName.includes('claude')) {
-                    setNewLibFormat('claude');
-                } else {
-                    setNewLibFormat('antigravity');
-                }
+                // Auto-detect format from the folder path
+                setNewLibFormat(detectFormatFromPath(selected, formats) ?? 'antigravity');
 
                 setIsManualInput(false);
                 setShowAddModal(true);
@@ -100,17 +99,17 @@ export function Settings() {
             setNewLibName(folderName);
         }
         // Auto-detect format
-        const lowerName = folderName.toLowerCase();
-        if (lowerName.includes('cursor')) {
-            setNewLibFormat('cursor');
-        } else if (lowerName.includes('claude')) {
-            setNewLibFormat('claude');
+        const detected = detectFormatFromPath(path, formats);
+        if (detected) {
+            setNewLibFormat(detected);
         }
     };
 
     const handleAddCustomFormat = () => {
         if (customFormat.trim()) {
-            setNewLibFormat(customFormat.trim().toLowerCase());
+            const id = customFormat.trim().toLowerCase();
+            ensureFormat(id);
+            setNewLibFormat(id);
             setCustomFormat('');
             setShowCustomInput(false);
         }
@@ -141,6 +140,13 @@ export function Settings() {
         setPreferences({ libraries: updatedLibraries });
     };
 
+    // Changing libraries triggers a full rescan in App
+    const handleUpdateLibraryScan = (libId: string, scan: LibraryScanConfig) => {
+        setPreferences({
+            libraries: libraries.map(lib => lib.id === libId ? { ...lib, scan } : lib),
+        });
+    };
+
     return (
         <div className="flex-1 flex flex-col overflow-hidden">
             {/* Header */}
@@ -193,12 +199,67 @@ export function Settings() {
                                     allFormats={allFormats}
                                     onRemove={() => removeLibrary(lib.id)}
                                     onUpdateFormat={(format) => handleUpdateLibraryFormat(lib.id, format)}
+                                    onAddCustomFormat={ensureFormat}
+                                    onUpdateScan={(scan) => handleUpdateLibraryScan(lib.id, scan)}
                                 />
                             ))}
                         </div>
                     )}
                 </section>
 
+                {/* Formats section */}
+                <section className="mb-8">
+                    <div className="flex items-center justify-between mb-4">
+                        <h2 className="text-lg font-semibold text-foreground">格式定义</h2>
+                        <motion.button
+                            onClick={() => setEditingFormat(null)}
+                            className="flex items-center gap-2 px-4 py-2 bg-accent/10 hover:bg-accent/20 text-accent rounded-lg transition-colors"
+                            whileHover={{ scale: 1.02 }}
+                            whileTap={{ scale: 0.98 }}
+                        >
+                            <Plus className="w-4 h-4" />
+                            新建格式
+                        </motion.button>
+                    </div>
+                    <div className="space-y-3">
+                        {formats.map((format) => (
+                            <div key={format.id} className="glass-card p-4 flex items-center gap-4 group">
+                                <div className="w-2 h-10 rounded-full" style={{ backgroundColor: format.color }} />
+                                <div className="flex-1 min-w-0">
+                                    <h3 className="font-medium text-foreground flex items-center gap-2">
+                                        {format.label}
+                                        <span className="text-[10px] font-mono text-muted">{format.id}</span>
+                                        {format.builtin && (
+                                            <span className="text-[10px] px-1.5 py-0.5 rounded bg-white/5 text-muted">内置</span>
+                                        )}
+                                    </h3>
+                                    <p className="text-xs text-muted truncate font-mono">
+                                        {format.entries.map(e => e.parentDir ? `${e.parentDir}/${e.file}` : e.file).join(', ')}
+                                    </p>
+                                </div>
+                                {!format.builtin && (
+                                    <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                                        <button
+                                            onClick={() => setEditingFormat(format)}
+                                            className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                                            title="编辑"
+                                        >
+                                            <Edit2 className="w-4 h-4 text-muted" />
+                                        </button>
+                                        <button
+                                            onClick={() => handleRemoveFormat(format.id)}
+                                            className="p-2 hover:bg-red-500/20 rounded-lg transition-colors"
+                                            title="删除"
+                                        >
+                                            <Trash2 className="w-4 h-4 text-red-400" />
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </section>
+
                 {/* Theme section */}
                 <section className="mb-8">
                     <h2 className="text-lg font-semibold text-foreground mb-4">主题</h2>
@@ -225,6 +286,52 @@ export function Settings() {
                     </div>
                 </section>
 
+                {/* Editor section */}
+                <section className="mb-8">
+                    <h2 className="text-lg font-semibold text-foreground mb-4">编辑器</h2>
+                    <div className="glass-card p-4">
+                        <label className="flex items-center justify-between gap-4 cursor-pointer">
+                            <div>
+                                <div className="text-sm font-medium text-foreground">存在错误时阻止保存</div>
+                                <div className="text-xs text-muted mt-0.5">技能文件未通过格式校验（如 name 不合规、globs 无效）时禁止写入磁盘</div>
+                            </div>
+                            <input
+                                type="checkbox"
+                                checked={!!preferences.blockSaveOnLintErrors}
+                                onChange={(e) => setPreferences({ blockSaveOnLintErrors: e.target.checked })}
+                                className="w-4 h-4 accent-accent"
+                            />
+                        </label>
+                        <div className="h-px bg-border/30 my-4" />
+                        <label className="flex items-center justify-between gap-4 cursor-pointer">
+                            <div>
+                                <div className="text-sm font-medium text-foreground">自动保存</div>
+                                <div className="text-xs text-muted mt-0.5">停止输入一段时间后自动保存所有打开的文件；未保存的修改始终会另存为草稿，意外退出后可恢复</div>
+                            </div>
+                            <input
+                                type="checkbox"
+                                checked={!!preferences.autosave}
+                                onChange={(e) => setPreferences({ autosave: e.target.checked })}
+                                className="w-4 h-4 accent-accent"
+                            />
+                        </label>
+                        {preferences.autosave && (
+                            <div className="flex items-center justify-between gap-4 mt-3">
+                                <div className="text-xs text-muted">停止输入后等待</div>
+                                <select
+                                    value={preferences.autosaveDelay ?? DEFAULT_AUTOSAVE_DELAY}
+                                    onChange={(e) => setPreferences({ autosaveDelay: Number(e.target.value) })}
+                                    className="px-2.5 py-1.5 bg-background/50 border border-border/50 rounded-lg text-xs text-foreground focus:outline-none focus:border-accent/50"
+                                >
+                                    {[1000, 2000, 5000, 10000, 30000].map(ms => (
+                                        <option key={ms} value={ms}>{ms / 1000} 秒</option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+                    </div>
+                </section>
+
                 {/* About section */}
                 <section>
                     <h2 className="text-lg font-semibold text-foreground mb-4">关于</h2>
@@ -245,6 +352,18 @@ export function Settings() {
                 </section>
             </div>
 
+            {/* Format Editor Modal */}
+            <AnimatePresence>
+                {editingFormat !== undefined && (
+                    <FormatEditorModal
+                        initial={editingFormat ?? undefined}
+                        takenIds={formats.map(f => f.id)}
+                        onSave={handleSaveFormat}
+                        onClose={() => setEditingFormat(undefined)}
+                    />
+                )}
+            </AnimatePresence>
+
             {/* Add Library Modal */}
             <AnimatePresence>
                 {showAddModal && (
@@ -317,18 +436,18 @@ export function Settings() {
                                     {/* Preset formats */}
                                     <div className="flex flex-wrap gap-2 mb-2">
                                         {allFormats.map((format) => {
-                                            const colors = getFormatColor(format);
-                                            const isSelected = newLibFormat === format;
+                                            const isSelected = newLibFormat === format.id;
                                             return (
                                                 <button
-                                                    key={format}
-                                                    onClick={() => setNewLibFormat(format)}
-                                                    className={`px-3 py-2 rounded-lg text-sm font-medium capitalize transition-all ${isSelected
-                                                        ? `${colors.bgButton} text-white`
+                                                    key={format.id}
+                                                    onClick={() => setNewLibFormat(format.id)}
+                                                    className={`px-3 py-2 rounded-lg text-sm font-medium transition-all ${isSelected
+                                                        ? 'text-white'
                                                         : 'bg-surface/50 text-muted hover:text-foreground border border-border/50'
                                                         }`}
+                                                    style={isSelected ? { backgroundColor: format.color } : undefined}
                                                 >
-                                                    {format}
+                                                    {format.label}
                                                 </button>
                                             );
                                         })}
@@ -378,7 +497,7 @@ export function Settings() {
 
                                     {/* Current selection display */}
                                     <div className="mt-3 text-xs text-muted">
-                                        当前选择: <span className="text-foreground font-medium">{newLibFormat}</span>
+                                        当前选择: <span className="text-foreground font-medium">{resolveFormat(newLibFormat, formats).label}</span>
                                     </div>
                                 </div>
                             </div>
@@ -408,28 +527,35 @@ export function Settings() {
 }
 
 /**
- * Library item row with editable format
+ * Library item row with editable format and scan settings
  */
 function LibraryItem({
     library,
     allFormats,
     onRemove,
     onUpdateFormat,
+    onAddCustomFormat,
+    onUpdateScan,
 }: {
     library: SkillLibrary;
-    allFormats: string[];
+    allFormats: FormatDefinition[];
     onRemove: () => void;
     onUpdateFormat: (format: SkillFormat) => void;
+    onAddCustomFormat: (id: string) => void;
+    onUpdateScan: (scan: LibraryScanConfig) => void;
 }) {
     const [isEditingFormat, setIsEditingFormat] = useState(false);
+    const [showScanSettings, setShowScanSettings] = useState(false);
     const [customInput, setCustomInput] = useState('');
     const [showCustom, setShowCustom] = useState(false);
 
-    const colors = getFormatColor(library.format);
+    const definition = allFormats.find(f => f.id === library.format) ?? resolveFormat(library.format, allFormats);
 
     const handleCustomSubmit = () => {
         if (customInput.trim()) {
-            onUpdateFormat(customInput.trim().toLowerCase() as SkillFormat);
+            const id = customInput.trim().toLowerCase();
+            onAddCustomFormat(id);
+            onUpdateFormat(id as SkillFormat);
             setCustomInput('');
             setShowCustom(false);
             setIsEditingFormat(false);
@@ -438,101 +564,124 @@ function LibraryItem({
 
     return (
         <motion.div
-            className="glass-card p-4 flex items-center gap-4 group"
+            className="glass-card p-4 group"
             initial={{ opacity: 0, x: -20 }}
             animate={{ opacity: 1, x: 0 }}
         >
-            <div className={`w-2 h-10 rounded-full ${colors.bg}`} />
-            <div className="flex-1 min-w-0">
-                <h3 className="font-medium text-foreground truncate">{library.name}</h3>
-                <p className="text-sm text-muted truncate">{library.path}</p>
-            </div>
+            <div className="flex items-center gap-4">
+                <div className="w-2 h-10 rounded-full" style={{ backgroundColor: definition.color }} />
+                <div className="flex-1 min-w-0">
+                    <h3 className="font-medium text-foreground truncate">{library.name}</h3>
+                    <p className="text-sm text-muted truncate">{library.path}</p>
+                </div>
+
+                {/* Format Badge - Clickable to edit */}
+                <div className="relative">
+                    {isEditingFormat ? (
+                        <div className="flex flex-col gap-2 absolute right-0 top-0 z-10 bg-surface border border-border/50 rounded-xl p-3 shadow-2xl min-w-[200px]">
+                            <div className="flex flex-wrap gap-1">
+                                {allFormats.map((format) => {
+                                    const isSelected = library.format === format.id;
+                                    return (
+                                        <button
+                                            key={format.id}
+                                            onClick={() => {
+                                                onUpdateFormat(format.id);
+                                                setIsEditingFormat(false);
+                                            }}
+                                            className={`px-2 py-1 text-[11px] rounded font-medium transition-all ${isSelected
+                                                ? 'text-white'
+                                                : 'text-muted hover:text-foreground hover:bg-white/10'
+                                                }`}
+                                            style={isSelected ? { backgroundColor: format.color } : undefined}
+                                        >
+                                            {format.label}
+                                        </button>
+                                    );
+                                })}
+                            </div>
 
-            {/* Format Badge - Clickable to edit */}
-            <div className="relative">
-                {isEditingFormat ? (
-                    <div className="flex flex-col gap-2 absolute right-0 top-0 z-10 bg-surface border border-border/50 rounded-xl p-3 shadow-2xl min-w-[200px]">
-                        <div className="flex flex-wrap gap-1">
-                            {allFormats.map((format) => {
-                                const fColors = getFormatColor(format);
-                                return (
-                                    <button
-                                        key={format}
-                                        onClick={() => {
-                                            onUpdateFormat(format as SkillFormat);
-                                            setIsEditingFormat(false);
-                                        }}
-                                        className={`px-2 py-1 text-[11px] rounded font-medium capitalize transition-all ${library.format === format
-                                            ? fColors.bgButton + ' text-white'
-                                            : 'text-muted hover:text-foreground hover:bg-white/10'
-                                            }`}
-                                    >
-                                        {format}
+                            {showCustom ? (
+                                <div className="flex gap-1">
+                                    <input
+                                        type="text"
+                                        placeholder="自定义..."
+                                        value={customInput}
+                                        onChange={(e) => setCustomInput(e.target.value)}
+                                        onKeyDown={(e) => e.key === 'Enter' && handleCustomSubmit()}
+                                        className="flex-1 px-2 py-1 bg-background border border-border/50 rounded text-xs text-foreground"
+                                        autoFocus
+                                    />
+                                    <button onClick={handleCustomSubmit} className="p-1 bg-accent rounded">
+                                        <Check size={12} className="text-white" />
                                     </button>
-                                );
-                            })}
-                        </div>
-
-                        {showCustom ? (
-                            <div className="flex gap-1">
-                                <input
-                                    type="text"
-                                    placeholder="自定义..."
-                                    value={customInput}
-                                    onChange={(e) => setCustomInput(e.target.value)}
-                                    onKeyDown={(e) => e.key === 'Enter' && handleCustomSubmit()}
-                                    className="flex-1 px-2 py-1 bg-background border border-border/50 rounded text-xs text-foreground"
-                                    autoFocus
-                                />
-                                <button onClick={handleCustomSubmit} className="p-1 bg-accent rounded">
-                                    <Check size={12} className="text-white" />
+                                </div>
+                            ) : (
+                                <button
+                                    onClick={() => setShowCustom(true)}
+                                    className="text-[10px] text-muted hover:text-accent flex items-center gap-1"
+                                >
+                                    <Plus size={10} /> 添加自定义
                                 </button>
-                            </div>
-                        ) : (
+                            )}
+
                             <button
-                                onClick={() => setShowCustom(true)}
-                                className="text-[10px] text-muted hover:text-accent flex items-center gap-1"
+                                onClick={() => {
+                                    setIsEditingFormat(false);
+                                    setShowCustom(false);
+                                }}
+                                className="absolute -top-2 -right-2 p-1 bg-surface border border-border/50 rounded-full hover:bg-white/10"
                             >
-                                <Plus size={10} /> 添加自定义
+                                <X size={10} className="text-muted" />
                             </button>
-                        )}
-
+                        </div>
+                    ) : (
                         <button
-                            onClick={() => {
-                                setIsEditingFormat(false);
-                                setShowCustom(false);
-                            }}
-                            className="absolute -top-2 -right-2 p-1 bg-surface border border-border/50 rounded-full hover:bg-white/10"
+                            onClick={() => setIsEditingFormat(true)}
+                            className="px-2 py-1 text-xs rounded-full flex items-center gap-1.5 hover:bg-white/10 transition-colors"
+                            style={{ color: definition.color, backgroundColor: withAlpha(definition.color, 0.1) }}
                         >
-                            <X size={10} className="text-muted" />
+                            {definition.label}
+                            <Edit2 size={10} className="opacity-0 group-hover:opacity-100" />
                         </button>
-                    </div>
-                ) : (
+                    )}
+                </div>
+
+                <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
                     <button
-                        onClick={() => setIsEditingFormat(true)}
-                        className={`px-2 py-1 text-xs rounded-full bg-white/5 ${colors.text} capitalize flex items-center gap-1.5 hover:bg-white/10 transition-colors`}
+                        onClick={() => setShowScanSettings(!showScanSettings)}
+                        className={`p-2 hover:bg-white/10 rounded-lg transition-colors ${showScanSettings ? 'bg-white/10' : ''}`}
+                        title="扫描设置"
                     >
-                        {library.format}
-                        <Edit2 size={10} className="opacity-0 group-hover:opacity-100" />
+                        <SlidersHorizontal className="w-4 h-4 text-muted" />
                     </button>
-                )}
+                    <button
+                        className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                        title="刷新"
+                    >
+                        <RefreshCw className="w-4 h-4 text-muted" />
+                    </button>
+                    <button
+                        onClick={onRemove}
+                        className="p-2 hover:bg-red-500/20 rounded-lg transition-colors"
+                        title="删除"
+                    >
+                        <Trash2 className="w-4 h-4 text-red-400" />
+                    </button>
+                </div>
             </div>
 
-            <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                <button
-                    className="p-2 hover:bg-white/10 rounded-lg transition-colors"
-                    title="刷新"
-                >
-                    <RefreshCw className="w-4 h-4 text-muted" />
-                </button>
-                <button
-                    onClick={onRemove}
-                    className="p-2 hover:bg-red-500/20 rounded-lg transition-colors"
-                    title="删除"
-                >
-                    <Trash2 className="w-4 h-4 text-red-400" />
-                </button>
-            </div>
+            <AnimatePresence>
+                {showScanSettings && (
+                    <LibraryScanSettings
+                        config={getScanConfig(library)}
+                        onSave={(scan) => {
+                            onUpdateScan(scan);
+                            setShowScanSettings(false);
+                        }}
+                    />
+                )}
+            </AnimatePresence>
         </motion.div>
     );
 }
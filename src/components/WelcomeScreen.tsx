@@ -3,6 +3,7 @@ import { motion } from 'framer-motion';
 import { Sparkles, FolderOpen, ChevronRight, Zap } from 'lucide-react';
 import { useAppStore } from '../store/appStore';
 import type { SkillLibrary, SkillFormat } from '../types';
+import { detectFormatFromPath, useFormats } from '../formats';
 
 /**
  * WelcomeScreen - First-time setup wizard
@@ -14,6 +15,7 @@ export function WelcomeScreen() {
 
     const addLibrary = useAppStore((s) => s.addLibrary);
     const completeOnboarding = useAppStore((s) => s.completeOnboarding);
+    const formats = useFormats();
 
     const handleAddLibrary = async () => {
         if (!libraryPath || !libraryName) return;
@@ -45,6 +47,7 @@ export function WelcomeScreen() {
                 // Auto-fill name from folder
                 const folderName = selected.split(/[/\\]/).pop() || 'My Skills';
                 setLibraryName(folderName);
+                setLibraryFormat(detectFormatFromPath(selected, formats) ?? 'antigravity');
             }
         } catch (e) {
             console.error('Failed to open folder dialog:', e);
@@ -120,16 +123,16 @@ export function WelcomeScreen() {
                                 />
 
                                 <div className="flex gap-2">
-                                    {(['antigravity', 'cursor', 'claude'] as SkillFormat[]).map((format) => (
+                                    {formats.map((format) => (
                                         <button
-                                            key={format}
-                                            onClick={() => setLibraryFormat(format)}
-                                            className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium capitalize transition-colors ${libraryFormat === format
+                                            key={format.id}
+                                            onClick={() => setLibraryFormat(format.id)}
+                                            className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${libraryFormat === format.id
                                                 ? 'bg-accent text-white'
                                                 : 'bg-surface/50 text-muted hover:text-foreground'
                                                 }`}
                                         >
-                                            {format}
+                                            {format.label}
                                         </button>
                                     ))}
                                 </div>
@@ -160,18 +163,12 @@ export function WelcomeScreen() {
 
                 {/* Feature hints */}
                 <div className="flex justify-center gap-8 mt-8 text-sm text-muted">
-                    <div className="flex items-center gap-2">
-                        <div className="w-2 h-2 rounded-full bg-purple-400" />
-                        Antigravity
-                    </div>
-                    <div className="flex items-center gap-2">
-                        <div className="w-2 h-2 rounded-full bg-blue-400" />
-                        Cursor
-                    </div>
-                    <div className="flex items-center gap-2">
-                        <div className="w-2 h-2 rounded-full bg-orange-400" />
-                        Claude
-                    </div>
+                    {formats.filter(f => f.id !== 'generic').map((format) => (
+                        <div key={format.id} className="flex items-center gap-2">
+                            <div className="w-2 h-2 rounded-full" style={{ backgroundColor: format.color }} />
+                            {format.label}
+                        </div>
+                    ))}
                 </div>
             </motion.div>
         </div>
@@ -0,0 +1,109 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ExternalLink, FileQuestion, FolderOpen } from 'lucide-react';
+import { customFileStats, openLibraryFile, readFileBytes } from '../../adapters/fs';
+import { useAppStore } from '../../store/appStore';
+import { formatBytes } from '../../utils/format';
+
+// Only the start of a file is dumped; enough to recognize a format by its header
+const HEX_LIMIT = 16 * 1024;
+const BYTES_PER_ROW = 16;
+
+function hexRows(bytes: Uint8Array): string[] {
+    const rows: string[] = [];
+    for (let offset = 0; offset < bytes.length; offset += BYTES_PER_ROW) {
+        const chunk = Array.from(bytes.subarray(offset, offset + BYTES_PER_ROW));
+        const hex = chunk.map(b => b.toString(16).padStart(2, '0')).join(' ').padEnd(BYTES_PER_ROW * 3 - 1);
+        const ascii = chunk.map(b => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.')).join('');
+        rows.push(`${offset.toString(16).padStart(8, '0')}  ${hex}  ${ascii}`);
+    }
+    return rows;
+}
+
+function InfoRow({ label, children }: { label: string; children: React.ReactNode }) {
+    return (
+        <div className="flex gap-3 text-xs">
+            <span className="w-16 shrink-0 text-muted">{label}</span>
+            <span className="text-foreground/80 break-all">{children}</span>
+        </div>
+    );
+}
+
+/**
+ * BinaryView - File info and a hex dump of the first bytes, for files that aren't text
+ * @param typeLabel - What the extension says the file is, if it is a known binary type
+ */
+export function BinaryView({ path, typeLabel }: { path: string; typeLabel: string | null }) {
+    const [stats, setStats] = useState<{ modified: number; size: number } | null>(null);
+    const [bytes, setBytes] = useState<Uint8Array | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        setBytes(null);
+        setError(null);
+        Promise.all([customFileStats(path), readFileBytes(path, HEX_LIMIT)]).then(([fileStats, head]) => {
+            if (cancelled) return;
+            setStats(fileStats);
+            setBytes(head);
+        }).catch((err) => {
+            console.error('Failed to read binary file:', err);
+            if (!cancelled) setError(String(err));
+        });
+        return () => { cancelled = true; };
+    }, [path]);
+
+    const rows = useMemo(() => (bytes ? hexRows(bytes) : []), [bytes]);
+
+    const openExternally = () => openLibraryFile(path).catch((err) => {
+        console.error('Failed to open file:', err);
+        useAppStore.getState().setError(`无法打开文件：${err}`);
+    });
+    const reveal = async () => {
+        const { revealItemInDir } = await import('@tauri-apps/plugin-opener');
+        await revealItemInDir(path);
+    };
+
+    return (
+        <div className="flex-1 flex flex-col overflow-hidden">
+            <div className="p-4 border-b border-border/20 flex items-start gap-4">
+                <FileQuestion size={28} className="text-muted shrink-0 mt-1" />
+                <div className="flex-1 min-w-0 space-y-1">
+                    <InfoRow label="类型">{typeLabel ?? '二进制文件'}（无法作为文本编辑）</InfoRow>
+                    {stats && <InfoRow label="大小">{formatBytes(stats.size)}（{stats.size.toLocaleString()} 字节）</InfoRow>}
+                    {stats && <InfoRow label="修改时间">{new Date(stats.modified).toLocaleString()}</InfoRow>}
+                    <InfoRow label="路径">{path}</InfoRow>
+                </div>
+                <div className="flex flex-col gap-2 shrink-0">
+                    <button
+                        onClick={openExternally}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-border/50 text-xs text-foreground/80 hover:bg-accent/10 hover:text-foreground transition-colors"
+                    >
+                        <ExternalLink size={12} />
+                        用默认应用打开
+                    </button>
+                    <button
+                        onClick={reveal}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-border/50 text-xs text-foreground/80 hover:bg-accent/10 hover:text-foreground transition-colors"
+                    >
+                        <FolderOpen size={12} />
+                        在文件管理器中显示
+                    </button>
+                </div>
+            </div>
+            <div className="flex-1 overflow-auto custom-scrollbar p-4">
+                {error ? (
+                    <p className="text-sm text-red-400">无法读取文件：{error}</p>
+                ) : (
+                    <>
+                        <pre className="text-[11px] leading-relaxed font-mono text-foreground/70 whitespace-pre">
+                            {rows.join('\n')}
+                        </pre>
+                        {stats && stats.size > HEX_LIMIT && (
+                            <p className="text-[10px] text-muted italic mt-2">仅显示前 {formatBytes(HEX_LIMIT)}</p>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
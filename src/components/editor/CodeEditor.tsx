@@ -0,0 +1,225 @@
+import { useEffect, useImperativeHandle, useRef, type Ref } from 'react';
+import { Compartment, EditorSelection, EditorState, type Extension } from '@codemirror/state';
+import {
+    EditorView,
+    crosshairCursor,
+    drawSelection,
+    dropCursor,
+    highlightActiveLine,
+    highlightActiveLineGutter,
+    highlightSpecialChars,
+    keymap,
+    lineNumbers,
+    placeholder as placeholderText,
+    rectangularSelection,
+} from '@codemirror/view';
+import { defaultKeymap, history, historyKeymap, indentWithTab } from '@codemirror/commands';
+import { gotoLine, highlightSelectionMatches, search, searchKeymap } from '@codemirror/search';
+import {
+    bracketMatching,
+    defaultHighlightStyle,
+    foldGutter,
+    foldKeymap,
+    indentOnInput,
+    syntaxHighlighting,
+} from '@codemirror/language';
+import { closeBrackets, closeBracketsKeymap } from '@codemirror/autocomplete';
+import { oneDarkHighlightStyle } from '@codemirror/theme-one-dark';
+import { languageExtension } from './languages';
+
+export interface CodeEditorHandle {
+    /** Select a 1-based line and scroll it into view */
+    jumpToLine: (line: number) => void;
+    focus: () => void;
+}
+
+// Colors come from the app's CSS variables so both themes follow index.css
+const baseTheme = EditorView.theme({
+    '&': {
+        height: '100%',
+        fontSize: '13px',
+        backgroundColor: 'transparent',
+        color: 'var(--color-foreground)',
+    },
+    '&.cm-focused': { outline: 'none' },
+    '.cm-scroller': {
+        fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace',
+        lineHeight: '1.6',
+    },
+    '.cm-content': { padding: '16px 0', caretColor: 'var(--color-accent)' },
+    '.cm-cursor, .cm-dropCursor': { borderLeftColor: 'var(--color-accent)' },
+    '&.cm-focused .cm-selectionBackground, .cm-selectionBackground, .cm-content ::selection': {
+        backgroundColor: 'color-mix(in srgb, var(--color-accent) 30%, transparent) !important',
+    },
+    '.cm-gutters': {
+        backgroundColor: 'transparent',
+        color: 'var(--color-muted)',
+        border: 'none',
+    },
+    '.cm-activeLine': { backgroundColor: 'color-mix(in srgb, var(--color-accent) 6%, transparent)' },
+    '.cm-activeLineGutter': { backgroundColor: 'transparent', color: 'var(--color-foreground)' },
+    '.cm-selectionMatch': { backgroundColor: 'color-mix(in srgb, var(--color-accent) 15%, transparent)' },
+    '.cm-matchingBracket': { outline: '1px solid color-mix(in srgb, var(--color-accent) 60%, transparent)' },
+    '.cm-searchMatch': { backgroundColor: 'color-mix(in srgb, #f59e0b 30%, transparent)' },
+    '.cm-searchMatch.cm-searchMatch-selected': { backgroundColor: 'color-mix(in srgb, #f59e0b 55%, transparent)' },
+    '.cm-panels': {
+        backgroundColor: 'var(--color-surface)',
+        color: 'var(--color-foreground)',
+    },
+    '.cm-panels-top': { borderBottom: '1px solid var(--color-border)' },
+    '.cm-panels-bottom': { borderTop: '1px solid var(--color-border)' },
+    '.cm-panel input, .cm-panel button, .cm-textfield': {
+        fontSize: '12px',
+        color: 'var(--color-foreground)',
+        backgroundColor: 'var(--color-background)',
+        border: '1px solid var(--color-border)',
+        borderRadius: '6px',
+    },
+    '.cm-button': { backgroundImage: 'none' },
+});
+
+function themeExtension(isDark: boolean): Extension {
+    return [
+        syntaxHighlighting(isDark ? oneDarkHighlightStyle : defaultHighlightStyle, { fallback: true }),
+        EditorView.darkTheme.of(isDark),
+    ];
+}
+
+/**
+ * CodeEditor - CodeMirror 6 editor with line numbers, syntax highlighting,
+ * find/replace (Ctrl/Cmd+F), go-to-line (Ctrl+G) and multiple cursors (Alt+click, Alt+drag)
+ * @param path - Identifies the open file; each path keeps its own undo history
+ * @param openPaths - Files whose state is worth keeping; others are dropped from the cache
+ */
+export function CodeEditor({
+    value,
+    path,
+    openPaths,
+    language,
+    isDark,
+    onChange,
+    placeholder = '',
+    ref,
+}: {
+    value: string;
+    path: string | null;
+    openPaths: string[];
+    language: string;
+    isDark: boolean;
+    onChange: (value: string) => void;
+    placeholder?: string;
+    ref?: Ref<CodeEditorHandle>;
+}) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const viewRef = useRef<EditorView | null>(null);
+    const onChangeRef = useRef(onChange);
+    onChangeRef.current = onChange;
+
+    const languageCompartment = useRef(new Compartment());
+    const themeCompartment = useRef(new Compartment());
+
+    const createState = (doc: string) => EditorState.create({
+        doc,
+        extensions: [
+            lineNumbers(),
+            highlightActiveLineGutter(),
+            highlightSpecialChars(),
+            history(),
+            foldGutter(),
+            drawSelection(),
+            dropCursor(),
+            EditorState.allowMultipleSelections.of(true),
+            // Keep CRLF files CRLF; by default the document is read back with \n
+            EditorState.lineSeparator.of(doc.includes('\r\n') ? '\r\n' : '\n'),
+            indentOnInput(),
+            bracketMatching(),
+            closeBrackets(),
+            rectangularSelection(),
+            crosshairCursor(),
+            highlightActiveLine(),
+            highlightSelectionMatches(),
+            search({ top: true }),
+            EditorView.lineWrapping,
+            placeholderText(placeholder),
+            keymap.of([
+                { key: 'Mod-g', run: gotoLine, preventDefault: true },
+                ...closeBracketsKeymap,
+                ...defaultKeymap,
+                ...searchKeymap,
+                ...historyKeymap,
+                ...foldKeymap,
+                indentWithTab,
+            ]),
+            baseTheme,
+            languageCompartment.current.of(languageExtension(language)),
+            themeCompartment.current.of(themeExtension(isDark)),
+            EditorView.updateListener.of((update) => {
+                if (update.docChanged) onChangeRef.current(update.state.doc.toString());
+            }),
+        ],
+    });
+
+    useEffect(() => {
+        const view = new EditorView({ state: createState(value), parent: containerRef.current! });
+        viewRef.current = view;
+        return () => {
+            view.destroy();
+            viewRef.current = null;
+        };
+    }, []);
+
+    // Each file keeps its own state (and undo history) while switching between tabs
+    const pathRef = useRef(path);
+    const statesByPath = useRef(new Map<string | null, EditorState>());
+    useEffect(() => {
+        const view = viewRef.current;
+        if (!view || pathRef.current === path) return;
+        statesByPath.current.set(pathRef.current, view.state);
+        pathRef.current = path;
+        const cached = statesByPath.current.get(path);
+        view.setState(cached && cached.doc.toString() === value ? cached : createState(value));
+        view.dispatch({ effects: themeCompartment.current.reconfigure(themeExtension(isDark)) });
+    }, [path]);
+
+    // Closed or renamed tabs take their document and undo history with them
+    useEffect(() => {
+        const open = new Set(openPaths);
+        for (const cachedPath of statesByPath.current.keys()) {
+            if (cachedPath !== null && !open.has(cachedPath)) statesByPath.current.delete(cachedPath);
+        }
+    }, [openPaths]);
+
+    // Edits from outside the editor, e.g. the frontmatter form
+    useEffect(() => {
+        const view = viewRef.current;
+        if (!view) return;
+        const current = view.state.doc.toString();
+        if (current !== value) {
+            view.dispatch({ changes: { from: 0, to: current.length, insert: value } });
+        }
+    }, [value]);
+
+    useEffect(() => {
+        viewRef.current?.dispatch({ effects: languageCompartment.current.reconfigure(languageExtension(language)) });
+    }, [language]);
+
+    useEffect(() => {
+        viewRef.current?.dispatch({ effects: themeCompartment.current.reconfigure(themeExtension(isDark)) });
+    }, [isDark]);
+
+    useImperativeHandle(ref, () => ({
+        jumpToLine: (line: number) => {
+            const view = viewRef.current;
+            if (!view) return;
+            const target = view.state.doc.line(Math.min(Math.max(line, 1), view.state.doc.lines));
+            view.dispatch({
+                selection: EditorSelection.range(target.from, target.to),
+                effects: EditorView.scrollIntoView(target.from, { y: 'center' }),
+            });
+            view.focus();
+        },
+        focus: () => viewRef.current?.focus(),
+    }), []);
+
+    return <div ref={containerRef} className="flex-1 min-h-0 overflow-hidden bg-background/30" />;
+}
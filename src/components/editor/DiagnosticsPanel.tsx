@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle2, ChevronDown, ChevronUp } from 'lucide-react';
+import type { LintDiagnostic } from '../../lint';
+
+/**
+ * DiagnosticsPanel - Collapsible list of lint results under the editor
+ */
+export function DiagnosticsPanel({
+    diagnostics,
+    onJumpToLine,
+}: {
+    diagnostics: LintDiagnostic[];
+    onJumpToLine: (line: number) => void;
+}) {
+    const [isOpen, setIsOpen] = useState(true);
+    const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+    const warningCount = diagnostics.length - errorCount;
+
+    return (
+        <div className="border-t border-border/30 bg-surface/30 flex flex-col max-h-48">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="flex items-center gap-3 px-4 py-2 text-[10px] font-black uppercase tracking-wider text-foreground/50 hover:text-foreground transition-colors"
+            >
+                问题
+                {diagnostics.length === 0 ? (
+                    <span className="flex items-center gap-1 text-emerald-400 normal-case font-medium">
+                        <CheckCircle2 size={12} />
+                        无问题
+                    </span>
+                ) : (
+                    <>
+                        <span className="flex items-center gap-1 text-red-400 normal-case font-medium">
+                            <AlertCircle size={12} />
+                            {errorCount}
+                        </span>
+                        <span className="flex items-center gap-1 text-amber-400 normal-case font-medium">
+                            <AlertTriangle size={12} />
+                            {warningCount}
+                        </span>
+                    </>
+                )}
+                <span className="ml-auto">
+                    {isOpen ? <ChevronDown size={12} /> : <ChevronUp size={12} />}
+                </span>
+            </button>
+
+            {isOpen && diagnostics.length > 0 && (
+                <ul className="overflow-y-auto custom-scrollbar pb-2">
+                    {diagnostics.map((d, i) => (
+                        <li key={`${d.ruleId}-${i}`}>
+                            <button
+                                onClick={() => d.line && onJumpToLine(d.line)}
+                                className="w-full flex items-center gap-2 px-4 py-1 text-left text-xs hover:bg-accent/5 transition-colors"
+                            >
+                                {d.severity === 'error' ? (
+                                    <AlertCircle size={12} className="text-red-400 flex-shrink-0" />
+                                ) : (
+                                    <AlertTriangle size={12} className="text-amber-400 flex-shrink-0" />
+                                )}
+                                <span className="text-foreground/80 flex-1 truncate">{d.message}</span>
+                                <span className="text-[10px] text-muted font-mono">{d.ruleId}</span>
+                                {d.line && <span className="text-[10px] text-muted font-mono w-10 text-right">L{d.line}</span>}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,27 @@
+import { useMemo } from 'react';
+import { diffLines } from '../../utils/diff';
+
+/**
+ * DiffView - Unified line diff between two versions of a file
+ */
+export function DiffView({ oldText, newText }: { oldText: string; newText: string }) {
+    const lines = useMemo(() => diffLines(oldText, newText), [oldText, newText]);
+
+    return (
+        <pre className="text-[11px] leading-relaxed font-mono overflow-auto custom-scrollbar">
+            {lines.map((line, i) => (
+                <div
+                    key={i}
+                    className={`flex ${line.type === 'add' ? 'bg-emerald-500/10 text-emerald-400' :
+                        line.type === 'remove' ? 'bg-red-500/10 text-red-400' : 'text-foreground/60'
+                        }`}
+                >
+                    <span className="select-none w-8 text-right pr-2 text-muted/40">{line.oldLine ?? ''}</span>
+                    <span className="select-none w-8 text-right pr-2 text-muted/40">{line.newLine ?? ''}</span>
+                    <span className="select-none w-4">{line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '}</span>
+                    <span className="whitespace-pre-wrap break-all flex-1">{line.text}</span>
+                </div>
+            ))}
+        </pre>
+    );
+}
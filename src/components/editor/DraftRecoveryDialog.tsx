@@ -0,0 +1,181 @@
+import { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { History, File, RotateCcw, Trash2 } from 'lucide-react';
+import { useAppStore } from '../../store/appStore';
+import { loadDrafts, removeDrafts, type Draft } from '../../adapters/drafts';
+import { customFileStats, readTextFile } from '../../adapters/fs';
+import { isFolderEntryFile } from '../../formats';
+import type { Skill } from '../../types';
+import { basenameOf, dirnameOf, isSameOrInside } from '../../utils/path';
+
+/**
+ * Drafts written after their file last changed on disk; older ones are deleted
+ * A draft whose file is gone is still offered, restoring it recreates the file on save.
+ */
+async function findRecoverableDrafts(): Promise<Draft[]> {
+    const recoverable: Draft[] = [];
+    const stale: string[] = [];
+    for (const draft of await loadDrafts()) {
+        const stats = await customFileStats(draft.path).catch(() => null);
+        if (!stats || draft.savedAt > stats.modified) recoverable.push(draft);
+        else stale.push(draft.path);
+    }
+    if (stale.length > 0) removeDrafts(stale);
+    return recoverable.sort((a, b) => b.savedAt - a.savedAt);
+}
+
+/**
+ * The skill a draft belongs to: by id, else by path, since ids of skills that were
+ * re-created or re-indexed may have changed
+ */
+function findOwner(draft: Draft, skills: Skill[]): Skill | undefined {
+    return skills.find(s => s.id === draft.skillId)
+        ?? skills.find(s => s.sourcePath === draft.path)
+        ?? skills.find(s => isFolderEntryFile(basenameOf(s.sourcePath)) && isSameOrInside(draft.path, dirnameOf(s.sourcePath)));
+}
+
+/**
+ * DraftRecoveryDialog - Offers unsaved edits left over from the last session on launch
+ * It waits for the first scan to end (or for there to be nothing to scan), so drafts
+ * can be matched to their skill; drafts are offered even if no skills loaded.
+ */
+export function DraftRecoveryDialog() {
+    const skills = useAppStore((s) => s.skills);
+    const hasLibraries = useAppStore((s) => (s.preferences.libraries?.length ?? 0) > 0);
+    const scanFinished = useAppStore((s) => s.scanFinishedAt !== null);
+    const ready = scanFinished || !hasLibraries;
+    const [drafts, setDrafts] = useState<Draft[]>([]);
+    // Drafts whose skill couldn't be found; they stay listed and on disk
+    const [orphaned, setOrphaned] = useState<string[]>([]);
+    const [isOpen, setIsOpen] = useState(false);
+    const checked = useRef(false);
+
+    useEffect(() => {
+        if (!ready || checked.current) return;
+        checked.current = true;
+        findRecoverableDrafts().then((found) => {
+            if (found.length === 0) return;
+            setDrafts(found);
+            setIsOpen(true);
+        });
+    }, [ready]);
+
+    const dismiss = (paths: string[]) => {
+        const remaining = drafts.filter(d => !paths.includes(d.path));
+        setDrafts(remaining);
+        if (remaining.length === 0) setIsOpen(false);
+    };
+
+    const findSkill = (draft: Draft) => findOwner(draft, skills);
+
+    // Restored drafts open as unsaved tabs; from then on useDrafts keeps them on disk
+    const restore = async (toRestore: Draft[]) => {
+        const { openTab, updateTabContent, setSelectedSkill, setCurrentView, setError } = useAppStore.getState();
+        let lastSkillId: string | null = null;
+        const restored: string[] = [];
+        const missing: string[] = [];
+        for (const draft of toRestore) {
+            const skill = findSkill(draft);
+            if (!skill) {
+                missing.push(draft.path);
+                continue;
+            }
+            // Keep the file's encoding so the restored edits are saved back in it
+            const read = await readTextFile(draft.path).catch(() => null);
+            const onDisk = read?.kind === 'text' ? read : null;
+            openTab({
+                path: draft.path,
+                skillId: skill.id,
+                content: onDisk?.content ?? '',
+                savedContent: onDisk?.content ?? '',
+                encoding: onDisk?.encoding,
+                bom: onDisk?.bom,
+            });
+            updateTabContent(draft.path, draft.content);
+            lastSkillId = skill.id;
+            restored.push(draft.path);
+        }
+        if (missing.length > 0) {
+            setOrphaned(prev => [...new Set([...prev, ...missing])]);
+            setError(`无法恢复 ${missing.length} 个草稿：找不到所属的技能，草稿已保留`);
+        }
+        dismiss(restored);
+        if (lastSkillId) {
+            setSelectedSkill(lastSkillId);
+            setCurrentView('editor');
+        }
+    };
+
+    const discard = (toDiscard: Draft[]) => {
+        const paths = toDiscard.map(d => d.path);
+        removeDrafts(paths);
+        dismiss(paths);
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="fixed inset-0 z-[150] flex items-center justify-center bg-black/60 backdrop-blur-sm"
+                >
+                    <div className="bg-surface border border-border/50 rounded-2xl p-6 max-w-lg w-full mx-4 shadow-2xl">
+                        <h3 className="text-lg font-bold text-foreground mb-2 flex items-center gap-2">
+                            <History className="w-5 h-5 text-accent" />
+                            恢复未保存的修改
+                        </h3>
+                        <p className="text-sm text-muted mb-3">上次关闭时以下文件有未保存的修改，且比磁盘上的版本更新：</p>
+                        <ul className="max-h-64 overflow-y-auto mb-5 space-y-1.5 custom-scrollbar">
+                            {drafts.map((draft) => {
+                                const skill = findSkill(draft);
+                                return (
+                                    <li key={draft.path} className="flex items-center gap-3 px-3 py-2 bg-background/50 border border-border/30 rounded-lg text-xs" title={draft.path}>
+                                        <File size={14} className="text-amber-400 shrink-0" />
+                                        <div className="flex-1 min-w-0">
+                                            <div className="text-foreground truncate">{draft.path.split(/[/\\]/).pop()}</div>
+                                            <div className="text-[10px] text-muted truncate">
+                                                {skill?.title ?? '未知技能'} · {new Date(draft.savedAt).toLocaleString()}
+                                            </div>
+                                            {orphaned.includes(draft.path) && (
+                                                <div className="text-[10px] text-red-400 truncate">找不到所属的技能，可稍后再试或丢弃</div>
+                                            )}
+                                        </div>
+                                        <button onClick={() => restore([draft])} className="p-1.5 rounded-lg text-accent hover:bg-accent/10" title="恢复">
+                                            <RotateCcw size={14} />
+                                        </button>
+                                        <button onClick={() => discard([draft])} className="p-1.5 rounded-lg text-muted hover:text-red-400 hover:bg-red-500/10" title="丢弃">
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                        <div className="flex gap-3">
+                            <button
+                                onClick={() => setIsOpen(false)}
+                                className="flex-1 py-2.5 rounded-xl border border-border/50 text-muted hover:text-foreground transition-colors text-sm"
+                                title="保留草稿，下次启动时再询问"
+                            >
+                                稍后
+                            </button>
+                            <button
+                                onClick={() => discard(drafts)}
+                                className="flex-1 py-2.5 rounded-xl border border-red-500/30 text-red-400 hover:bg-red-500/10 transition-colors text-sm"
+                            >
+                                全部丢弃
+                            </button>
+                            <button
+                                onClick={() => restore(drafts)}
+                                className="flex-1 py-2.5 rounded-xl bg-accent hover:bg-accent/90 text-white font-medium transition-colors text-sm"
+                            >
+                                全部恢复
+                            </button>
+                        </div>
+                    </div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+}
@@ -0,0 +1,99 @@
+import { X, Save, Layers } from 'lucide-react';
+import { useAppStore, isTabDirty, type EditorTab } from '../../store/appStore';
+import type { Skill } from '../../types';
+
+/**
+ * Entry files all share a name (SKILL.md), so they are labeled by their skill
+ */
+export function tabLabel(tab: EditorTab, skills: Skill[]): string {
+    const skill = skills.find(s => s.id === tab.skillId);
+    if (skill && skill.sourcePath === tab.path) return skill.title;
+    return tab.path.split(/[/\\]/).pop() || tab.path;
+}
+
+/**
+ * EditorTabs - Open files with unsaved markers, plus save all / close others
+ */
+export function EditorTabs({
+    tabs,
+    activePath,
+    onSelect,
+    onClose,
+    onCloseOthers,
+    onSaveAll,
+}: {
+    tabs: EditorTab[];
+    activePath: string | null;
+    onSelect: (tab: EditorTab) => void;
+    onClose: (paths: string[]) => void;
+    onCloseOthers: () => void;
+    onSaveAll: () => void;
+}) {
+    const skills = useAppStore((s) => s.skills);
+    const dirtyCount = tabs.filter(isTabDirty).length;
+
+    return (
+        <div className="h-9 flex items-stretch border-b border-border/30 bg-surface/20">
+            <div className="flex-1 flex items-stretch overflow-x-auto custom-scrollbar">
+                {tabs.map((tab) => {
+                    const isActive = tab.path === activePath;
+                    const isDirty = isTabDirty(tab);
+                    const skill = skills.find(s => s.id === tab.skillId);
+                    return (
+                        <div
+                            key={tab.path}
+                            onClick={() => onSelect(tab)}
+                            // Middle click closes, like in browsers
+                            onAuxClick={(e) => e.button === 1 && onClose([tab.path])}
+                            title={`${skill?.title ?? ''}\n${tab.path}`}
+                            className={`group flex items-center gap-2 pl-3 pr-1.5 max-w-[200px] border-r border-border/20 cursor-pointer text-xs transition-colors ${isActive
+                                ? 'bg-background/60 text-foreground border-b-2 border-b-accent'
+                                : 'text-muted hover:text-foreground hover:bg-accent/5'
+                                }`}
+                        >
+                            <span className="truncate">{tabLabel(tab, skills)}</span>
+                            <button
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    onClose([tab.path]);
+                                }}
+                                className="w-4 h-4 shrink-0 flex items-center justify-center rounded hover:bg-accent/10"
+                                title="关闭"
+                            >
+                                {isDirty ? (
+                                    <>
+                                        <span className="w-2 h-2 rounded-full bg-amber-400 group-hover:hidden" />
+                                        <X size={12} className="hidden group-hover:block" />
+                                    </>
+                                ) : (
+                                    <X size={12} className={isActive ? '' : 'opacity-0 group-hover:opacity-100'} />
+                                )}
+                            </button>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="flex items-center gap-1 px-2 border-l border-border/20">
+                <button
+                    onClick={onSaveAll}
+                    disabled={dirtyCount === 0}
+                    className="flex items-center gap-1 px-2 py-1 rounded-md text-[11px] text-muted hover:text-foreground hover:bg-accent/5 disabled:opacity-40 disabled:pointer-events-none transition-colors"
+                    title="保存全部 (Ctrl+Shift+S)"
+                >
+                    <Save size={12} />
+                    全部保存{dirtyCount > 0 && `（${dirtyCount}）`}
+                </button>
+                <button
+                    onClick={onCloseOthers}
+                    disabled={tabs.length < 2}
+                    className="flex items-center gap-1 px-2 py-1 rounded-md text-[11px] text-muted hover:text-foreground hover:bg-accent/5 disabled:opacity-40 disabled:pointer-events-none transition-colors"
+                    title="关闭其他标签页"
+                >
+                    <Layers size={12} />
+                    关闭其他
+                </button>
+            </div>
+        </div>
+    );
+}
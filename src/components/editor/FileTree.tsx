@@ -0,0 +1,694 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { listen } from '@tauri-apps/api/event';
+import {
+    File,
+    FolderOpen,
+    ChevronRight,
+    ChevronDown,
+    FilePlus,
+    FolderPlus,
+    Pencil,
+    Copy,
+    FolderInput,
+    Trash2,
+    ExternalLink,
+    Download,
+    AlertTriangle,
+} from 'lucide-react';
+import {
+    createFolderItem,
+    customRemove,
+    customRename,
+    duplicatePath,
+    FS_CHANGE_EVENT,
+    importPaths,
+    LARGE_FILE_SIZE,
+    listSkillFolder,
+    type FsChangeEvent,
+    type SkillFolderItem,
+} from '../../adapters/fs';
+import { useAppStore } from '../../store/appStore';
+import type { LibraryScanConfig } from '../../types';
+import { formatBytes } from '../../utils/format';
+import { dirnameOf, isSameOrInside, joinPath } from '../../utils/path';
+import { binaryTypeLabel, imageMimeType } from './fileKinds';
+
+// Folders dropped OS files can be imported into
+const DROP_FOLDERS = ['scripts', 'examples', 'resources'];
+
+const INVALID_NAME = /[<>:"|?*]/;
+
+// Watcher events arrive in bursts (saves, git checkouts); relist once they settle
+const REFRESH_DELAY = 300;
+
+type Dialog =
+    | { kind: 'create'; dir: string; isDirectory: boolean }
+    | { kind: 'rename'; item: SkillFolderItem }
+    | { kind: 'move'; item: SkillFolderItem }
+    | { kind: 'delete'; item: SkillFolderItem }
+    | { kind: 'large'; item: SkillFolderItem };
+
+/** Listed folders by path; a folder that isn't here hasn't been expanded yet */
+type Listings = Map<string, SkillFolderItem[]>;
+
+/**
+ * Whether a cached folder path sat below `dir` in a subfolder its new listing no longer has
+ */
+function goneFrom(dir: string, items: SkillFolderItem[]): (path: string) => boolean {
+    const folders = items.filter(i => i.isDirectory).map(i => i.path);
+    return (path) => path !== dir && isSameOrInside(path, dir) && !folders.some(f => isSameOrInside(path, f));
+}
+
+function itemTooltip(item: SkillFolderItem): string {
+    const modified = `修改于 ${new Date(item.modified).toLocaleString()}`;
+    if (item.isDirectory) return `${item.name}\n${modified}`;
+    const large = item.size >= LARGE_FILE_SIZE ? ' · 大文件' : '';
+    return `${item.name}\n${formatBytes(item.size)}${large} · ${modified}`;
+}
+
+/**
+ * FileTreeItem - Renders a single item in the skill's file tree
+ * Folders list their children the first time they are expanded.
+ */
+function FileTreeItem({
+    item,
+    depth = 0,
+    listings,
+    expanded,
+    selectedPath,
+    onToggle,
+    onOpenFile,
+    onContextMenu,
+}: {
+    item: SkillFolderItem;
+    depth?: number;
+    listings: Listings;
+    expanded: Set<string>;
+    selectedPath: string | null;
+    onToggle: (path: string) => void;
+    onOpenFile: (item: SkillFolderItem) => void;
+    onContextMenu: (e: React.MouseEvent, item: SkillFolderItem) => void;
+}) {
+    const isOpen = item.isDirectory && expanded.has(item.path);
+    const children = listings.get(item.path);
+    const isSelected = selectedPath === item.path;
+    const isSkillMd = item.name.toUpperCase() === 'SKILL.MD';
+    const isLarge = !item.isDirectory && item.size >= LARGE_FILE_SIZE;
+
+    const handleClick = () => {
+        if (item.isDirectory) {
+            onToggle(item.path);
+        } else {
+            onOpenFile(item);
+        }
+    };
+
+    return (
+        <div>
+            <div
+                className={`flex items-center gap-2 py-1.5 px-2 rounded-lg cursor-pointer transition-all ${isSelected ? 'bg-accent/20 text-accent' :
+                    isSkillMd ? 'text-accent/80 hover:bg-accent/10' :
+                        'hover:bg-accent/5 text-foreground/70 hover:text-foreground'
+                    }`}
+                style={{ paddingLeft: `${depth * 12 + 8}px` }}
+                title={itemTooltip(item)}
+                onClick={handleClick}
+                onContextMenu={(e) => onContextMenu(e, item)}
+            >
+                {item.isDirectory ? (
+                    <>
+                        {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                        <FolderOpen size={14} className="text-amber-400" />
+                    </>
+                ) : (
+                    <>
+                        <span className="w-[14px]" />
+                        <File size={14} className={isSelected || isSkillMd ? 'text-accent' : 'text-muted'} />
+                    </>
+                )}
+                <span className={`text-xs font-medium truncate ${isSkillMd ? 'font-bold' : ''}`}>{item.name}</span>
+                {item.isDirectory ? (
+                    children && children.length > 0 && (
+                        <span className="text-[10px] text-muted ml-auto">{children.length}</span>
+                    )
+                ) : (
+                    <span className={`text-[10px] ml-auto shrink-0 flex items-center gap-1 ${isLarge ? 'text-amber-400' : 'text-muted'}`}>
+                        {isLarge && <AlertTriangle size={10} />}
+                        {formatBytes(item.size)}
+                    </span>
+                )}
+            </div>
+            {isOpen && (
+                <div>
+                    {children?.map((child) => (
+                        <FileTreeItem
+                            key={child.path}
+                            item={child}
+                            depth={depth + 1}
+                            listings={listings}
+                            expanded={expanded}
+                            selectedPath={selectedPath}
+                            onToggle={onToggle}
+                            onOpenFile={onOpenFile}
+                            onContextMenu={onContextMenu}
+                        />
+                    ))}
+                    {(!children || children.length === 0) && (
+                        <div className="text-[10px] text-muted italic py-1" style={{ paddingLeft: `${(depth + 1) * 12 + 24}px` }}>
+                            {children ? '(空)' : '加载中…'}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
+function MenuButton({ icon: Icon, label, danger, onClick }: { icon: React.ElementType; label: string; danger?: boolean; onClick: () => void }) {
+    return (
+        <button
+            onClick={onClick}
+            className={`w-full flex items-center gap-2 px-3 py-1.5 text-xs text-left transition-colors ${danger ? 'text-red-400 hover:bg-red-500/10' : 'text-foreground/80 hover:bg-accent/10 hover:text-foreground'}`}
+        >
+            <Icon size={13} />
+            {label}
+        </button>
+    );
+}
+
+function DialogFrame({ title, children }: { title: string; children: React.ReactNode }) {
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+            <div className="bg-surface border border-border/50 rounded-2xl p-6 max-w-sm w-full mx-4 shadow-2xl">
+                <h3 className="text-base font-bold text-foreground mb-4">{title}</h3>
+                {children}
+            </div>
+        </div>
+    );
+}
+
+function DialogButtons({ confirmLabel, danger, disabled, onConfirm, onCancel }: {
+    confirmLabel: string;
+    danger?: boolean;
+    disabled?: boolean;
+    onConfirm: () => void;
+    onCancel: () => void;
+}) {
+    return (
+        <div className="flex gap-3 mt-5">
+            <button onClick={onCancel} className="flex-1 py-2 rounded-xl border border-border/50 text-muted hover:text-foreground transition-colors text-sm">
+                取消
+            </button>
+            <button
+                onClick={onConfirm}
+                disabled={disabled}
+                className={`flex-1 py-2 rounded-xl text-white font-medium transition-colors text-sm disabled:opacity-50 ${danger ? 'bg-red-500 hover:bg-red-600' : 'bg-accent hover:bg-accent/90'}`}
+            >
+                {confirmLabel}
+            </button>
+        </div>
+    );
+}
+
+/**
+ * Name input for creating and renaming; new items may include subfolders (`scripts/run.py`)
+ */
+function NameDialog({ title, initial, allowSubfolders, onSubmit, onCancel }: {
+    title: string;
+    initial: string;
+    allowSubfolders: boolean;
+    onSubmit: (name: string) => Promise<void>;
+    onCancel: () => void;
+}) {
+    const [name, setName] = useState(initial);
+    const [error, setError] = useState<string | null>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    // Select the stem so typing replaces the name but keeps the extension
+    useEffect(() => {
+        const dot = initial.lastIndexOf('.');
+        inputRef.current?.setSelectionRange(0, dot > 0 ? dot : initial.length);
+    }, [initial]);
+
+    const trimmed = name.trim();
+    const segments = trimmed.split(/[/\\]/);
+    const invalid = INVALID_NAME.test(trimmed) ? '名称包含非法字符'
+        : segments.some(s => s === '.' || s === '..') ? '名称不能包含 . 或 .. 路径'
+            : !allowSubfolders && segments.length > 1 ? '名称不能包含路径分隔符'
+                : null;
+
+    const submit = async () => {
+        if (!trimmed || invalid) return;
+        try {
+            await onSubmit(trimmed);
+        } catch (err: any) {
+            setError(err?.message ?? String(err));
+        }
+    };
+
+    return (
+        <DialogFrame title={title}>
+            <input
+                ref={inputRef}
+                autoFocus
+                type="text"
+                value={name}
+                placeholder={allowSubfolders ? '如 scripts/validate.py' : ''}
+                onChange={(e) => {
+                    setName(e.target.value);
+                    setError(null);
+                }}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter') submit();
+                    if (e.key === 'Escape') onCancel();
+                }}
+                className="w-full px-3 py-2 bg-background/50 border border-border/50 rounded-lg text-sm text-foreground placeholder-muted focus:outline-none focus:border-accent/50 font-mono"
+            />
+            {(invalid || error) && <p className="text-xs text-red-400 mt-2">{invalid ?? error}</p>}
+            <DialogButtons confirmLabel="确定" disabled={!trimmed || !!invalid} onConfirm={submit} onCancel={onCancel} />
+        </DialogFrame>
+    );
+}
+
+// Every folder listed so far; unexpanded ones show up as children of their parent
+function collectFolders(listings: Listings): SkillFolderItem[] {
+    return [...listings.values()]
+        .flatMap(items => items.filter(i => i.isDirectory))
+        .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * FileTree - A skill folder's files with a context menu (create, rename, duplicate,
+ * move, delete) and import of files dragged in from the OS
+ * The entry file itself is protected; the skill is renamed or deleted as a whole elsewhere.
+ * Listed folders are relisted when the library watcher reports changes inside them.
+ * @param libraryRoot - What the ignore globs are relative to
+ * @param ignore - The library's exclude globs and .gitignore setting, applied to the tree too
+ * @param editable - Only folder skills own their folder; standalone entries share it with others
+ */
+export function FileTree({
+    rootPath,
+    entryPath,
+    libraryRoot,
+    ignore,
+    selectedPath,
+    editable,
+    onSelectFile,
+    onMoved,
+    onDeleted,
+}: {
+    rootPath: string;
+    entryPath: string;
+    libraryRoot: string;
+    ignore: Pick<LibraryScanConfig, 'exclude' | 'respectGitignore'>;
+    selectedPath: string | null;
+    editable: boolean;
+    onSelectFile: (path: string) => void;
+    onMoved: (from: string, to: string) => void;
+    onDeleted: (path: string) => void;
+}) {
+    const [listings, setListings] = useState<Listings>(() => new Map());
+    const [expanded, setExpanded] = useState<Set<string>>(() => new Set());
+    const [menu, setMenu] = useState<{ x: number; y: number; item: SkillFolderItem | null } | null>(null);
+    const [dialog, setDialog] = useState<Dialog | null>(null);
+    const [isDragging, setIsDragging] = useState(false);
+    const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+    const listingsRef = useRef(listings);
+    listingsRef.current = listings;
+
+    const reportError = (action: string, err: unknown) => {
+        console.error(`${action} failed:`, err);
+        useAppStore.getState().setError(`${action}失败：${err}`);
+    };
+
+    // A folder that can't be listed any more (deleted, moved) collapses and drops out
+    const loadDir = useCallback(async (dir: string) => {
+        try {
+            const items = await listSkillFolder(libraryRoot, dir, ignore);
+            const isGone = goneFrom(dir, items);
+            setListings(prev => new Map([...prev].filter(([path]) => !isGone(path))).set(dir, items));
+            setExpanded(prev => [...prev].some(isGone) ? new Set([...prev].filter(path => !isGone(path))) : prev);
+        } catch (err) {
+            console.warn(`Failed to list ${dir}:`, err);
+            if (dir === rootPath) {
+                setListings(new Map([[dir, []]]));
+                return;
+            }
+            setListings(prev => new Map([...prev].filter(([path]) => !isSameOrInside(path, dir))));
+            setExpanded(prev => new Set([...prev].filter(path => !isSameOrInside(path, dir))));
+        }
+    }, [libraryRoot, ignore, rootPath]);
+
+    // Relist everything listed so far, e.g. after our own changes or new ignore rules
+    const refresh = useCallback(() => {
+        const loaded = [...listingsRef.current.keys()];
+        (loaded.length > 0 ? loaded : [rootPath]).forEach(loadDir);
+    }, [rootPath, loadDir]);
+
+    useEffect(refresh, [refresh]);
+
+    const toggle = useCallback((path: string) => {
+        const next = new Set(expanded);
+        if (!next.delete(path)) {
+            next.add(path);
+            if (!listingsRef.current.has(path)) loadDir(path);
+        }
+        setExpanded(next);
+    }, [expanded, loadDir]);
+
+    // Reveal files opened from elsewhere (search, tabs) by expanding their folders
+    useEffect(() => {
+        if (!selectedPath || !isSameOrInside(selectedPath, rootPath)) return;
+        const ancestors: string[] = [];
+        for (let dir = dirnameOf(selectedPath); dir.length > rootPath.length; dir = dirnameOf(dir)) ancestors.push(dir);
+        if (ancestors.length === 0) return;
+        ancestors.filter(dir => !listingsRef.current.has(dir)).forEach(loadDir);
+        setExpanded(prev => ancestors.every(dir => prev.has(dir)) ? prev : new Set([...prev, ...ancestors]));
+    }, [selectedPath, rootPath, loadDir]);
+
+    // Changes on disk relist the folders they happened in, if those are listed
+    useEffect(() => {
+        let unlisten: (() => void) | undefined;
+        let cancelled = false;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const pending = new Set<string>();
+
+        listen<FsChangeEvent>(FS_CHANGE_EVENT, ({ payload }) => {
+            if (payload.path === rootPath || !isSameOrInside(payload.path, rootPath)) return;
+            pending.add(dirnameOf(payload.path));
+            clearTimeout(timer);
+            timer = setTimeout(() => {
+                const dirs = [...pending].filter(dir => listingsRef.current.has(dir));
+                pending.clear();
+                dirs.forEach(loadDir);
+            }, REFRESH_DELAY);
+        }).then((fn) => {
+            if (cancelled) fn();
+            else unlisten = fn;
+        }).catch(err => console.warn('Failed to listen for file changes:', err));
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+            unlisten?.();
+        };
+    }, [rootPath, loadDir]);
+
+    const openFile = (item: SkillFolderItem) => {
+        const isOpen = useAppStore.getState().editorTabs.some(t => t.path === item.path);
+        // The viewers only load what they show, so only text is worth a warning
+        const isText = !imageMimeType(item.path) && !binaryTypeLabel(item.path);
+        if (item.size >= LARGE_FILE_SIZE && isText && !isOpen) setDialog({ kind: 'large', item });
+        else onSelectFile(item.path);
+    };
+
+    // Any click elsewhere or Escape closes the menu
+    useEffect(() => {
+        if (!menu) return;
+        const close = () => setMenu(null);
+        const handleKeyDown = (e: KeyboardEvent) => e.key === 'Escape' && close();
+        window.addEventListener('click', close);
+        window.addEventListener('blur', close);
+        window.addEventListener('keydown', handleKeyDown);
+        return () => {
+            window.removeEventListener('click', close);
+            window.removeEventListener('blur', close);
+            window.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [menu]);
+
+    // Files dragged in from the OS; the hovered drop zone decides the target folder
+    const dropTargetRef = useRef<string | null>(null);
+    useEffect(() => {
+        if (!editable) return;
+        let unlisten: (() => void) | undefined;
+        let cancelled = false;
+
+        const zoneAt = ({ x, y }: { x: number; y: number }) => {
+            const scale = window.devicePixelRatio || 1;
+            const zone = document.elementFromPoint(x / scale, y / scale)?.closest<HTMLElement>('[data-drop-folder]');
+            return zone?.dataset.dropFolder ?? null;
+        };
+        const setTarget = (folder: string | null) => {
+            dropTargetRef.current = folder;
+            setDropTarget(folder);
+        };
+
+        import('@tauri-apps/api/webview').then(({ getCurrentWebview }) => getCurrentWebview().onDragDropEvent(async (event) => {
+            const payload = event.payload;
+            if (payload.type === 'enter') {
+                setIsDragging(true);
+                setTarget(zoneAt(payload.position));
+            } else if (payload.type === 'over') {
+                setTarget(zoneAt(payload.position));
+            } else if (payload.type === 'leave') {
+                setIsDragging(false);
+                setTarget(null);
+            } else {
+                const folder = zoneAt(payload.position) ?? dropTargetRef.current;
+                setIsDragging(false);
+                setTarget(null);
+                if (!folder) return;
+                try {
+                    await importPaths(payload.paths, joinPath(rootPath, folder));
+                    refresh();
+                } catch (err) {
+                    reportError('导入文件', err);
+                }
+            }
+        })).then((fn) => {
+            if (cancelled) fn();
+            else unlisten = fn;
+        }).catch(err => console.warn('Failed to listen for file drops:', err));
+
+        return () => {
+            cancelled = true;
+            unlisten?.();
+        };
+    }, [editable, rootPath, refresh]);
+
+    const openMenu = (e: React.MouseEvent, item: SkillFolderItem | null) => {
+        if (!editable) return;
+        e.preventDefault();
+        e.stopPropagation();
+        setMenu({ x: e.clientX, y: e.clientY, item });
+    };
+
+    const run = (action: () => void) => () => {
+        setMenu(null);
+        action();
+    };
+
+    const handleDuplicate = async (item: SkillFolderItem) => {
+        try {
+            await duplicatePath(item.path);
+            refresh();
+        } catch (err) {
+            reportError('创建副本', err);
+        }
+    };
+
+    const handleMove = async (item: SkillFolderItem, folder: string) => {
+        const target = joinPath(folder, item.name);
+        setDialog(null);
+        try {
+            await customRename(item.path, target);
+            onMoved(item.path, target);
+            refresh();
+        } catch (err) {
+            reportError('移动', err);
+        }
+    };
+
+    const handleDelete = async (item: SkillFolderItem) => {
+        setDialog(null);
+        try {
+            await customRemove(item.path, item.isDirectory);
+            onDeleted(item.path);
+            refresh();
+        } catch (err) {
+            reportError('删除', err);
+        }
+    };
+
+    const renderMenu = () => {
+        if (!menu) return null;
+        const { item } = menu;
+        const dir = !item ? rootPath : item.isDirectory ? item.path : dirnameOf(item.path);
+        const isProtected = !!item && item.path === entryPath;
+
+        return (
+            <div
+                className="fixed z-[60] min-w-[160px] py-1 bg-surface border border-border/50 rounded-lg shadow-2xl"
+                style={{ left: menu.x, top: menu.y }}
+                onClick={(e) => e.stopPropagation()}
+                onContextMenu={(e) => e.preventDefault()}
+            >
+                <MenuButton icon={FilePlus} label="新建文件…" onClick={run(() => setDialog({ kind: 'create', dir, isDirectory: false }))} />
+                <MenuButton icon={FolderPlus} label="新建文件夹…" onClick={run(() => setDialog({ kind: 'create', dir, isDirectory: true }))} />
+                {item && !isProtected && (
+                    <>
+                        <div className="h-px bg-border/30 my-1" />
+                        <MenuButton icon={Pencil} label="重命名…" onClick={run(() => setDialog({ kind: 'rename', item }))} />
+                        <MenuButton icon={Copy} label="创建副本" onClick={run(() => handleDuplicate(item))} />
+                        <MenuButton icon={FolderInput} label="移动到…" onClick={run(() => setDialog({ kind: 'move', item }))} />
+                    </>
+                )}
+                {item && (
+                    <MenuButton
+                        icon={ExternalLink}
+                        label="在文件管理器中显示"
+                        onClick={run(async () => {
+                            const { revealItemInDir } = await import('@tauri-apps/plugin-opener');
+                            await revealItemInDir(item.path);
+                        })}
+                    />
+                )}
+                {item && !isProtected && (
+                    <>
+                        <div className="h-px bg-border/30 my-1" />
+                        <MenuButton icon={Trash2} label="删除" danger onClick={run(() => setDialog({ kind: 'delete', item }))} />
+                    </>
+                )}
+            </div>
+        );
+    };
+
+    const renderDialog = () => {
+        if (!dialog) return null;
+        const cancel = () => setDialog(null);
+
+        switch (dialog.kind) {
+            case 'create':
+                return (
+                    <NameDialog
+                        title={dialog.isDirectory ? '新建文件夹' : '新建文件'}
+                        initial=""
+                        allowSubfolders
+                        onCancel={cancel}
+                        onSubmit={async (name) => {
+                            const path = await createFolderItem(dialog.dir, name, dialog.isDirectory);
+                            setDialog(null);
+                            refresh();
+                            if (!dialog.isDirectory) onSelectFile(path);
+                        }}
+                    />
+                );
+            case 'rename':
+                return (
+                    <NameDialog
+                        title={`重命名 ${dialog.item.name}`}
+                        initial={dialog.item.name}
+                        allowSubfolders={false}
+                        onCancel={cancel}
+                        onSubmit={async (name) => {
+                            if (name === dialog.item.name) return cancel();
+                            const target = joinPath(dirnameOf(dialog.item.path), name);
+                            await customRename(dialog.item.path, target);
+                            setDialog(null);
+                            onMoved(dialog.item.path, target);
+                            refresh();
+                        }}
+                    />
+                );
+            case 'move': {
+                const { item } = dialog;
+                const parent = dirnameOf(item.path);
+                const folders = [
+                    { path: rootPath, label: '/' },
+                    ...collectFolders(listings).map(f => ({ path: f.path, label: `/${f.path.slice(rootPath.length + 1).replace(/\\/g, '/')}` })),
+                ].filter(f => f.path !== parent && !isSameOrInside(f.path, item.path));
+                return (
+                    <DialogFrame title={`移动 ${item.name}`}>
+                        {folders.length === 0 ? (
+                            <p className="text-sm text-muted">没有可移动到的文件夹</p>
+                        ) : (
+                            <div className="max-h-64 overflow-y-auto space-y-1 custom-scrollbar">
+                                {folders.map((folder) => (
+                                    <button
+                                        key={folder.path}
+                                        onClick={() => handleMove(item, folder.path)}
+                                        className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-xs font-mono text-foreground/80 hover:bg-accent/10 hover:text-foreground transition-colors"
+                                    >
+                                        <FolderOpen size={13} className="text-amber-400 shrink-0" />
+                                        {folder.label}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        <DialogButtons confirmLabel="关闭" onConfirm={cancel} onCancel={cancel} />
+                    </DialogFrame>
+                );
+            }
+            case 'delete':
+                return (
+                    <DialogFrame title={`删除 ${dialog.item.name}`}>
+                        <p className="text-sm text-muted">
+                            {dialog.item.isDirectory ? '将删除此文件夹及其中的所有文件，' : '将删除此文件，'}
+                            打开的标签页中未保存的修改也会丢失。此操作无法撤销！
+                        </p>
+                        <DialogButtons confirmLabel="确认删除" danger onConfirm={() => handleDelete(dialog.item)} onCancel={cancel} />
+                    </DialogFrame>
+                );
+            case 'large':
+                return (
+                    <DialogFrame title={`打开 ${dialog.item.name}`}>
+                        <p className="text-sm text-muted">
+                            此文件大小为 {formatBytes(dialog.item.size)}，在编辑器中打开可能会很慢。仍要打开吗？
+                        </p>
+                        <DialogButtons
+                            confirmLabel="打开"
+                            onConfirm={() => {
+                                setDialog(null);
+                                onSelectFile(dialog.item.path);
+                            }}
+                            onCancel={cancel}
+                        />
+                    </DialogFrame>
+                );
+        }
+    };
+
+    return (
+        <div className="flex-1 flex flex-col overflow-hidden relative" onContextMenu={(e) => openMenu(e, null)}>
+            <div className="flex-1 overflow-y-auto p-1.5 custom-scrollbar">
+                {listings.get(rootPath)?.map((item) => (
+                    <FileTreeItem
+                        key={item.path}
+                        item={item}
+                        listings={listings}
+                        expanded={expanded}
+                        selectedPath={selectedPath}
+                        onToggle={toggle}
+                        onOpenFile={openFile}
+                        onContextMenu={openMenu}
+                    />
+                ))}
+            </div>
+
+            {/* Drop zones for files dragged in from the OS */}
+            {isDragging && (
+                <div className="absolute inset-0 z-10 flex flex-col gap-2 p-2 bg-background/90 backdrop-blur-sm">
+                    {DROP_FOLDERS.map((folder) => (
+                        <div
+                            key={folder}
+                            data-drop-folder={folder}
+                            className={`flex-1 flex flex-col items-center justify-center gap-1 rounded-xl border-2 border-dashed text-xs transition-colors ${dropTarget === folder
+                                ? 'border-accent bg-accent/10 text-accent'
+                                : 'border-border/50 text-muted'
+                                }`}
+                        >
+                            <Download size={16} />
+                            导入到 {folder}/
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {renderMenu()}
+            {renderDialog()}
+        </div>
+    );
+}
+
@@ -0,0 +1,244 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, X } from 'lucide-react';
+import { parseFrontmatter, updateFrontmatter } from '../../adapters/frontmatter';
+import { useFormat, type FrontmatterField } from '../../formats';
+import type { SkillFormat } from '../../types';
+import { TagEditor } from './TagEditor';
+
+/**
+ * Fields every skill file gets; format-specific ones come from the format definition
+ */
+const COMMON_FIELDS: FrontmatterField[] = [
+    { key: 'name', label: '名称', type: 'text' },
+    { key: 'description', label: '描述', type: 'textarea' },
+    { key: 'tags', label: '标签', type: 'list', placeholder: '逗号分隔，如 sql, db' },
+    { key: 'version', label: '版本', type: 'text', placeholder: '1.0.0' },
+];
+
+function isScalar(value: unknown): value is string | number | boolean {
+    return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+function toListText(value: unknown): string {
+    if (Array.isArray(value)) return value.map(String).join(', ');
+    return value === undefined || value === null ? '' : String(value);
+}
+
+const inputClass = 'w-full px-2.5 py-1.5 bg-background/50 border border-border/50 rounded-lg text-xs text-foreground placeholder-muted focus:outline-none focus:border-accent/50 transition-colors';
+
+/**
+ * ListField - Comma separated input that only commits on blur/Enter,
+ * so partially typed separators are not normalized away mid-edit
+ */
+function ListField({ value, placeholder, onCommit }: { value: unknown; placeholder?: string; onCommit: (items: string[]) => void }) {
+    const text = toListText(value);
+    const [draft, setDraft] = useState(text);
+
+    // Pick up changes made in the raw editor
+    useEffect(() => setDraft(text), [text]);
+
+    const commit = () => {
+        if (draft === text) return;
+        onCommit(draft.split(',').map(s => s.trim()).filter(Boolean));
+    };
+
+    return (
+        <input
+            type="text"
+            value={draft}
+            placeholder={placeholder}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => e.key === 'Enter' && commit()}
+            className={inputClass}
+        />
+    );
+}
+
+/**
+ * ScalarField - Text input for a scalar value
+ * Numbers are edited as text and converted on blur/Enter, so `1.` can be typed on the
+ * way to `1.3`; other values write through on every keystroke.
+ */
+function ScalarField({ value, placeholder, onChange }: { value: unknown; placeholder?: string; onChange: (value: string | number) => void }) {
+    const text = isScalar(value) ? String(value) : '';
+    const isNumber = typeof value === 'number';
+    const [draft, setDraft] = useState(text);
+
+    // Pick up changes made in the raw editor
+    useEffect(() => setDraft(text), [text]);
+
+    const commit = () => {
+        if (!isNumber || draft === text) return;
+        const trimmed = draft.trim();
+        // Stays a number only if it reads back unchanged: `1.10` is kept as text, not 1.1
+        onChange(trimmed !== '' && String(Number(trimmed)) === trimmed ? Number(trimmed) : draft);
+    };
+
+    return (
+        <input
+            type="text"
+            value={isNumber ? draft : text}
+            placeholder={placeholder}
+            onChange={(e) => (isNumber ? setDraft(e.target.value) : onChange(e.target.value))}
+            onBlur={commit}
+            onKeyDown={(e) => e.key === 'Enter' && commit()}
+            className={inputClass}
+        />
+    );
+}
+
+/**
+ * FrontmatterForm - Structured editor for a file's YAML frontmatter
+ * Values are read from and written back to the raw content, so the form and
+ * the textarea always show the same document.
+ */
+export function FrontmatterForm({
+    content,
+    format,
+    onChange,
+}: {
+    content: string;
+    format: SkillFormat;
+    onChange: (content: string) => void;
+}) {
+    const fm = useMemo(() => parseFrontmatter(content), [content]);
+
+    const definition = useFormat(format);
+    const fields = useMemo(() => [
+        ...COMMON_FIELDS,
+        ...definition.fields.filter(f => !COMMON_FIELDS.some(c => c.key === f.key)),
+    ], [definition]);
+    const extraKeys = Object.keys(fm.data).filter(key => !fields.some(f => f.key === key));
+
+    const update = (updates: Record<string, unknown>, keepEmpty = false) => {
+        try {
+            onChange(updateFrontmatter(content, updates, { keepEmpty }));
+        } catch (err) {
+            console.error('Failed to update frontmatter:', err);
+        }
+    };
+
+    // A cleared input keeps its key (`key: ""`), so retyping doesn't move it to the end
+    const setValue = (key: string, value: unknown) => update({ [key]: value }, true);
+    const removeKey = (key: string) => update({ [key]: undefined });
+
+    // Preserve the original representation (YAML list vs comma separated string)
+    const setList = (key: string, items: string[]) => {
+        const original = fm.data[key];
+        update({ [key]: typeof original === 'string' ? items.join(', ') : items });
+    };
+
+    const fieldLabel = (key: string, label: string, className = '') => (
+        <div className="flex items-center justify-between">
+            <label className={`text-[10px] font-medium text-muted ${className}`}>{label}</label>
+            {key in fm.data && (
+                <button
+                    onClick={() => removeKey(key)}
+                    className="p-0.5 text-muted hover:text-red-400 transition-colors"
+                    title="移除此字段"
+                >
+                    <X size={10} />
+                </button>
+            )}
+        </div>
+    );
+
+    if (fm.error) {
+        return (
+            <div className="flex items-start gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-[11px] text-red-400">
+                <AlertCircle size={14} className="flex-shrink-0 mt-0.5" />
+                <div>
+                    <div className="font-bold mb-0.5">Frontmatter 无法解析</div>
+                    <div className="opacity-80 break-words">{fm.error}</div>
+                </div>
+            </div>
+        );
+    }
+
+    const renderField = (field: FrontmatterField) => {
+        const value = fm.data[field.key];
+
+        if (field.key === 'tags') {
+            return <TagEditor value={value} onChange={(items) => setList(field.key, items)} />;
+        }
+
+        switch (field.type) {
+            case 'textarea':
+                return (
+                    <textarea
+                        value={isScalar(value) ? String(value) : ''}
+                        placeholder={field.placeholder}
+                        onChange={(e) => setValue(field.key, e.target.value)}
+                        rows={4}
+                        className={`${inputClass} resize-y`}
+                    />
+                );
+            case 'list':
+                return (
+                    <ListField
+                        value={value}
+                        placeholder={field.placeholder}
+                        onCommit={(items) => setList(field.key, items)}
+                    />
+                );
+            case 'boolean':
+                return (
+                    <label className="flex items-center gap-2 text-xs text-foreground/80 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={value === true}
+                            onChange={(e) => setValue(field.key, e.target.checked)}
+                            className="accent-accent"
+                        />
+                        {value === true ? '是' : '否'}
+                    </label>
+                );
+            default:
+                return (
+                    <ScalarField
+                        value={value}
+                        placeholder={field.placeholder}
+                        onChange={(next) => setValue(field.key, next)}
+                    />
+                );
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            {fields.map((field) => (
+                <div key={field.key} className="space-y-1">
+                    {fieldLabel(field.key, field.label)}
+                    {renderField(field)}
+                </div>
+            ))}
+
+            {extraKeys.map((key) => {
+                const value = fm.data[key];
+                return (
+                    <div key={key} className="space-y-1">
+                        {fieldLabel(key, key, 'font-mono')}
+                        {typeof value === 'boolean' ? (
+                            <label className="flex items-center gap-2 text-xs text-foreground/80 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={value}
+                                    onChange={(e) => setValue(key, e.target.checked)}
+                                    className="accent-accent"
+                                />
+                                {value ? '是' : '否'}
+                            </label>
+                        ) : isScalar(value) ? (
+                            <ScalarField value={value} onChange={(next) => setValue(key, next)} />
+                        ) : (
+                            <div className="px-2.5 py-1.5 bg-background/30 border border-border/30 rounded-lg text-[10px] text-muted font-mono break-all" title="复杂结构请在源码中编辑">
+                                {JSON.stringify(value)}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
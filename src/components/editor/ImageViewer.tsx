@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { Maximize2, Minimize2 } from 'lucide-react';
+import { readFileBytes } from '../../adapters/fs';
+import { formatBytes } from '../../utils/format';
+
+/**
+ * ImageViewer - Shows an image from a skill folder, fitted to the pane or at actual size
+ * The bytes come through the native side, so no asset protocol scope is needed.
+ */
+export function ImageViewer({ path, mimeType }: { path: string; mimeType: string }) {
+    const [url, setUrl] = useState<string | null>(null);
+    const [size, setSize] = useState(0);
+    const [dimensions, setDimensions] = useState<{ width: number; height: number } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [actualSize, setActualSize] = useState(false);
+
+    useEffect(() => {
+        let objectUrl: string | null = null;
+        let cancelled = false;
+        setUrl(null);
+        setDimensions(null);
+        setError(null);
+
+        readFileBytes(path).then((bytes) => {
+            if (cancelled) return;
+            objectUrl = URL.createObjectURL(new Blob([bytes], { type: mimeType }));
+            setSize(bytes.length);
+            setUrl(objectUrl);
+        }).catch((err) => {
+            console.error('Failed to load image:', err);
+            if (!cancelled) setError(String(err));
+        });
+
+        return () => {
+            cancelled = true;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+    }, [path, mimeType]);
+
+    return (
+        <div className="flex-1 flex flex-col overflow-hidden">
+            <div className="flex items-center gap-3 px-4 py-2 border-b border-border/20 text-[11px] text-muted">
+                <span>{mimeType}</span>
+                {dimensions && <span>{dimensions.width} × {dimensions.height}</span>}
+                {url && <span>{formatBytes(size)}</span>}
+                <div className="flex-1" />
+                <button
+                    onClick={() => setActualSize(!actualSize)}
+                    disabled={!url}
+                    className="flex items-center gap-1.5 px-2 py-1 rounded-lg hover:bg-accent/10 hover:text-foreground transition-colors disabled:opacity-50"
+                    title={actualSize ? '缩放以适应窗口' : '按实际大小显示'}
+                >
+                    {actualSize ? <Minimize2 size={12} /> : <Maximize2 size={12} />}
+                    {actualSize ? '适应窗口' : '实际大小'}
+                </button>
+            </div>
+            <div
+                className={`flex-1 overflow-auto custom-scrollbar p-6 flex ${actualSize ? 'items-start justify-start' : 'items-center justify-center'}`}
+                style={{ backgroundImage: 'repeating-conic-gradient(rgb(128 128 128 / 0.12) 0 25%, transparent 0 50%)', backgroundSize: '16px 16px' }}
+            >
+                {error ? (
+                    <p className="text-sm text-red-400">无法显示图片：{error}</p>
+                ) : url ? (
+                    <img
+                        src={url}
+                        alt={path}
+                        onLoad={(e) => setDimensions({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                        onError={() => setError('图片格式无法识别或文件已损坏')}
+                        className={actualSize ? 'max-w-none' : 'max-w-full max-h-full object-contain'}
+                    />
+                ) : (
+                    <div className="w-4 h-4 border-2 border-accent border-t-transparent rounded-full animate-spin" />
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,164 @@
+import { useMemo } from 'react';
+import { AlertTriangle, GitMerge } from 'lucide-react';
+import { mergeLines, type MergeResult } from '../../utils/diff';
+import { DiffView } from './DiffView';
+
+/**
+ * A save that found the file changed on disk since it was read
+ */
+export interface SaveConflict {
+    path: string;
+    /** Content as last read, the common ancestor */
+    base: string;
+    mine: string;
+    theirs: string;
+    /** mtime of `theirs` */
+    modified: number;
+    /** The file is gone from disk; `theirs` is empty */
+    deleted?: boolean;
+}
+
+export const MERGE_LABELS = { mine: '我的修改', theirs: '磁盘版本' };
+
+export function mergeConflict(conflict: SaveConflict): MergeResult {
+    return mergeLines(conflict.base, conflict.mine, conflict.theirs, MERGE_LABELS);
+}
+
+function Column({ title, hint, children }: { title: string; hint: string; children: React.ReactNode }) {
+    return (
+        <div className="flex flex-col min-h-0 min-w-0 bg-background/40 border border-border/30 rounded-xl overflow-hidden">
+            <div className="px-3 py-2 border-b border-border/30">
+                <div className="text-xs font-medium text-foreground">{title}</div>
+                <div className="text-[10px] text-muted">{hint}</div>
+            </div>
+            <div className="flex-1 min-h-0 overflow-auto custom-scrollbar p-2">{children}</div>
+        </div>
+    );
+}
+
+/**
+ * SaveConflictDialog - Three-way view of an external change against unsaved edits
+ * Both sides are diffed against the version that was loaded; the third column
+ * previews their merge.
+ */
+export function SaveConflictDialog({
+    conflict,
+    fileLabel,
+    onKeepMine,
+    onTakeTheirs,
+    onMerge,
+    onCancel,
+}: {
+    conflict: SaveConflict;
+    fileLabel: string;
+    onKeepMine: () => void;
+    onTakeTheirs: () => void;
+    onMerge: () => void;
+    onCancel: () => void;
+}) {
+    const merged = useMemo(() => mergeConflict(conflict), [conflict]);
+
+    if (conflict.deleted) {
+        return (
+            <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+                <div className="bg-surface border border-border/50 rounded-2xl p-6 max-w-md w-full mx-4 shadow-2xl">
+                    <h3 className="text-lg font-bold text-foreground mb-2 flex items-center gap-2">
+                        <AlertTriangle className="w-5 h-5 text-amber-400" />
+                        文件已在外部被删除
+                    </h3>
+                    <p className="text-sm text-muted mb-6">
+                        <strong className="text-foreground">{fileLabel}</strong> 在打开后被其他程序删除或移动。保存会在原位置重新创建它。
+                    </p>
+                    <div className="flex gap-3">
+                        <button
+                            onClick={onCancel}
+                            className="flex-1 py-2.5 rounded-xl border border-border/50 text-muted hover:text-foreground transition-colors text-sm"
+                        >
+                            取消
+                        </button>
+                        <button
+                            onClick={onTakeTheirs}
+                            className="flex-1 py-2.5 rounded-xl border border-red-500/30 text-red-400 hover:bg-red-500/10 transition-colors text-sm"
+                            title="放弃我的修改并关闭标签页"
+                        >
+                            关闭文件
+                        </button>
+                        <button
+                            onClick={onKeepMine}
+                            className="flex-1 py-2.5 rounded-xl bg-accent hover:bg-accent/90 text-white font-medium transition-colors text-sm"
+                        >
+                            重新创建
+                        </button>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+            <div className="bg-surface border border-border/50 rounded-2xl p-6 max-w-6xl w-full h-[80vh] mx-4 shadow-2xl flex flex-col">
+                <h3 className="text-lg font-bold text-foreground mb-1 flex items-center gap-2">
+                    <AlertTriangle className="w-5 h-5 text-amber-400" />
+                    文件已在外部被修改
+                </h3>
+                <p className="text-sm text-muted mb-4">
+                    <strong className="text-foreground">{fileLabel}</strong> 在打开后被其他程序修改过（{new Date(conflict.modified).toLocaleString()}）。直接保存会覆盖这些修改。
+                </p>
+
+                <div className="flex-1 min-h-0 grid grid-cols-3 gap-3 mb-4">
+                    <Column title="我的修改" hint="相对于打开时的版本">
+                        <DiffView oldText={conflict.base} newText={conflict.mine} />
+                    </Column>
+                    <Column title="磁盘上的修改" hint="相对于打开时的版本">
+                        <DiffView oldText={conflict.base} newText={conflict.theirs} />
+                    </Column>
+                    <Column
+                        title="合并结果"
+                        hint={merged.conflicts > 0 ? `${merged.conflicts} 处冲突需要手动处理` : '没有冲突，可以自动合并'}
+                    >
+                        <pre className="text-[11px] leading-relaxed font-mono whitespace-pre-wrap break-all text-foreground/70">
+                            {merged.text.split('\n').map((line, i) => (
+                                <div key={i} className={/^(<{7}|={7}|>{7})( |$)/.test(line) ? 'bg-amber-400/15 text-amber-400' : ''}>
+                                    {line || ' '}
+                                </div>
+                            ))}
+                        </pre>
+                    </Column>
+                </div>
+
+                <div className="flex gap-3">
+                    <button
+                        onClick={onCancel}
+                        className="px-5 py-2.5 rounded-xl border border-border/50 text-muted hover:text-foreground transition-colors text-sm"
+                    >
+                        取消
+                    </button>
+                    <div className="flex-1" />
+                    <button
+                        onClick={onTakeTheirs}
+                        className="px-5 py-2.5 rounded-xl border border-border/50 text-foreground hover:bg-accent/5 transition-colors text-sm"
+                        title="放弃我的修改，载入磁盘上的版本"
+                    >
+                        采用磁盘版本
+                    </button>
+                    <button
+                        onClick={onKeepMine}
+                        className="px-5 py-2.5 rounded-xl border border-red-500/30 text-red-400 hover:bg-red-500/10 transition-colors text-sm"
+                        title="用我的版本覆盖磁盘上的修改"
+                    >
+                        保留我的
+                    </button>
+                    <button
+                        onClick={onMerge}
+                        className="px-5 py-2.5 rounded-xl bg-accent hover:bg-accent/90 text-white font-medium transition-colors text-sm flex items-center gap-2"
+                        title={merged.conflicts > 0 ? '合并后在编辑器中处理冲突标记再保存' : '合并并保存'}
+                    >
+                        <GitMerge size={14} />
+                        {merged.conflicts > 0 ? '合并（含冲突）' : '合并并保存'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { normalizeTags } from '../../adapters/frontmatter';
+import { useTagCounts } from '../../hooks/useTagCounts';
+
+/**
+ * TagEditor - Tag chips with an input suggesting tags used by other skills
+ * Enter or comma adds the typed tag, Backspace on an empty input removes the last one.
+ */
+export function TagEditor({ value, onChange }: { value: unknown; onChange: (tags: string[]) => void }) {
+    const tags = normalizeTags(value);
+    const known = useTagCounts();
+    const [draft, setDraft] = useState('');
+
+    const suggestions = known
+        .map(({ tag }) => tag)
+        .filter(tag => !tags.some(t => t.toLowerCase() === tag.toLowerCase()));
+
+    const add = () => {
+        const typed = normalizeTags(draft);
+        setDraft('');
+        if (typed.length > 0) onChange(normalizeTags([...tags, ...typed]));
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            add();
+        } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+            onChange(tags.slice(0, -1));
+        }
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-1.5 px-2 py-1.5 bg-background/50 border border-border/50 rounded-lg focus-within:border-accent/50 transition-colors">
+            {tags.map((tag) => (
+                <span key={tag} className="flex items-center gap-1 pl-2 pr-1 py-0.5 text-[11px] rounded-full bg-accent/10 text-accent border border-accent/20">
+                    {tag}
+                    <button
+                        onClick={() => onChange(tags.filter(t => t !== tag))}
+                        className="p-0.5 rounded-full hover:bg-accent/20"
+                        title="移除标签"
+                    >
+                        <X className="w-2.5 h-2.5" />
+                    </button>
+                </span>
+            ))}
+            <input
+                type="text"
+                list="editor-tag-options"
+                value={draft}
+                placeholder={tags.length === 0 ? '输入标签后回车，如 sql' : ''}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={handleKeyDown}
+                onBlur={add}
+                className="flex-1 min-w-[80px] bg-transparent text-xs text-foreground placeholder-muted focus:outline-none"
+            />
+            <datalist id="editor-tag-options">
+                {suggestions.map((tag) => <option key={tag} value={tag} />)}
+            </datalist>
+        </div>
+    );
+}
@@ -0,0 +1,77 @@
+import { AlertCircle, File } from 'lucide-react';
+import { useAppStore, type EditorTab } from '../../store/appStore';
+import { tabLabel } from './EditorTabs';
+
+/**
+ * UnsavedChangesDialog - Lists dirty tabs and asks whether to save or discard them
+ */
+export function UnsavedChangesDialog({
+    title,
+    tabs,
+    saveLabel,
+    discardLabel,
+    isSaving,
+    onSave,
+    onDiscard,
+    onCancel,
+}: {
+    title: string;
+    tabs: EditorTab[];
+    saveLabel: string;
+    discardLabel: string;
+    isSaving: boolean;
+    onSave: () => void;
+    onDiscard: () => void;
+    onCancel: () => void;
+}) {
+    const skills = useAppStore((s) => s.skills);
+
+    return (
+        <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+            <div className="bg-surface border border-border/50 rounded-2xl p-6 max-w-md w-full mx-4 shadow-2xl">
+                <h3 className="text-lg font-bold text-foreground mb-2 flex items-center gap-2">
+                    <AlertCircle className="w-5 h-5 text-amber-400" />
+                    {title}
+                </h3>
+                <p className="text-sm text-muted mb-3">以下 {tabs.length} 个文件有未保存的修改：</p>
+                <ul className="max-h-48 overflow-y-auto mb-5 space-y-1 custom-scrollbar">
+                    {tabs.map((tab) => {
+                        const skill = skills.find(s => s.id === tab.skillId);
+                        return (
+                            <li key={tab.path} className="flex items-center gap-2 px-3 py-1.5 bg-background/50 border border-border/30 rounded-lg text-xs" title={tab.path}>
+                                <File size={12} className="text-amber-400 shrink-0" />
+                                <span className="text-foreground truncate">{tabLabel(tab, skills)}</span>
+                                {skill && skill.sourcePath !== tab.path && (
+                                    <span className="text-muted truncate ml-auto">{skill.title}</span>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+                <div className="flex gap-3">
+                    <button
+                        onClick={onCancel}
+                        className="flex-1 py-2.5 rounded-xl border border-border/50 text-muted hover:text-foreground transition-colors text-sm"
+                    >
+                        取消
+                    </button>
+                    <button
+                        onClick={onDiscard}
+                        disabled={isSaving}
+                        className="flex-1 py-2.5 rounded-xl border border-red-500/30 text-red-400 hover:bg-red-500/10 transition-colors text-sm"
+                    >
+                        {discardLabel}
+                    </button>
+                    <button
+                        onClick={onSave}
+                        disabled={isSaving}
+                        className="flex-1 py-2.5 rounded-xl bg-accent hover:bg-accent/90 text-white font-medium transition-colors text-sm flex items-center justify-center gap-2"
+                    >
+                        {isSaving && <div className="w-3 h-3 border-2 border-white/30 border-t-white rounded-full animate-spin" />}
+                        {saveLabel}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,67 @@
+/**
+ * Which viewer a bundled file opens in, by extension
+ * SVG stays text: it is XML worth editing. Unknown extensions are sniffed when read.
+ */
+
+const IMAGE_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    avif: 'image/avif',
+    bmp: 'image/bmp',
+    ico: 'image/x-icon',
+};
+
+// Shown in the binary info view; files sniffed as binary get a generic label
+const BINARY_TYPES: Record<string, string> = {
+    pdf: 'PDF 文档',
+    zip: 'ZIP 压缩包',
+    gz: 'Gzip 压缩包',
+    tgz: 'Gzip 压缩包',
+    tar: 'Tar 归档',
+    '7z': '7-Zip 压缩包',
+    rar: 'RAR 压缩包',
+    doc: 'Word 文档',
+    docx: 'Word 文档',
+    xls: 'Excel 表格',
+    xlsx: 'Excel 表格',
+    ppt: 'PowerPoint 演示文稿',
+    pptx: 'PowerPoint 演示文稿',
+    ttf: '字体',
+    otf: '字体',
+    woff: '字体',
+    woff2: '字体',
+    mp3: '音频',
+    wav: '音频',
+    ogg: '音频',
+    mp4: '视频',
+    mov: '视频',
+    webm: '视频',
+    sqlite: 'SQLite 数据库',
+    db: '数据库',
+    wasm: 'WebAssembly 模块',
+    exe: '可执行文件',
+    dll: '动态链接库',
+    so: '动态链接库',
+    dylib: '动态链接库',
+    jar: 'Java 归档',
+    class: 'Java 字节码',
+    pyc: 'Python 字节码',
+    bin: '二进制数据',
+};
+
+function extensionOf(path: string): string {
+    const name = path.split(/[/\\]/).pop() ?? '';
+    const dot = name.lastIndexOf('.');
+    return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+}
+
+export function imageMimeType(path: string): string | null {
+    return IMAGE_TYPES[extensionOf(path)] ?? null;
+}
+
+export function binaryTypeLabel(path: string): string | null {
+    return BINARY_TYPES[extensionOf(path)] ?? null;
+}
@@ -0,0 +1,12 @@
+export { FrontmatterForm } from './FrontmatterForm';
+export { DiagnosticsPanel } from './DiagnosticsPanel';
+export { DiffView } from './DiffView';
+export { CodeEditor, type CodeEditorHandle } from './CodeEditor';
+export { EditorTabs, tabLabel } from './EditorTabs';
+export { UnsavedChangesDialog } from './UnsavedChangesDialog';
+export { DraftRecoveryDialog } from './DraftRecoveryDialog';
+export { SaveConflictDialog, mergeConflict, type SaveConflict } from './SaveConflictDialog';
+export { FileTree } from './FileTree';
+export { ImageViewer } from './ImageViewer';
+export { BinaryView } from './BinaryView';
+export { imageMimeType, binaryTypeLabel } from './fileKinds';
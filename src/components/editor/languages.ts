@@ -0,0 +1,59 @@
+import { StreamLanguage, type LanguageSupport, type StreamParser } from '@codemirror/language';
+import type { Extension } from '@codemirror/state';
+import { markdown, markdownLanguage } from '@codemirror/lang-markdown';
+import { yaml, yamlFrontmatter } from '@codemirror/lang-yaml';
+import { javascript } from '@codemirror/lang-javascript';
+import { python } from '@codemirror/lang-python';
+import { json } from '@codemirror/lang-json';
+import { html } from '@codemirror/lang-html';
+import { css } from '@codemirror/lang-css';
+import { sql } from '@codemirror/lang-sql';
+import { rust } from '@codemirror/lang-rust';
+import { java } from '@codemirror/lang-java';
+import { cpp } from '@codemirror/lang-cpp';
+import { go } from '@codemirror/lang-go';
+import { php } from '@codemirror/lang-php';
+import { shell } from '@codemirror/legacy-modes/mode/shell';
+import { ruby } from '@codemirror/legacy-modes/mode/ruby';
+import { swift } from '@codemirror/legacy-modes/mode/swift';
+import { csharp, kotlin } from '@codemirror/legacy-modes/mode/clike';
+
+const legacy = (parser: StreamParser<unknown>) => StreamLanguage.define(parser);
+
+/**
+ * CodeMirror support for the language names in the Editor's EXT_TO_LANGUAGE map
+ * (Prism names, so the preview and the editor share one mapping)
+ */
+const LANGUAGES: Record<string, () => LanguageSupport | StreamLanguage<unknown>> = {
+    // Skill files open with a YAML frontmatter block
+    markdown: () => yamlFrontmatter({ content: markdown({ base: markdownLanguage }) }),
+    javascript: () => javascript(),
+    jsx: () => javascript({ jsx: true }),
+    typescript: () => javascript({ typescript: true }),
+    tsx: () => javascript({ jsx: true, typescript: true }),
+    java: () => java(),
+    python: () => python(),
+    sql: () => sql(),
+    json: () => json(),
+    markup: () => html(),
+    css: () => css(),
+    scss: () => css(),
+    yaml: () => yaml(),
+    bash: () => legacy(shell),
+    rust: () => rust(),
+    go: () => go(),
+    ruby: () => legacy(ruby),
+    php: () => php(),
+    c: () => cpp(),
+    cpp: () => cpp(),
+    csharp: () => legacy(csharp),
+    swift: () => legacy(swift),
+    kotlin: () => legacy(kotlin),
+};
+
+/**
+ * Syntax extension for a language name; plain text when unknown
+ */
+export function languageExtension(language: string): Extension {
+    return LANGUAGES[language]?.() ?? [];
+}
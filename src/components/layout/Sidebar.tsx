@@ -5,8 +5,14 @@ import {
     Settings,
     FolderSync,
     Sparkles,
+    Filter,
+    Pin,
 } from 'lucide-react';
 import { useAppStore } from '../../store/appStore';
+import { useCollectionCounts } from '../../hooks/useCollectionCounts';
+import { useRegisterCommands } from '../../commands';
+import { setQualifier } from '../../search';
+import type { SkillCollection } from '../../types';
 
 type View = 'dashboard' | 'editor' | 'settings' | 'welcome';
 
@@ -22,6 +28,8 @@ const navItems: NavItem[] = [
     { id: 'settings', icon: Settings, label: '设置' },
 ];
 
+const NO_COLLECTIONS: SkillCollection[] = [];
+
 /**
  * Sidebar - Main navigation component
  */
@@ -29,6 +37,64 @@ export function Sidebar() {
     const currentView = useAppStore((s) => s.currentView);
     const setCurrentView = useAppStore((s) => s.setCurrentView);
     const skillCount = useAppStore((s) => s.skills.length);
+    const collections = useAppStore((s) => s.preferences.collections) ?? NO_COLLECTIONS;
+    const activeCollectionId = useAppStore((s) => s.activeCollectionId);
+    const counts = useCollectionCounts();
+
+    // Open a collection on the Dashboard; clicking the open one closes it
+    const openCollection = (collection: SkillCollection) => {
+        const { setActiveCollection, setSearchQuery } = useAppStore.getState();
+        const isOpen = activeCollectionId === collection.id && currentView === 'dashboard';
+        setActiveCollection(isOpen ? null : collection.id);
+        setSearchQuery(!isOpen && collection.kind === 'smart' ? collection.query : '');
+        setCurrentView('dashboard');
+    };
+
+    const libraries = useAppStore((s) => s.preferences.libraries);
+    useRegisterCommands(() => [
+        ...navItems.map(item => ({
+            id: `nav.${item.id}`,
+            title: `前往${item.label}`,
+            group: '导航',
+            keywords: [item.id],
+            run: () => setCurrentView(item.id),
+        })),
+        ...collections.map(collection => ({
+            id: `collection.${collection.id}`,
+            title: `打开收藏集：${collection.name}`,
+            group: '收藏集',
+            keywords: ['collection'],
+            run: () => {
+                const { setActiveCollection, setSearchQuery } = useAppStore.getState();
+                setActiveCollection(collection.id);
+                setSearchQuery(collection.kind === 'smart' ? collection.query : '');
+                setCurrentView('dashboard');
+            },
+        })),
+        // Switching library narrows the Dashboard with a `lib:` qualifier
+        ...libraries.map(library => ({
+            id: `library.${library.id}`,
+            title: `切换到技能库：${library.name}`,
+            group: '技能库',
+            keywords: ['library', 'switch', library.path],
+            run: () => {
+                const { searchQuery, setSearchQuery } = useAppStore.getState();
+                setSearchQuery(setQualifier(searchQuery, 'lib', library.name));
+                setCurrentView('dashboard');
+            },
+        })),
+        {
+            id: 'library.all',
+            title: '显示所有技能库',
+            group: '技能库',
+            keywords: ['library', 'all'],
+            run: () => {
+                const { searchQuery, setSearchQuery } = useAppStore.getState();
+                setSearchQuery(setQualifier(searchQuery, 'lib', null));
+                setCurrentView('dashboard');
+            },
+        },
+    ], [collections, libraries, setCurrentView]);
 
     return (
         <aside className="w-[72px] h-full bg-surface/50 backdrop-blur-xl border-r border-border/50 flex flex-col items-center py-6">
@@ -74,8 +140,34 @@ export function Sidebar() {
                 })}
             </nav>
 
+            {/* Collections */}
+            {collections.length > 0 && (
+                <div className="flex flex-col gap-1.5 w-full max-h-[40vh] px-3 mb-4 overflow-y-auto border-t border-border/30 pt-4">
+                    {collections.map((collection) => {
+                        const isActive = activeCollectionId === collection.id && currentView === 'dashboard';
+                        const Icon = collection.kind === 'smart' ? Filter : Pin;
+                        const count = counts.get(collection.id) ?? 0;
+
+                        return (
+                            <button
+                                key={collection.id}
+                                onClick={() => openCollection(collection)}
+                                className={`relative w-full py-1.5 rounded-xl flex flex-col items-center gap-0.5 transition-colors ${isActive ? 'bg-accent/20 text-accent' : 'text-muted hover:text-foreground hover:bg-accent/10'}`}
+                                title={`${collection.name}（${count}）`}
+                            >
+                                <Icon className="w-4 h-4" />
+                                <span className="text-[9px] leading-tight max-w-full truncate px-1">{collection.name}</span>
+                                <span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 rounded-full bg-accent/80 text-white text-[9px] font-medium flex items-center justify-center">
+                                    {count}
+                                </span>
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+
             {/* Skill count badge */}
-            <div className="mt-auto flex flex-col items-center gap-1 text-muted">
+            <div className="flex flex-col items-center gap-1 text-muted">
                 <FolderSync className="w-4 h-4" />
                 <span className="text-xs font-medium">{skillCount}</span>
             </div>
@@ -0,0 +1,315 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Plus, Trash2, Check, Shapes } from 'lucide-react';
+import { SKILL_KIND_LABELS, type SkillKind } from '../../types';
+import { createCustomFormat, type EntryPattern, type FormatDefinition, type FrontmatterField, type FrontmatterFieldType } from '../../formats';
+
+const KINDS = Object.keys(SKILL_KIND_LABELS) as SkillKind[];
+const FIELD_TYPES: FrontmatterFieldType[] = ['text', 'textarea', 'list', 'boolean'];
+
+const inputClass = 'w-full px-3 py-2 bg-background border border-border/50 rounded-lg text-foreground text-sm placeholder-muted focus:outline-none focus:border-accent transition-colors';
+
+function splitList(text: string): string[] {
+    return text.split(',').map(s => s.trim()).filter(Boolean);
+}
+
+/**
+ * FormatEditorModal - Create or edit a user-defined format definition
+ * @param initial - Definition being edited; omitted when creating a new one
+ * @param takenIds - Ids already used by other formats
+ */
+export function FormatEditorModal({
+    initial,
+    takenIds,
+    onSave,
+    onClose,
+}: {
+    initial?: FormatDefinition;
+    takenIds: string[];
+    onSave: (definition: FormatDefinition) => void;
+    onClose: () => void;
+}) {
+    const isNew = !initial;
+    const [draft, setDraft] = useState<FormatDefinition>(() => initial ?? createCustomFormat(''));
+    const [entryPathText, setEntryPathText] = useState(draft.layout.entryPath.join('/'));
+    const [bundleDirsText, setBundleDirsText] = useState(draft.layout.bundleDirs.join(', '));
+    const [dotDirsText, setDotDirsText] = useState(draft.dotDirs.join(', '));
+    const [keywordsText, setKeywordsText] = useState(draft.detectKeywords.join(', '));
+
+    const update = (changes: Partial<FormatDefinition>) => setDraft(prev => ({ ...prev, ...changes }));
+
+    const updateEntry = (index: number, changes: Partial<EntryPattern>) =>
+        update({ entries: draft.entries.map((entry, i) => i === index ? { ...entry, ...changes } : entry) });
+
+    const updateField = (index: number, changes: Partial<FrontmatterField>) =>
+        update({ fields: draft.fields.map((field, i) => i === index ? { ...field, ...changes } : field) });
+
+    const id = draft.id.trim().toLowerCase();
+    const entryPath = entryPathText.split(/[/\\]/).map(s => s.trim()).filter(Boolean);
+
+    const validationError =
+        !id ? '请输入格式 ID' :
+            !/^[a-z0-9][a-z0-9._-]*$/.test(id) ? '格式 ID 只能包含小写字母、数字、点、下划线和连字符' :
+                isNew && takenIds.includes(id) ? `格式 ${id} 已存在` :
+                    draft.entries.length === 0 || draft.entries.some(e => !e.file.trim()) ? '至少需要一个入口文件模式' :
+                        entryPath.length === 0 ? '请输入新建条目的路径' :
+                            null;
+
+    const handleSave = () => {
+        if (validationError) return;
+        onSave({
+            ...draft,
+            id,
+            label: draft.label.trim() || id,
+            entries: draft.entries.map(e => ({ ...e, file: e.file.trim(), parentDir: e.parentDir?.trim() || undefined })),
+            dotDirs: splitList(dotDirsText),
+            detectKeywords: splitList(keywordsText),
+            layout: { ...draft.layout, entryPath, bundleDirs: splitList(bundleDirsText) },
+            fields: draft.fields.filter(f => f.key.trim()).map(f => ({ ...f, key: f.key.trim(), label: f.label.trim() || f.key.trim() })),
+            builtin: false,
+        });
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+            onClick={onClose}
+        >
+            <motion.div
+                initial={{ scale: 0.9, opacity: 0 }}
+                animate={{ scale: 1, opacity: 1 }}
+                exit={{ scale: 0.9, opacity: 0 }}
+                className="bg-surface border border-border/50 rounded-2xl max-w-2xl w-full mx-4 max-h-[85vh] flex flex-col shadow-2xl"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="px-6 py-4 border-b border-border/30 flex items-center justify-between">
+                    <h3 className="text-lg font-bold text-foreground flex items-center gap-2">
+                        <Shapes className="w-5 h-5 text-accent" />
+                        {isNew ? '新建格式' : `编辑格式：${initial.label}`}
+                    </h3>
+                    <button onClick={onClose} className="p-2 hover:bg-accent/5 rounded-lg text-muted hover:text-foreground transition-colors">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-6 flex-1 overflow-y-auto custom-scrollbar space-y-5">
+                    <div className="grid grid-cols-[1fr_1fr_auto] gap-3">
+                        <div>
+                            <label className="text-sm text-muted mb-1.5 block">格式 ID</label>
+                            <input
+                                type="text"
+                                value={draft.id}
+                                disabled={!isNew}
+                                placeholder="例如: copilot"
+                                onChange={(e) => update({ id: e.target.value })}
+                                className={`${inputClass} font-mono disabled:opacity-60`}
+                            />
+                        </div>
+                        <div>
+                            <label className="text-sm text-muted mb-1.5 block">显示名称</label>
+                            <input
+                                type="text"
+                                value={draft.label}
+                                placeholder="例如: Copilot"
+                                onChange={(e) => update({ label: e.target.value })}
+                                className={inputClass}
+                            />
+                        </div>
+                        <div>
+                            <label className="text-sm text-muted mb-1.5 block">颜色</label>
+                            <input
+                                type="color"
+                                value={draft.color}
+                                onChange={(e) => update({ color: e.target.value })}
+                                className="h-[38px] w-12 bg-background border border-border/50 rounded-lg cursor-pointer"
+                            />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="text-sm text-muted mb-1.5 block">入口文件</label>
+                        <p className="text-xs text-muted mb-2">
+                            扫描时识别为技能的文件。文件名支持 <code>*</code> 通配符；所在目录为可选的路径后缀，如 <code>.github/prompts</code>
+                        </p>
+                        <div className="space-y-2">
+                            {draft.entries.map((entry, i) => (
+                                <div key={i} className="flex items-center gap-2">
+                                    <input
+                                        type="text"
+                                        value={entry.file}
+                                        placeholder="SKILL.md / *.prompt.md"
+                                        onChange={(e) => updateEntry(i, { file: e.target.value })}
+                                        className={`${inputClass} font-mono`}
+                                    />
+                                    <input
+                                        type="text"
+                                        value={entry.parentDir || ''}
+                                        placeholder="所在目录（可选）"
+                                        onChange={(e) => updateEntry(i, { parentDir: e.target.value })}
+                                        className={`${inputClass} font-mono`}
+                                    />
+                                    <select
+                                        value={entry.kind}
+                                        onChange={(e) => updateEntry(i, { kind: e.target.value as SkillKind })}
+                                        className={`${inputClass} w-auto`}
+                                    >
+                                        {KINDS.map(kind => <option key={kind} value={kind}>{SKILL_KIND_LABELS[kind]}</option>)}
+                                    </select>
+                                    <label className="flex items-center gap-1 text-xs text-muted whitespace-nowrap cursor-pointer" title="该文件所在文件夹即为一个技能，不再向下扫描">
+                                        <input
+                                            type="checkbox"
+                                            checked={!!entry.ownsFolder}
+                                            onChange={(e) => updateEntry(i, { ownsFolder: e.target.checked })}
+                                            className="accent-accent"
+                                        />
+                                        独占文件夹
+                                    </label>
+                                    <button
+                                        onClick={() => update({ entries: draft.entries.filter((_, j) => j !== i) })}
+                                        className="p-2 hover:bg-red-500/20 rounded-lg transition-colors"
+                                    >
+                                        <Trash2 className="w-4 h-4 text-red-400" />
+                                    </button>
+                                </div>
+                            ))}
+                            <button
+                                onClick={() => update({ entries: [...draft.entries, { file: '', kind: 'skill' }] })}
+                                className="text-xs text-muted hover:text-accent flex items-center gap-1"
+                            >
+                                <Plus size={12} /> 添加入口文件
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="text-sm text-muted mb-1.5 block">扫描的隐藏目录</label>
+                            <input
+                                type="text"
+                                value={dotDirsText}
+                                placeholder=".github, .windsurf"
+                                onChange={(e) => setDotDirsText(e.target.value)}
+                                className={`${inputClass} font-mono`}
+                            />
+                        </div>
+                        <div>
+                            <label className="text-sm text-muted mb-1.5 block">识别关键词（文件夹路径）</label>
+                            <input
+                                type="text"
+                                value={keywordsText}
+                                placeholder="copilot"
+                                onChange={(e) => setKeywordsText(e.target.value)}
+                                className={inputClass}
+                            />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="text-sm text-muted mb-1.5 block">新建条目</label>
+                        <p className="text-xs text-muted mb-2">
+                            相对技能库的路径，<code>{'{{name}}'}</code> 为技能名称，<code>{'{{slug}}'}</code> 为小写连字符形式
+                        </p>
+                        <div className="grid grid-cols-[2fr_1fr_auto] gap-3">
+                            <input
+                                type="text"
+                                value={entryPathText}
+                                placeholder="{{name}}/SKILL.md"
+                                onChange={(e) => setEntryPathText(e.target.value)}
+                                className={`${inputClass} font-mono`}
+                            />
+                            <input
+                                type="text"
+                                value={bundleDirsText}
+                                placeholder="附带目录: scripts, examples"
+                                onChange={(e) => setBundleDirsText(e.target.value)}
+                                className={`${inputClass} font-mono`}
+                            />
+                            <select
+                                value={draft.layout.kind}
+                                onChange={(e) => update({ layout: { ...draft.layout, kind: e.target.value as SkillKind } })}
+                                className={`${inputClass} w-auto`}
+                            >
+                                {KINDS.map(kind => <option key={kind} value={kind}>{SKILL_KIND_LABELS[kind]}</option>)}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="text-sm text-muted mb-1.5 block">模板</label>
+                        <textarea
+                            value={draft.template}
+                            rows={8}
+                            onChange={(e) => update({ template: e.target.value })}
+                            className={`${inputClass} font-mono text-xs resize-y`}
+                        />
+                    </div>
+
+                    <div>
+                        <label className="text-sm text-muted mb-1.5 block">Frontmatter 字段</label>
+                        <p className="text-xs text-muted mb-2">在编辑器元数据面板中显示的额外字段（名称、描述、标签、版本始终显示）</p>
+                        <div className="space-y-2">
+                            {draft.fields.map((field, i) => (
+                                <div key={i} className="flex items-center gap-2">
+                                    <input
+                                        type="text"
+                                        value={field.key}
+                                        placeholder="key"
+                                        onChange={(e) => updateField(i, { key: e.target.value })}
+                                        className={`${inputClass} font-mono`}
+                                    />
+                                    <input
+                                        type="text"
+                                        value={field.label}
+                                        placeholder="显示名称"
+                                        onChange={(e) => updateField(i, { label: e.target.value })}
+                                        className={inputClass}
+                                    />
+                                    <select
+                                        value={field.type}
+                                        onChange={(e) => updateField(i, { type: e.target.value as FrontmatterFieldType })}
+                                        className={`${inputClass} w-auto`}
+                                    >
+                                        {FIELD_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                                    </select>
+                                    <button
+                                        onClick={() => update({ fields: draft.fields.filter((_, j) => j !== i) })}
+                                        className="p-2 hover:bg-red-500/20 rounded-lg transition-colors"
+                                    >
+                                        <Trash2 className="w-4 h-4 text-red-400" />
+                                    </button>
+                                </div>
+                            ))}
+                            <button
+                                onClick={() => update({ fields: [...draft.fields, { key: '', label: '', type: 'text' }] })}
+                                className="text-xs text-muted hover:text-accent flex items-center gap-1"
+                            >
+                                <Plus size={12} /> 添加字段
+                            </button>
+                        </div>
+                    </div>
+                </div>
+
+                <div className="px-6 py-4 border-t border-border/30 flex items-center gap-3">
+                    <div className="flex-1 text-xs text-red-400">{validationError}</div>
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2.5 rounded-xl border border-border/50 text-muted hover:text-foreground transition-colors"
+                    >
+                        取消
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={!!validationError}
+                        className="px-4 py-2.5 rounded-xl bg-accent hover:bg-accent/90 text-white font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+                    >
+                        <Check size={16} />
+                        保存
+                    </button>
+                </div>
+            </motion.div>
+        </motion.div>
+    );
+}
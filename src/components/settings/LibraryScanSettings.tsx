@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Check, RotateCcw } from 'lucide-react';
+import { DEFAULT_SCAN_CONFIG, type LibraryScanConfig } from '../../types';
+
+const inputClass = 'w-full px-3 py-2 bg-background border border-border/50 rounded-lg text-foreground text-sm placeholder-muted focus:outline-none focus:border-accent transition-colors';
+
+// One glob per line, so `{a,b}` groups keep their commas
+function splitLines(text: string): string[] {
+    return text.split('\n').map(s => s.trim()).filter(Boolean);
+}
+
+/**
+ * LibraryScanSettings - Per-library scan depth, include/exclude globs and .gitignore handling
+ * @param config - Current settings with defaults filled in
+ */
+export function LibraryScanSettings({
+    config,
+    onSave,
+}: {
+    config: LibraryScanConfig;
+    onSave: (config: LibraryScanConfig) => void;
+}) {
+    const [maxDepth, setMaxDepth] = useState(config.maxDepth);
+    const [includeText, setIncludeText] = useState(config.include.join('\n'));
+    const [excludeText, setExcludeText] = useState(config.exclude.join('\n'));
+    const [respectGitignore, setRespectGitignore] = useState(config.respectGitignore);
+    const [allowNested, setAllowNested] = useState(config.allowNested);
+
+    const handleReset = () => {
+        setMaxDepth(DEFAULT_SCAN_CONFIG.maxDepth);
+        setIncludeText(DEFAULT_SCAN_CONFIG.include.join('\n'));
+        setExcludeText(DEFAULT_SCAN_CONFIG.exclude.join('\n'));
+        setRespectGitignore(DEFAULT_SCAN_CONFIG.respectGitignore);
+        setAllowNested(DEFAULT_SCAN_CONFIG.allowNested);
+    };
+
+    const handleSave = () => {
+        onSave({
+            maxDepth: Math.max(0, Math.floor(maxDepth)),
+            include: splitLines(includeText),
+            exclude: splitLines(excludeText),
+            respectGitignore,
+            allowNested,
+        });
+    };
+
+    return (
+        <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden"
+        >
+            <div className="mt-4 pt-4 border-t border-border/50 space-y-4">
+                <div>
+                    <label className="text-xs text-muted mb-1.5 block">最大扫描深度</label>
+                    <input
+                        type="number"
+                        min={0}
+                        max={32}
+                        value={maxDepth}
+                        onChange={(e) => setMaxDepth(Number(e.target.value) || 0)}
+                        className={`${inputClass} max-w-[120px]`}
+                    />
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <label className="text-xs text-muted mb-1.5 block">包含（每行一个 glob，留空表示全部）</label>
+                        <textarea
+                            value={includeText}
+                            onChange={(e) => setIncludeText(e.target.value)}
+                            placeholder={'skills/**\n**/*.mdc'}
+                            rows={4}
+                            className={`${inputClass} font-mono resize-y`}
+                        />
+                    </div>
+                    <div>
+                        <label className="text-xs text-muted mb-1.5 block">排除（每行一个 glob）</label>
+                        <textarea
+                            value={excludeText}
+                            onChange={(e) => setExcludeText(e.target.value)}
+                            placeholder={'node_modules\narchive/**'}
+                            rows={4}
+                            className={`${inputClass} font-mono resize-y`}
+                        />
+                    </div>
+                </div>
+
+                <div className="flex flex-wrap gap-6">
+                    <label className="flex items-center gap-2 text-sm text-foreground cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={respectGitignore}
+                            onChange={(e) => setRespectGitignore(e.target.checked)}
+                            className="accent-accent"
+                        />
+                        遵循 .gitignore
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-foreground cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={allowNested}
+                            onChange={(e) => setAllowNested(e.target.checked)}
+                            className="accent-accent"
+                        />
+                        允许嵌套技能
+                    </label>
+                </div>
+
+                <div className="flex justify-end gap-2">
+                    <button
+                        onClick={handleReset}
+                        className="px-3 py-1.5 rounded-lg text-xs text-muted hover:text-foreground hover:bg-white/10 transition-colors flex items-center gap-1"
+                    >
+                        <RotateCcw size={12} />
+                        恢复默认
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        className="px-3 py-1.5 rounded-lg text-xs bg-accent hover:bg-accent/90 text-white font-medium transition-colors flex items-center gap-1"
+                    >
+                        <Check size={12} />
+                        应用并重新扫描
+                    </button>
+                </div>
+            </div>
+        </motion.div>
+    );
+}
@@ -0,0 +1,2 @@
+export { FormatEditorModal } from './FormatEditorModal';
+export { LibraryScanSettings } from './LibraryScanSettings';
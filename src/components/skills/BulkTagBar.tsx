@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Tag, Plus, Minus, X } from 'lucide-react';
+import { isTabDirty, useAppStore } from '../../store/appStore';
+import { updateSkillTags } from '../../adapters/fs';
+import type { Skill } from '../../types';
+import { useTagCounts } from '../../hooks/useTagCounts';
+
+/**
+ * BulkTagBar - Adds or removes a tag on every selected skill, writing each file's frontmatter
+ */
+export function BulkTagBar({
+    selected,
+    onSelectAll,
+    onClear,
+}: {
+    selected: Skill[];
+    onSelectAll: () => void;
+    onClear: () => void;
+}) {
+    const updateSkill = useAppStore((s) => s.updateSkill);
+    const tagCounts = useTagCounts();
+    const [tag, setTag] = useState('');
+    const [isApplying, setIsApplying] = useState(false);
+
+    const apply = async (mode: 'add' | 'remove') => {
+        const value = tag.trim();
+        if (!value || isApplying) return;
+
+        setIsApplying(true);
+        const failed: string[] = [];
+        const skipped: string[] = [];
+        // One at a time: each write also wakes the library watcher
+        for (const skill of selected) {
+            // Writing under unsaved edits would turn the next save into a conflict
+            const tab = useAppStore.getState().editorTabs.find(t => t.path === skill.sourcePath);
+            if (tab && isTabDirty(tab)) {
+                skipped.push(skill.title);
+                continue;
+            }
+            try {
+                const updated = await updateSkillTags(skill, (tags) => mode === 'add'
+                    ? [...tags, value]
+                    : tags.filter(t => t.toLowerCase() !== value.toLowerCase()));
+                if (updated !== skill) updateSkill(skill.id, updated);
+            } catch (err) {
+                console.error(`Failed to update tags in ${skill.sourcePath}:`, err);
+                failed.push(skill.title);
+            }
+        }
+        setIsApplying(false);
+
+        const problems = [
+            failed.length > 0 && `${failed.length} 个技能的标签未能更新：${failed.join('、')}`,
+            skipped.length > 0 && `${skipped.length} 个技能在编辑器中有未保存的修改，已跳过：${skipped.join('、')}`,
+        ].filter(Boolean);
+        if (problems.length > 0) {
+            useAppStore.getState().setError(problems.join('；'));
+        } else {
+            setTag('');
+        }
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            className="flex items-center gap-3 mt-4 px-4 py-2.5 bg-accent/10 border border-accent/20 rounded-xl"
+        >
+            <span className="text-sm font-medium text-accent">已选择 {selected.length} 个</span>
+            <button onClick={onSelectAll} className="text-xs text-muted hover:text-foreground transition-colors">
+                全选当前结果
+            </button>
+
+            <div className="flex-1" />
+
+            <div className="relative">
+                <Tag className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted" />
+                <input
+                    type="text"
+                    list="bulk-tag-options"
+                    value={tag}
+                    onChange={(e) => setTag(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && apply('add')}
+                    placeholder="标签名"
+                    className="w-40 pl-8 pr-2.5 py-1.5 bg-background/50 border border-border/50 rounded-lg text-xs text-foreground placeholder-muted focus:outline-none focus:border-accent/50 transition-colors"
+                />
+                <datalist id="bulk-tag-options">
+                    {tagCounts.map(({ tag }) => <option key={tag} value={tag} />)}
+                </datalist>
+            </div>
+            <button
+                onClick={() => apply('add')}
+                disabled={!tag.trim() || isApplying}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium bg-accent text-white hover:bg-accent/90 disabled:opacity-50 transition-colors"
+            >
+                <Plus className="w-3.5 h-3.5" />
+                添加标签
+            </button>
+            <button
+                onClick={() => apply('remove')}
+                disabled={!tag.trim() || isApplying}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium border border-border/50 text-muted hover:text-foreground disabled:opacity-50 transition-colors"
+            >
+                <Minus className="w-3.5 h-3.5" />
+                移除标签
+            </button>
+            <button
+                onClick={onClear}
+                className="p-1.5 rounded-lg text-muted hover:text-foreground hover:bg-accent/5"
+                title="取消选择"
+            >
+                <X className="w-4 h-4" />
+            </button>
+        </motion.div>
+    );
+}
@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Bookmark, Filter, Pin, Pencil, Trash2, X, Check, RefreshCw } from 'lucide-react';
+import { useAppStore } from '../../store/appStore';
+import type { SkillCollection } from '../../types';
+
+const inputClass = 'px-2.5 py-1.5 bg-background/50 border border-border/50 rounded-lg text-xs text-foreground placeholder-muted focus:outline-none focus:border-accent/50 transition-colors';
+
+/**
+ * Name input shared by saving a search and renaming a collection
+ */
+function NameInput({ initial, onSubmit, onCancel }: { initial: string; onSubmit: (name: string) => void; onCancel: () => void }) {
+    const [name, setName] = useState(initial);
+    const submit = () => name.trim() && onSubmit(name.trim());
+
+    return (
+        <div className="flex items-center gap-1.5">
+            <input
+                autoFocus
+                type="text"
+                value={name}
+                placeholder="收藏集名称"
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter') submit();
+                    if (e.key === 'Escape') onCancel();
+                }}
+                className={`${inputClass} w-44`}
+            />
+            <button onClick={submit} disabled={!name.trim()} className="p-1.5 rounded-lg text-accent hover:bg-accent/10 disabled:opacity-50" title="确定">
+                <Check className="w-4 h-4" />
+            </button>
+            <button onClick={onCancel} className="p-1.5 rounded-lg text-muted hover:text-foreground hover:bg-accent/5" title="取消">
+                <X className="w-4 h-4" />
+            </button>
+        </div>
+    );
+}
+
+/**
+ * SaveSearchButton - Saves the current search query as a smart collection
+ */
+export function SaveSearchButton() {
+    const searchQuery = useAppStore((s) => s.searchQuery);
+    const addCollection = useAppStore((s) => s.addCollection);
+    const setActiveCollection = useAppStore((s) => s.setActiveCollection);
+    const [isNaming, setIsNaming] = useState(false);
+
+    if (!searchQuery.trim()) return null;
+
+    if (isNaming) {
+        return (
+            <NameInput
+                initial=""
+                onCancel={() => setIsNaming(false)}
+                onSubmit={(name) => {
+                    const collection: SkillCollection = { id: crypto.randomUUID(), name, kind: 'smart', query: searchQuery.trim() };
+                    addCollection(collection);
+                    setActiveCollection(collection.id);
+                    setIsNaming(false);
+                }}
+            />
+        );
+    }
+
+    return (
+        <button
+            onClick={() => setIsNaming(true)}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-medium border bg-surface/50 border-border/50 text-muted hover:text-foreground transition-colors"
+            title="将当前搜索保存为智能收藏集"
+        >
+            <Bookmark className="w-4 h-4" />
+            保存搜索
+        </button>
+    );
+}
+
+/**
+ * CollectionBar - The collection opened from the Sidebar, with rename/delete
+ * and, for smart collections, saving an edited query back
+ */
+export function CollectionBar({ collection, count }: { collection: SkillCollection; count: number }) {
+    const searchQuery = useAppStore((s) => s.searchQuery);
+    const setSearchQuery = useAppStore((s) => s.setSearchQuery);
+    const updateCollection = useAppStore((s) => s.updateCollection);
+    const removeCollection = useAppStore((s) => s.removeCollection);
+    const setActiveCollection = useAppStore((s) => s.setActiveCollection);
+    const [isRenaming, setIsRenaming] = useState(false);
+    const [confirmDelete, setConfirmDelete] = useState(false);
+
+    const isSmart = collection.kind === 'smart';
+    const queryChanged = isSmart && searchQuery.trim() !== collection.query;
+    const Icon = isSmart ? Filter : Pin;
+
+    const close = () => {
+        setActiveCollection(null);
+        if (isSmart) setSearchQuery('');
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="flex items-center gap-3 mt-4 px-4 py-2.5 bg-surface/50 border border-border/50 rounded-xl"
+        >
+            <Icon className="w-4 h-4 text-accent shrink-0" />
+            {isRenaming ? (
+                <NameInput
+                    initial={collection.name}
+                    onCancel={() => setIsRenaming(false)}
+                    onSubmit={(name) => {
+                        updateCollection(collection.id, { name });
+                        setIsRenaming(false);
+                    }}
+                />
+            ) : (
+                <div className="flex items-baseline gap-2 min-w-0">
+                    <span className="text-sm font-medium text-foreground truncate">{collection.name}</span>
+                    <span className="text-xs text-muted shrink-0">
+                        {isSmart ? '智能收藏集' : '手动收藏集'} · {count} 个
+                    </span>
+                </div>
+            )}
+            {isSmart && !queryChanged && (
+                <code className="text-[11px] text-muted font-mono truncate">{collection.query}</code>
+            )}
+            {!isSmart && count === 0 && (
+                <span className="text-xs text-muted">通过技能卡片的菜单添加技能</span>
+            )}
+
+            <div className="flex-1" />
+
+            {queryChanged && searchQuery.trim() && (
+                <button
+                    onClick={() => updateCollection(collection.id, { query: searchQuery.trim() })}
+                    className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium bg-accent text-white hover:bg-accent/90 transition-colors"
+                    title="用当前搜索替换收藏集的查询"
+                >
+                    <RefreshCw className="w-3.5 h-3.5" />
+                    更新查询
+                </button>
+            )}
+            {confirmDelete ? (
+                <div className="flex items-center gap-2 text-xs">
+                    <span className="text-red-400">删除此收藏集？</span>
+                    <button onClick={() => removeCollection(collection.id)} className="px-2 py-1 rounded-md bg-red-500 text-white hover:bg-red-600">删除</button>
+                    <button onClick={() => setConfirmDelete(false)} className="px-2 py-1 rounded-md text-muted hover:text-foreground">取消</button>
+                </div>
+            ) : (
+                <>
+                    <button onClick={() => setIsRenaming(true)} className="p-1.5 rounded-lg text-muted hover:text-foreground hover:bg-accent/5" title="重命名">
+                        <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => setConfirmDelete(true)} className="p-1.5 rounded-lg text-muted hover:text-red-400 hover:bg-red-500/10" title="删除收藏集">
+                        <Trash2 className="w-4 h-4" />
+                    </button>
+                </>
+            )}
+            <button onClick={close} className="p-1.5 rounded-lg text-muted hover:text-foreground hover:bg-accent/5" title="关闭收藏集">
+                <X className="w-4 h-4" />
+            </button>
+        </motion.div>
+    );
+}
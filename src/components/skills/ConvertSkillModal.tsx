@@ -0,0 +1,219 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, ArrowLeftRight, AlertTriangle, FileText, ChevronLeft } from 'lucide-react';
+import { useAppStore } from '../../store/appStore';
+import { applyConversion, planConversion, type ConversionPlan } from '../../convert';
+import { DiffView } from '../editor';
+import { useFormats } from '../../formats';
+import type { Skill, SkillFormat, SkillLibrary } from '../../types';
+
+/**
+ * ConvertSkillModal - Convert a skill into another format with a dry-run preview
+ */
+export function ConvertSkillModal({ skill, onClose }: { skill: Skill; onClose: () => void }) {
+    const libraries = useAppStore(s => s.preferences.libraries) || [];
+    const addSkill = useAppStore(s => s.addSkill);
+    const formats = useFormats();
+
+    const [targetFormat, setTargetFormat] = useState<SkillFormat>(skill.format === 'claude' ? 'cursor' : 'claude');
+    const [targetLibId, setTargetLibId] = useState(libraries[0]?.id || '');
+    const [legacyCursorRules, setLegacyCursorRules] = useState(false);
+    const [plan, setPlan] = useState<ConversionPlan | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handlePreview = async () => {
+        const lib = (libraries as SkillLibrary[]).find(l => l.id === targetLibId);
+        if (!lib) return;
+
+        setIsWorking(true);
+        setError(null);
+        try {
+            setPlan(await planConversion(skill, lib, targetFormat, { legacyCursorRules }));
+        } catch (err: any) {
+            setError(err?.message || err?.toString() || '生成预览失败');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleApply = async () => {
+        if (!plan) return;
+
+        setIsWorking(true);
+        setError(null);
+        try {
+            const converted = await applyConversion(plan);
+            if (converted) addSkill(converted);
+            onClose();
+        } catch (err: any) {
+            setError(err?.message || err?.toString() || '写入失败');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            <motion.div
+                className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                onClick={onClose}
+            />
+
+            <motion.div
+                className="relative w-full max-w-3xl max-h-[85vh] flex flex-col bg-surface border border-border/50 rounded-2xl shadow-2xl overflow-hidden"
+                initial={{ opacity: 0, scale: 0.9, y: 20 }}
+                animate={{ opacity: 1, scale: 1, y: 0 }}
+                exit={{ opacity: 0, scale: 0.9, y: 20 }}
+            >
+                <div className="px-6 py-4 border-b border-border/30 flex items-center justify-between">
+                    <h2 className="text-lg font-bold text-foreground flex items-center gap-2">
+                        <ArrowLeftRight className="w-5 h-5 text-accent" />
+                        转换格式：{skill.title}
+                    </h2>
+                    <button onClick={onClose} className="p-2 hover:bg-accent/5 rounded-lg text-muted hover:text-foreground transition-colors">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-6 flex-1 overflow-y-auto custom-scrollbar space-y-5">
+                    {!plan ? (
+                        <>
+                            <div>
+                                <label className="text-sm font-medium text-muted mb-2 block">目标格式</label>
+                                <div className="flex gap-2">
+                                    {formats.map((format) => (
+                                        <button
+                                            key={format.id}
+                                            onClick={() => setTargetFormat(format.id)}
+                                            className={`flex-1 px-3 py-2 rounded-lg text-xs font-medium transition-colors ${targetFormat === format.id
+                                                ? 'bg-accent text-white'
+                                                : 'bg-surface/50 text-muted hover:text-foreground border border-border/50'
+                                                }`}
+                                        >
+                                            {format.label}
+                                        </button>
+                                    ))}
+                                </div>
+                                {targetFormat === 'cursor' && (
+                                    <label className="flex items-center gap-2 mt-3 text-xs text-muted cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={legacyCursorRules}
+                                            onChange={(e) => setLegacyCursorRules(e.target.checked)}
+                                            className="accent-accent"
+                                        />
+                                        写入旧版 <code>.cursorrules</code> 单文件（默认写入 <code>.cursor/rules/*.mdc</code>）
+                                    </label>
+                                )}
+                            </div>
+
+                            <div>
+                                <label className="text-sm font-medium text-muted mb-2 block">目标技能库</label>
+                                <div className="space-y-2 max-h-48 overflow-y-auto pr-2">
+                                    {(libraries as SkillLibrary[]).map(lib => (
+                                        <button
+                                            key={lib.id}
+                                            onClick={() => setTargetLibId(lib.id)}
+                                            className={`w-full flex items-center gap-3 p-3 rounded-xl border text-left transition-all ${targetLibId === lib.id
+                                                ? 'bg-accent/10 border-accent text-foreground'
+                                                : 'bg-surface/50 border-border/50 text-muted hover:border-border'
+                                                }`}
+                                        >
+                                            <div className="flex-1 min-w-0">
+                                                <div className="font-medium text-sm">{lib.name}</div>
+                                                <div className="text-xs opacity-60 truncate">{lib.path}</div>
+                                            </div>
+                                            <span className="text-[10px] uppercase font-bold opacity-60">{lib.format}</span>
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        </>
+                    ) : (
+                        <>
+                            {plan.warnings.length > 0 && (
+                                <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-xl space-y-1">
+                                    {plan.warnings.map((warning, i) => (
+                                        <div key={i} className="flex items-start gap-2 text-xs text-amber-400">
+                                            <AlertTriangle size={12} className="flex-shrink-0 mt-0.5" />
+                                            {warning}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            <div>
+                                <div className="text-xs text-muted mb-2">将写入 <span className="font-mono text-foreground/80">{plan.targetDir}</span></div>
+                                <ul className="space-y-1">
+                                    {[plan.entry, ...plan.bundled].map((file) => (
+                                        <li key={file.targetPath} className="flex items-center gap-2 text-xs font-mono">
+                                            <FileText size={12} className="text-muted" />
+                                            <span className="text-foreground/80 flex-1 truncate">{file.relativePath}</span>
+                                            <span className={`text-[10px] px-1.5 py-0.5 rounded font-sans font-bold ${file.exists ? 'bg-amber-500/20 text-amber-400' : 'bg-emerald-500/20 text-emerald-400'}`}>
+                                                {file.exists ? '覆盖' : '新建'}
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+
+                            <div>
+                                <div className="text-xs text-muted mb-2">
+                                    {plan.entry.previousContent !== null ? '与现有目标文件的差异' : '与源文件的差异'}
+                                </div>
+                                <div className="max-h-80 overflow-auto rounded-xl border border-border/50 bg-background/50 custom-scrollbar">
+                                    <DiffView oldText={plan.entry.previousContent ?? skill.content} newText={plan.entry.content} />
+                                </div>
+                            </div>
+                        </>
+                    )}
+
+                    {error && (
+                        <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-xl text-red-400 text-xs">{error}</div>
+                    )}
+                </div>
+
+                <div className="px-6 py-4 border-t border-border/30 flex gap-3">
+                    {plan ? (
+                        <>
+                            <button
+                                onClick={() => setPlan(null)}
+                                className="flex-1 flex items-center justify-center gap-1 py-3 text-muted hover:text-foreground transition-colors"
+                            >
+                                <ChevronLeft className="w-4 h-4" />
+                                返回
+                            </button>
+                            <button
+                                onClick={handleApply}
+                                disabled={isWorking}
+                                className="flex-[2] py-3 bg-accent hover:bg-accent/90 disabled:bg-muted/20 disabled:text-muted text-white rounded-xl font-medium transition-colors"
+                            >
+                                {isWorking ? '写入中...' : [plan.entry, ...plan.bundled].some(file => file.exists) ? '覆盖并写入' : '确认写入'}
+                            </button>
+                        </>
+                    ) : (
+                        <>
+                            <button
+                                onClick={onClose}
+                                className="flex-1 py-3 text-muted hover:text-foreground transition-colors"
+                            >
+                                取消
+                            </button>
+                            <button
+                                onClick={handlePreview}
+                                disabled={!targetLibId || isWorking}
+                                className="flex-[2] py-3 bg-accent hover:bg-accent/90 disabled:bg-muted/20 disabled:text-muted text-white rounded-xl font-medium transition-colors"
+                            >
+                                {isWorking ? '生成中...' : '预览转换结果'}
+                            </button>
+                        </>
+                    )}
+                </div>
+            </motion.div>
+        </div>
+    );
+}
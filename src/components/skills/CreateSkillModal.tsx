@@ -3,8 +3,8 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { X, Sparkles, Zap, ChevronRight, FolderPlus, FolderOpen } from 'lucide-react';
 import { useAppStore } from '../../store/appStore';
 import { createNewSkill } from '../../adapters/fs';
-import { useSkillScanner } from '../../hooks/useSkillScanner';
-import type { SkillLibrary, SkillFormat } from '../../types';
+import { SKILL_KIND_LABELS, type SkillLibrary, type SkillFormat, type SkillKind } from '../../types';
+import { detectFormatFromPath, fillPlaceholders, formatBadgeStyle, resolveFormat, useFormats } from '../../formats';
 
 /**
  * CreateSkillModal - Guided creation of a new skill
@@ -17,18 +17,19 @@ export function CreateSkillModal({ isOpen, onClose }: { isOpen: boolean; onClose
     const setCurrentView = useAppStore(s => s.setCurrentView);
     const setSelectedSkill = useAppStore(s => s.setSelectedSkill);
 
-    const { scanAllLibraries } = useSkillScanner();
     // Flow states
     const [step, setStep] = useState<'select_group' | 'new_group' | 'skill_name'>('select_group');
 
     // Skill data
     const [skillName, setSkillName] = useState('');
     const [selectedLibId, setSelectedLibId] = useState('');
+    const [skillKind, setSkillKind] = useState<SkillKind>('skill');
 
     // New Group data
     const [newLibPath, setNewLibPath] = useState('');
     const [newLibName, setNewLibName] = useState('');
     const [newLibFormat, setNewLibFormat] = useState<SkillFormat>('antigravity');
+    const formats = useFormats();
 
     const handleSelectFolder = async () => {
         try {
@@ -43,6 +44,8 @@ export function CreateSkillModal({ isOpen, onClose }: { isOpen: boolean; onClose
                 setNewLibPath(selected);
                 const folderName = selected.split(/[/\\]/).pop() || 'New Group';
                 setNewLibName(folderName);
+                const detected = detectFormatFromPath(selected, formats);
+                if (detected) setNewLibFormat(detected);
             }
         } catch (e) {
             console.error('Failed to open folder dialog:', e);
@@ -72,16 +75,11 @@ export function CreateSkillModal({ isOpen, onClose }: { isOpen: boolean; onClose
         const setGlobalError = useAppStore.getState().setError;
 
         try {
-            const skill = await createNewSkill(lib.path, skillName);
+            const skill = await createNewSkill(lib.path, skillName, skillKind, lib.format);
             if (skill) {
-                console.log('Skill created successfully:', skill);
                 addSkill(skill);
                 setSelectedSkill(skill.id);
 
-                // Trigger a re-scan of all libraries to ensure sync
-                // Doing this non-blocking so the UI updates immediately
-                scanAllLibraries().catch(console.error);
-
                 setCurrentView('editor');
                 onClose();
             } else {
@@ -102,6 +100,10 @@ export function CreateSkillModal({ isOpen, onClose }: { isOpen: boolean; onClose
 
     if (!isOpen) return null;
 
+    // Entry path and bundle folders the selected library's format will create
+    const selectedFormat = resolveFormat((libraries as SkillLibrary[]).find(l => l.id === selectedLibId)?.format || 'antigravity', formats);
+    const previewSegments = selectedFormat.layout.entryPath.map(segment => fillPlaceholders(segment, skillName.trim() || 'my-skill'));
+
     return (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
             <motion.div
@@ -150,16 +152,15 @@ export function CreateSkillModal({ isOpen, onClose }: { isOpen: boolean; onClose
                                                     : 'bg-surface/50 border-border/50 text-muted hover:border-border'
                                                     }`}
                                             >
-                                                <div className={`w-3 h-3 rounded-full ${lib.format === 'antigravity' ? 'bg-purple-500' :
-                                                    lib.format === 'cursor' ? 'bg-blue-500' : 'bg-orange-500'
-                                                    }`} />
+                                                <div className="w-3 h-3 rounded-full" style={{ backgroundColor: resolveFormat(lib.format, formats).color }} />
                                                 <div className="flex-1 text-left">
                                                     <div className="flex items-center gap-2">
                                                         <span className="font-medium">{lib.name}</span>
-                                                        <span className={`text-[10px] px-1.5 py-0.5 rounded uppercase font-bold tracking-wider ${lib.format === 'antigravity' ? 'bg-purple-500/20 text-purple-400' :
-                                                            lib.format === 'cursor' ? 'bg-blue-500/20 text-blue-400' : 'bg-orange-500/20 text-orange-400'
-                                                            }`}>
-                                                            {lib.format}
+                                                        <span
+                                                            className="text-[10px] px-1.5 py-0.5 rounded uppercase font-bold tracking-wider"
+                                                            style={formatBadgeStyle(resolveFormat(lib.format, formats).color)}
+                                                        >
+                                                            {resolveFormat(lib.format, formats).label}
                                                         </span>
                                                     </div>
                                                     <div className="text-xs opacity-60 truncate">{lib.path}</div>
@@ -229,16 +230,16 @@ export function CreateSkillModal({ isOpen, onClose }: { isOpen: boolean; onClose
                                             <div>
                                                 <label className="text-sm font-medium text-muted mb-2 block">技能格式 (IDE)</label>
                                                 <div className="flex gap-2">
-                                                    {(['antigravity', 'cursor', 'claude'] as SkillFormat[]).map((format) => (
+                                                    {formats.map((format) => (
                                                         <button
-                                                            key={format}
-                                                            onClick={() => setNewLibFormat(format)}
-                                                            className={`flex-1 px-3 py-2 rounded-lg text-xs font-medium capitalize transition-colors ${newLibFormat === format
+                                                            key={format.id}
+                                                            onClick={() => setNewLibFormat(format.id)}
+                                                            className={`flex-1 px-3 py-2 rounded-lg text-xs font-medium transition-colors ${newLibFormat === format.id
                                                                 ? 'bg-accent text-white'
                                                                 : 'bg-surface/50 text-muted hover:text-foreground border border-transparent'
                                                                 }`}
                                                         >
-                                                            {format}
+                                                            {format.label}
                                                         </button>
                                                     ))}
                                                 </div>
@@ -274,7 +275,25 @@ export function CreateSkillModal({ isOpen, onClose }: { isOpen: boolean; onClose
                                 className="space-y-4"
                             >
                                 <div className="space-y-2">
-                                    <label className="text-sm font-medium text-muted">技能名称</label>
+                                    <label className="text-sm font-medium text-muted">类型</label>
+                                    <div className="grid grid-cols-4 gap-2">
+                                        {(Object.keys(SKILL_KIND_LABELS) as SkillKind[]).map((kind) => (
+                                            <button
+                                                key={kind}
+                                                onClick={() => setSkillKind(kind)}
+                                                className={`px-2 py-2 rounded-lg text-xs font-medium transition-colors ${skillKind === kind
+                                                    ? 'bg-accent text-white'
+                                                    : 'bg-surface/50 text-muted hover:text-foreground border border-border/50'
+                                                    }`}
+                                            >
+                                                {SKILL_KIND_LABELS[kind]}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                <div className="space-y-2">
+                                    <label className="text-sm font-medium text-muted">{skillKind === 'memory' ? '标题' : '名称'}</label>
                                     <input
                                         autoFocus
                                         type="text"
@@ -288,11 +307,27 @@ export function CreateSkillModal({ isOpen, onClose }: { isOpen: boolean; onClose
                                 <div className="p-4 bg-accent/5 border border-accent/20 rounded-xl">
                                     <div className="text-xs text-muted mb-2">将创建以下标准目录结构：</div>
                                     <div className="font-mono text-[10px] text-accent/80 space-y-1">
-                                        <div>📂 {skillName || 'my-skill'}/</div>
-                                        <div className="pl-4">├── 📄 SKILL.md</div>
-                                        <div className="pl-4">├── 📂 scripts/</div>
-                                        <div className="pl-4">├── 📂 examples/</div>
-                                        <div className="pl-4">└── 📂 resources/</div>
+                                        {skillKind === 'skill' && (
+                                            <>
+                                                {previewSegments.slice(0, -1).map((segment, i) => (
+                                                    <div key={i} style={{ paddingLeft: `${i}rem` }}>{i > 0 && '└── '}📂 {segment}/</div>
+                                                ))}
+                                                {[previewSegments[previewSegments.length - 1], ...selectedFormat.layout.bundleDirs].map((item, i, items) => (
+                                                    <div key={item} style={{ paddingLeft: `${previewSegments.length - 1}rem` }}>
+                                                        {previewSegments.length > 1 && (i === items.length - 1 ? '└── ' : '├── ')}
+                                                        {i === 0 ? `📄 ${item}` : `📂 ${item}/`}
+                                                    </div>
+                                                ))}
+                                            </>
+                                        )}
+                                        {(skillKind === 'command' || skillKind === 'agent') && (
+                                            <>
+                                                <div>📂 .claude/</div>
+                                                <div className="pl-4">└── 📂 {skillKind === 'command' ? 'commands' : 'agents'}/</div>
+                                                <div className="pl-8">└── 📄 {skillName || (skillKind === 'command' ? 'my-command' : 'my-agent')}.md</div>
+                                            </>
+                                        )}
+                                        {skillKind === 'memory' && <div>📄 CLAUDE.md</div>}
                                     </div>
                                 </div>
 
@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, ClipboardList, AlertCircle, EyeOff, FolderSearch, Search } from 'lucide-react';
+import { useAppStore } from '../../store/appStore';
+import { SCAN_FAIL_REASON_LABELS, SCAN_SKIP_REASON_LABELS, type LibraryScanReport } from '../../types';
+
+type Tab = 'failed' | 'skipped' | 'visited';
+
+// Large libraries visit thousands of folders; the filter narrows the rest
+const MAX_ROWS = 500;
+
+interface ReportRow {
+    path: string;
+    label?: string;
+    detail?: string;
+    library: string;
+}
+
+function rowsFor(tab: Tab, libraries: LibraryScanReport[]): ReportRow[] {
+    return libraries.flatMap(lib => {
+        if (tab === 'failed') {
+            return lib.failed.map(i => ({ path: i.path, label: SCAN_FAIL_REASON_LABELS[i.reason] ?? i.reason, detail: i.detail, library: lib.libraryName }));
+        }
+        if (tab === 'skipped') {
+            return lib.skipped.map(i => ({ path: i.path, label: SCAN_SKIP_REASON_LABELS[i.reason] ?? i.reason, detail: i.detail, library: lib.libraryName }));
+        }
+        return lib.visited.map(path => ({ path, library: lib.libraryName }));
+    });
+}
+
+/**
+ * ScanReportModal - What the last scan visited, skipped and failed on, per library
+ */
+export function ScanReportModal({ onClose }: { onClose: () => void }) {
+    const report = useAppStore(s => s.scanReport);
+    const [tab, setTab] = useState<Tab>('failed');
+    const [libraryId, setLibraryId] = useState<string | null>(null);
+    const [filter, setFilter] = useState('');
+
+    const libraries = (report?.libraries ?? []).filter(l => !libraryId || l.libraryId === libraryId);
+    const counts: Record<Tab, number> = {
+        failed: libraries.reduce((n, l) => n + l.failed.length, 0),
+        skipped: libraries.reduce((n, l) => n + l.skipped.length, 0),
+        visited: libraries.reduce((n, l) => n + l.visited.length, 0),
+    };
+
+    const query = filter.trim().toLowerCase();
+    const rows = rowsFor(tab, libraries).filter(row => !query
+        || row.path.toLowerCase().includes(query)
+        || row.label?.toLowerCase().includes(query)
+        || row.detail?.toLowerCase().includes(query));
+
+    const tabs: { key: Tab; label: string; icon: typeof AlertCircle }[] = [
+        { key: 'failed', label: '失败', icon: AlertCircle },
+        { key: 'skipped', label: '跳过', icon: EyeOff },
+        { key: 'visited', label: '已访问', icon: FolderSearch },
+    ];
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            <motion.div
+                className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                onClick={onClose}
+            />
+
+            <motion.div
+                className="relative w-full max-w-4xl max-h-[85vh] flex flex-col bg-surface border border-border/50 rounded-2xl shadow-2xl overflow-hidden"
+                initial={{ opacity: 0, scale: 0.9, y: 20 }}
+                animate={{ opacity: 1, scale: 1, y: 0 }}
+                exit={{ opacity: 0, scale: 0.9, y: 20 }}
+            >
+                <div className="px-6 py-4 border-b border-border/30 flex items-center justify-between">
+                    <div>
+                        <h2 className="text-lg font-bold text-foreground flex items-center gap-2">
+                            <ClipboardList className="w-5 h-5 text-accent" />
+                            扫描报告
+                        </h2>
+                        {report && (
+                            <p className="text-xs text-muted mt-1">
+                                {new Date(report.finishedAt).toLocaleString()} · 已发现 {libraries.reduce((n, l) => n + l.found, 0)} 个条目
+                            </p>
+                        )}
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-accent/5 rounded-lg text-muted hover:text-foreground transition-colors">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {!report ? (
+                    <div className="p-10 text-center text-muted text-sm">还没有扫描记录</div>
+                ) : (
+                    <>
+                        <div className="px-6 py-3 border-b border-border/30 flex flex-wrap items-center gap-3">
+                            <div className="flex gap-1">
+                                {tabs.map(({ key, label, icon: Icon }) => (
+                                    <button
+                                        key={key}
+                                        onClick={() => setTab(key)}
+                                        className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors flex items-center gap-1.5 ${tab === key
+                                            ? 'bg-accent text-white'
+                                            : 'bg-surface/50 text-muted hover:text-foreground border border-border/50'
+                                            }`}
+                                    >
+                                        <Icon size={12} />
+                                        {label}
+                                        <span className="opacity-60">{counts[key]}</span>
+                                    </button>
+                                ))}
+                            </div>
+
+                            {report.libraries.length > 1 && (
+                                <select
+                                    value={libraryId ?? ''}
+                                    onChange={(e) => setLibraryId(e.target.value || null)}
+                                    className="px-3 py-1.5 bg-background border border-border/50 rounded-lg text-xs text-foreground focus:outline-none focus:border-accent"
+                                >
+                                    <option value="">全部技能库</option>
+                                    {report.libraries.map(lib => (
+                                        <option key={lib.libraryId} value={lib.libraryId}>{lib.libraryName}</option>
+                                    ))}
+                                </select>
+                            )}
+
+                            <div className="flex-1 min-w-[200px] relative">
+                                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted" />
+                                <input
+                                    type="text"
+                                    value={filter}
+                                    onChange={(e) => setFilter(e.target.value)}
+                                    placeholder="按路径或原因筛选..."
+                                    className="w-full pl-9 pr-3 py-1.5 bg-background border border-border/50 rounded-lg text-xs text-foreground placeholder-muted focus:outline-none focus:border-accent"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="flex-1 overflow-y-auto custom-scrollbar">
+                            {rows.length === 0 ? (
+                                <div className="p-10 text-center text-muted text-sm">没有记录</div>
+                            ) : (
+                                <ul className="divide-y divide-border/30">
+                                    {rows.slice(0, MAX_ROWS).map((row, i) => (
+                                        <li key={`${row.path}-${i}`} className="px-6 py-2.5 text-xs">
+                                            <div className="flex items-center gap-2">
+                                                {row.label && (
+                                                    <span className={`shrink-0 px-1.5 py-0.5 rounded font-medium ${tab === 'failed' ? 'bg-red-500/10 text-red-400' : 'bg-amber-500/10 text-amber-400'}`}>
+                                                        {row.label}
+                                                    </span>
+                                                )}
+                                                <span className="font-mono text-foreground truncate" title={row.path}>{row.path}</span>
+                                                {report.libraries.length > 1 && !libraryId && (
+                                                    <span className="ml-auto shrink-0 text-muted">{row.library}</span>
+                                                )}
+                                            </div>
+                                            {row.detail && (
+                                                <div className="mt-1 text-muted font-mono break-all">{row.detail}</div>
+                                            )}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                            {rows.length > MAX_ROWS && (
+                                <div className="px-6 py-3 text-xs text-muted text-center">
+                                    仅显示前 {MAX_ROWS} 条，共 {rows.length} 条，可使用筛选缩小范围
+                                </div>
+                            )}
+                        </div>
+                    </>
+                )}
+            </motion.div>
+        </div>
+    );
+}
@@ -0,0 +1,115 @@
+import { useMemo, useRef, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { useAppStore } from '../../store/appStore';
+import { useFormats } from '../../formats';
+import { getCompletions, type CompletionSources, type QueryCompletion } from '../../search';
+
+/**
+ * SearchBox - Dashboard search input with autocomplete for query qualifiers
+ */
+export function SearchBox() {
+    const searchQuery = useAppStore((s) => s.searchQuery);
+    const setSearchQuery = useAppStore((s) => s.setSearchQuery);
+    const skills = useAppStore((s) => s.skills);
+    const libraries = useAppStore((s) => s.preferences.libraries);
+    const formats = useFormats();
+
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [cursor, setCursor] = useState(0);
+    const [isFocused, setIsFocused] = useState(false);
+    const [activeIndex, setActiveIndex] = useState(0);
+    // Hidden with Escape until the next edit
+    const [dismissed, setDismissed] = useState(false);
+
+    const sources = useMemo<CompletionSources>(() => ({
+        formats: formats.map(f => ({ id: f.id, label: f.label })),
+        tags: [...new Set(skills.flatMap(s => s.tags))].sort((a, b) => a.localeCompare(b)),
+        libraries: libraries.map(l => l.name),
+        bundleDirs: [...new Set(formats.flatMap(f => f.layout.bundleDirs))],
+    }), [formats, skills, libraries]);
+
+    const completions = useMemo(
+        () => (isFocused && !dismissed ? getCompletions(searchQuery, cursor, sources) : null),
+        [isFocused, dismissed, searchQuery, cursor, sources]
+    );
+    const items = completions?.items ?? [];
+
+    const syncCursor = () => setCursor(inputRef.current?.selectionStart ?? 0);
+
+    const applyCompletion = (item: QueryCompletion) => {
+        if (!completions) return;
+        const next = searchQuery.slice(0, completions.start) + item.insert + searchQuery.slice(completions.end);
+        const at = completions.start + item.insert.length;
+        setSearchQuery(next);
+        setCursor(at);
+        setActiveIndex(0);
+        requestAnimationFrame(() => inputRef.current?.setSelectionRange(at, at));
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (items.length === 0) return;
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            setActiveIndex((activeIndex + step + items.length) % items.length);
+        } else if (e.key === 'Enter' || e.key === 'Tab') {
+            e.preventDefault();
+            applyCompletion(items[Math.min(activeIndex, items.length - 1)]);
+        } else if (e.key === 'Escape') {
+            setDismissed(true);
+        }
+    };
+
+    return (
+        <div className="flex-1 relative">
+            <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-muted" />
+            <input
+                ref={inputRef}
+                type="text"
+                placeholder="搜索名称、正文及附带文件，或使用 format: tag: lib: kind: modified:<7d has:scripts"
+                value={searchQuery}
+                onChange={(e) => {
+                    setSearchQuery(e.target.value);
+                    setCursor(e.target.selectionStart ?? 0);
+                    setActiveIndex(0);
+                    setDismissed(false);
+                }}
+                onKeyDown={handleKeyDown}
+                onKeyUp={syncCursor}
+                onClick={syncCursor}
+                onFocus={() => setIsFocused(true)}
+                onBlur={() => setIsFocused(false)}
+                className="w-full pl-11 pr-10 py-3 bg-surface/50 border border-border/50 rounded-xl text-foreground placeholder-muted focus:outline-none focus:border-accent/50 transition-colors"
+            />
+            {searchQuery && (
+                <button
+                    onClick={() => setSearchQuery('')}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 p-1 rounded-md text-muted hover:text-foreground hover:bg-accent/5"
+                    title="清除搜索"
+                >
+                    <X className="w-4 h-4" />
+                </button>
+            )}
+
+            {items.length > 0 && (
+                <div className="absolute left-0 right-0 top-full mt-1 z-50 bg-surface border border-border/50 rounded-xl shadow-2xl overflow-hidden py-1">
+                    {items.map((item, i) => (
+                        <button
+                            key={item.insert}
+                            // Keep focus in the input
+                            onMouseDown={(e) => {
+                                e.preventDefault();
+                                applyCompletion(item);
+                            }}
+                            onMouseEnter={() => setActiveIndex(i)}
+                            className={`w-full flex items-center justify-between gap-4 px-4 py-2 text-sm text-left transition-colors ${i === activeIndex ? 'bg-accent/10 text-accent' : 'text-foreground hover:bg-accent/5'}`}
+                        >
+                            <span className="font-mono truncate">{item.label}</span>
+                            {item.hint && <span className="text-xs text-muted shrink-0">{item.hint}</span>}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,47 +1,51 @@
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { FileCode, MoreVertical, ExternalLink, Trash2 } from 'lucide-react';
-import type { Skill } from '../../types';
+import { FileCode, MoreVertical, ExternalLink, Trash2, AlertTriangle, Square, CheckSquare, Pin, PinOff, FolderPlus } from 'lucide-react';
+import { SKILL_KIND_LABELS, type Skill } from '../../types';
 import { deleteSkill } from '../../adapters/fs';
 import { useAppStore } from '../../store/appStore';
+import { normalizeGlobs } from '../../utils/glob';
+import { isFolderEntryFile, useFormat, useFormats, withAlpha } from '../../formats';
+import type { SearchMatch } from '../../search';
 
 interface SkillCardProps {
     skill: Skill;
+    /** Full-text matches to show as snippets while searching */
+    matches?: SearchMatch[];
+    /** Picked for bulk actions */
+    selected?: boolean;
     onClick?: () => void;
+    onToggleSelect?: () => void;
+    onOpenMatch?: (match: SearchMatch) => void;
 }
 
-/**
- * Format badge colors
- */
-const formatColors: Record<string, { bg: string; text: string; border: string }> = {
-    antigravity: {
-        bg: 'bg-purple-500/10',
-        text: 'text-purple-400',
-        border: 'border-purple-500/30',
-    },
-    cursor: {
-        bg: 'bg-blue-500/10',
-        text: 'text-blue-400',
-        border: 'border-blue-500/30',
-    },
-    claude: {
-        bg: 'bg-orange-500/10',
-        text: 'text-orange-400',
-        border: 'border-orange-500/30',
-    },
-    generic: {
-        bg: 'bg-gray-500/10',
-        text: 'text-gray-400',
-        border: 'border-gray-500/30',
-    },
-};
+function HighlightedText({ text, ranges }: Pick<SearchMatch, 'text' | 'ranges'>) {
+    const parts: React.ReactNode[] = [];
+    let at = 0;
+    ranges.forEach(([start, end], i) => {
+        if (start > at) parts.push(text.slice(at, start));
+        parts.push(<mark key={i} className="bg-accent/30 text-foreground rounded-sm">{text.slice(start, end)}</mark>);
+        at = end;
+    });
+    parts.push(text.slice(at));
+    return <>{parts}</>;
+}
 
 /**
  * SkillCard - Displays a single skill in the grid with delete menu
  */
-export function SkillCard({ skill, onClick }: SkillCardProps) {
-    const colors = formatColors[skill.format] || formatColors.generic;
+export function SkillCard({ skill, matches, selected, onClick, onToggleSelect, onOpenMatch }: SkillCardProps) {
+    const formats = useFormats();
+    const definition = useFormat(skill.format);
+    // Cursor rule activation: `globs` patterns or always-on
+    const globs = skill.format === 'cursor' ? normalizeGlobs(skill.metadata?.globs) : [];
+    const alwaysApply = skill.format === 'cursor' && skill.metadata?.alwaysApply === true;
+    const isFolderSkill = isFolderEntryFile(skill.sourcePath.split(/[/\\]/).pop() || '', formats);
     const removeSkill = useAppStore((s) => s.removeSkill);
+    const collections = useAppStore((s) => s.preferences.collections);
+    const addCollection = useAppStore((s) => s.addCollection);
+    const toggleCollectionSkill = useAppStore((s) => s.toggleCollectionSkill);
+    const manualCollections = (collections || []).filter(c => c.kind === 'manual');
 
     const [showMenu, setShowMenu] = useState(false);
     const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -91,7 +95,7 @@ export function SkillCard({ skill, onClick }: SkillCardProps) {
     return (
         <>
             <motion.div
-                className="glass-card glow-border p-5 cursor-pointer group relative"
+                className={`glass-card glow-border p-5 cursor-pointer group relative ${selected ? 'ring-2 ring-accent/60' : ''}`}
                 onClick={handleCardClick}
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
@@ -102,21 +106,44 @@ export function SkillCard({ skill, onClick }: SkillCardProps) {
                 {/* Header */}
                 <div className="flex items-start justify-between mb-3">
                     <div className="flex items-center gap-3">
-                        <div className={`p-2 rounded-lg ${colors.bg} ${colors.border} border`}>
-                            <FileCode className={`w-5 h-5 ${colors.text}`} />
+                        <div
+                            className="p-2 rounded-lg border"
+                            style={{ backgroundColor: withAlpha(definition.color, 0.1), borderColor: withAlpha(definition.color, 0.3) }}
+                        >
+                            <FileCode className="w-5 h-5" style={{ color: definition.color }} />
                         </div>
                         <div>
                             <h3 className="font-semibold text-foreground group-hover:text-accent transition-colors">
                                 {skill.title}
                             </h3>
-                            <span className={`text-xs ${colors.text} capitalize`}>
-                                {skill.format}
+                            <span className="text-xs flex items-center gap-1.5" style={{ color: definition.color }}>
+                                {definition.label}
+                                {skill.kind && skill.kind !== 'skill' && (
+                                    <span className="text-muted normal-case">· {SKILL_KIND_LABELS[skill.kind]}</span>
+                                )}
+                                {skill.parseError && (
+                                    <span title={`Frontmatter 解析失败：${skill.parseError}`}>
+                                        <AlertTriangle className="w-3 h-3 text-amber-400" />
+                                    </span>
+                                )}
                             </span>
                         </div>
                     </div>
 
-                    {/* More Options Button */}
-                    <div className="relative">
+                    {/* Selection and more options */}
+                    <div className="relative flex items-center">
+                        {onToggleSelect && (
+                            <button
+                                className={`p-1.5 rounded-lg hover:bg-accent/5 transition-all ${selected ? 'text-accent' : 'text-muted opacity-0 group-hover:opacity-100'}`}
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    onToggleSelect();
+                                }}
+                                title={selected ? '取消选择' : '选择'}
+                            >
+                                {selected ? <CheckSquare className="w-4 h-4" /> : <Square className="w-4 h-4" />}
+                            </button>
+                        )}
                         <button
                             className="p-1.5 rounded-lg opacity-0 group-hover:opacity-100 hover:bg-accent/5 transition-all"
                             onClick={handleMenuClick}
@@ -131,9 +158,33 @@ export function SkillCard({ skill, onClick }: SkillCardProps) {
                                     initial={{ opacity: 0, scale: 0.95, y: -5 }}
                                     animate={{ opacity: 1, scale: 1, y: 0 }}
                                     exit={{ opacity: 0, scale: 0.95, y: -5 }}
-                                    className="absolute right-0 top-full mt-1 z-50 min-w-[120px] bg-surface border border-border/50 rounded-xl shadow-2xl overflow-hidden"
+                                    className="absolute right-0 top-full mt-1 z-50 min-w-[160px] bg-surface border border-border/50 rounded-xl shadow-2xl overflow-hidden"
                                     onClick={(e) => e.stopPropagation()}
                                 >
+                                    {manualCollections.map((collection) => {
+                                        const isPinned = collection.skillIds.includes(skill.id);
+                                        return (
+                                            <button
+                                                key={collection.id}
+                                                onClick={() => toggleCollectionSkill(collection.id, skill.id)}
+                                                className="w-full flex items-center gap-2 px-4 py-2.5 text-sm text-foreground/80 hover:bg-accent/5 transition-colors"
+                                                title={isPinned ? '从收藏集移除' : '加入收藏集'}
+                                            >
+                                                {isPinned ? <PinOff size={14} className="text-accent" /> : <Pin size={14} />}
+                                                <span className="truncate">{collection.name}</span>
+                                            </button>
+                                        );
+                                    })}
+                                    <button
+                                        onClick={() => {
+                                            addCollection({ id: crypto.randomUUID(), name: `收藏集 ${manualCollections.length + 1}`, kind: 'manual', skillIds: [skill.id] });
+                                            setShowMenu(false);
+                                        }}
+                                        className="w-full flex items-center gap-2 px-4 py-2.5 text-sm text-foreground/80 hover:bg-accent/5 transition-colors border-b border-border/30"
+                                    >
+                                        <FolderPlus size={14} />
+                                        加入新收藏集
+                                    </button>
                                     <button
                                         onClick={handleDeleteClick}
                                         className="w-full flex items-center gap-2 px-4 py-2.5 text-sm text-red-400 hover:bg-red-500/10 transition-colors"
@@ -152,6 +203,52 @@ export function SkillCard({ skill, onClick }: SkillCardProps) {
                     {skill.description || '暂无描述'}
                 </p>
 
+                {/* Search matches */}
+                {matches && matches.length > 0 && (
+                    <div className="space-y-1 mb-4">
+                        {matches.map((match) => {
+                            const fileName = match.path.split(/[/\\]/).pop();
+                            return (
+                                <button
+                                    key={`${match.path}:${match.line}`}
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        onOpenMatch?.(match);
+                                    }}
+                                    className="w-full text-left px-2 py-1 rounded-md bg-background/40 hover:bg-accent/10 border border-border/30 transition-colors"
+                                    title={`${match.path}:${match.line}`}
+                                >
+                                    <span className="block text-[10px] text-muted font-mono truncate">
+                                        {match.path === skill.sourcePath ? '' : `${fileName} `}L{match.line}
+                                    </span>
+                                    <span className="block text-xs text-foreground/80 font-mono truncate">
+                                        <HighlightedText text={match.text} ranges={match.ranges} />
+                                    </span>
+                                </button>
+                            );
+                        })}
+                    </div>
+                )}
+
+                {/* Cursor rule scope */}
+                {(alwaysApply || globs.length > 0) && (
+                    <div className="flex flex-wrap items-center gap-1.5 mb-3">
+                        {alwaysApply && (
+                            <span className="px-1.5 py-0.5 text-[10px] font-bold rounded bg-blue-500/10 text-blue-400 border border-blue-500/20">
+                                始终应用
+                            </span>
+                        )}
+                        {globs.slice(0, 2).map((glob) => (
+                            <span key={glob} className="px-1.5 py-0.5 text-[10px] font-mono rounded bg-white/5 text-muted border border-border/50">
+                                {glob}
+                            </span>
+                        ))}
+                        {globs.length > 2 && (
+                            <span className="text-[10px] text-muted">+{globs.length - 2}</span>
+                        )}
+                    </div>
+                )}
+
                 {/* Tags */}
                 <div className="flex flex-wrap gap-2 mb-4">
                     {skill.tags.slice(0, 3).map((tag) => (
@@ -200,7 +297,11 @@ export function SkillCard({ skill, onClick }: SkillCardProps) {
                                 确认删除技能
                             </h3>
                             <p className="text-sm text-muted mb-4">
-                                将删除 <strong className="text-foreground">{skill.title}</strong> 及其所有关联文件（包括 scripts/、examples/、resources/ 文件夹）。
+                                {isFolderSkill ? (
+                                    <>将删除 <strong className="text-foreground">{skill.title}</strong> 及其所有关联文件（包括 scripts/、examples/、resources/ 文件夹）。</>
+                                ) : (
+                                    <>将删除规则文件 <strong className="text-foreground">{skill.sourcePath.split(/[/\\]/).pop()}</strong>。</>
+                                )}
                                 <br />
                                 <span className="text-red-400 font-medium">此操作无法撤销！</span>
                             </p>
@@ -0,0 +1,57 @@
+import { Hash, X } from 'lucide-react';
+import { useAppStore } from '../../store/appStore';
+import { setQualifier, toggleQualifier } from '../../search';
+import { useTagCounts } from '../../hooks/useTagCounts';
+
+/**
+ * TagSidebar - Tag list with counts; clicking a tag toggles `tag:` in the search query
+ */
+export function TagSidebar() {
+    const searchQuery = useAppStore((s) => s.searchQuery);
+    const setSearchQuery = useAppStore((s) => s.setSearchQuery);
+    const filterTags = useAppStore((s) => s.filterTags);
+    const tags = useTagCounts();
+
+    const active = new Set(filterTags.map(t => t.toLowerCase()));
+
+    return (
+        <aside className="w-56 shrink-0 border-r border-border/30 flex flex-col overflow-hidden">
+            <div className="px-5 pt-6 pb-3 flex items-center justify-between">
+                <h2 className="text-xs font-bold tracking-wider text-muted uppercase">标签</h2>
+                {active.size > 0 && (
+                    <button
+                        onClick={() => setSearchQuery(setQualifier(searchQuery, 'tag', null))}
+                        className="flex items-center gap-1 text-[10px] text-muted hover:text-foreground transition-colors"
+                        title="清除标签筛选"
+                    >
+                        <X className="w-3 h-3" />
+                        清除
+                    </button>
+                )}
+            </div>
+            <div className="flex-1 overflow-y-auto px-3 pb-6 space-y-0.5">
+                {tags.length === 0 ? (
+                    <p className="px-2 text-xs text-muted/70">
+                        暂无标签。在编辑器或批量操作中为技能添加标签。
+                    </p>
+                ) : tags.map(({ tag, count }) => {
+                    const isActive = active.has(tag.toLowerCase());
+                    return (
+                        <button
+                            key={tag}
+                            onClick={() => setSearchQuery(toggleQualifier(searchQuery, 'tag', tag))}
+                            className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm text-left transition-colors ${isActive
+                                ? 'bg-accent/15 text-accent'
+                                : 'text-foreground/70 hover:text-foreground hover:bg-accent/5'
+                                }`}
+                        >
+                            <Hash className="w-3.5 h-3.5 shrink-0 opacity-60" />
+                            <span className="flex-1 truncate">{tag}</span>
+                            <span className="text-[10px] opacity-60">{count}</span>
+                        </button>
+                    );
+                })}
+            </div>
+        </aside>
+    );
+}
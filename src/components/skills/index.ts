@@ -1,2 +1,8 @@
 export { SkillCard } from './SkillCard';
 export { CreateSkillModal } from './CreateSkillModal';
+export { ConvertSkillModal } from './ConvertSkillModal';
+export { ScanReportModal } from './ScanReportModal';
+export { SearchBox } from './SearchBox';
+export { TagSidebar } from './TagSidebar';
+export { BulkTagBar } from './BulkTagBar';
+export { CollectionBar, SaveSearchButton } from './CollectionBar';
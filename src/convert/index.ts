@@ -0,0 +1,182 @@
+import { join, dirname, basename } from '@tauri-apps/api/path';
+import { customCopyFile, customMkdir, customPathExists, customReadDir, customWriteFile, readDecodedText, readSkillFile } from '../adapters/fs';
+import { isFolderEntryFile, resolveFormat } from '../formats';
+import type { Skill, SkillFormat, SkillLibrary } from '../types';
+import { convertEntry, getTargetLayout, type ConvertOptions } from './mapping';
+
+export { convertEntry, getTargetLayout, toSkillSlug } from './mapping';
+export type { ConvertOptions, ConvertedEntry, TargetLayout } from './mapping';
+
+/** Folders carried over between formats that support bundled files */
+export const BUNDLE_DIRS = ['scripts', 'examples', 'resources'];
+
+export interface PlannedFile {
+    targetPath: string;
+    /** Path relative to the target skill folder, for display */
+    relativePath: string;
+    /** Source file copied verbatim (bundled files) */
+    sourcePath?: string;
+    /** Whether writing this file would overwrite something on disk */
+    exists: boolean;
+}
+
+/**
+ * Everything a conversion would write, computed without touching the target
+ */
+export interface ConversionPlan {
+    skill: Skill;
+    targetFormat: SkillFormat;
+    targetLibrary: SkillLibrary;
+    targetDir: string;
+    entry: PlannedFile & {
+        content: string;
+        /** Current content of the target entry file, if it already exists */
+        previousContent: string | null;
+    };
+    bundled: PlannedFile[];
+    warnings: string[];
+}
+
+async function listFilesRecursive(dir: string, depth = 0): Promise<string[]> {
+    if (depth > 8) return [];
+    const files: string[] = [];
+    for (const entry of await customReadDir(dir)) {
+        const fullPath = await join(dir, entry.name);
+        if (entry.isDirectory) {
+            files.push(...await listFilesRecursive(fullPath, depth + 1));
+        } else {
+            files.push(fullPath);
+        }
+    }
+    return files;
+}
+
+/**
+ * Build a dry-run plan for converting a skill into another format/library
+ */
+export async function planConversion(
+    skill: Skill,
+    targetLibrary: SkillLibrary,
+    targetFormat: SkillFormat,
+    options: ConvertOptions = {}
+): Promise<ConversionPlan> {
+    const sourceDir = await dirname(skill.sourcePath);
+    const isFolderSkill = isFolderEntryFile(await basename(skill.sourcePath));
+    const folderHint = isFolderSkill ? await basename(sourceDir) : null;
+
+    const converted = convertEntry(skill, targetFormat, folderHint, options);
+    const layout = getTargetLayout(targetFormat, options);
+    const warnings = [...converted.warnings];
+
+    // Don't nest `.cursor/rules` twice when the library already points there
+    const libraryParts = targetLibrary.path.split(/[/\\]/).filter(Boolean);
+    let overlap = layout.subdirectories.length;
+    while (overlap > 0 && libraryParts.slice(-overlap).join('/') !== layout.subdirectories.slice(0, overlap).join('/')) {
+        overlap--;
+    }
+    const subdirs = layout.subdirectories.slice(overlap);
+
+    let targetDir = targetLibrary.path;
+    for (const dir of subdirs) targetDir = await join(targetDir, dir);
+    if (converted.folderName) targetDir = await join(targetDir, converted.folderName);
+
+    const entryPath = await join(targetDir, converted.fileName);
+    if (entryPath === skill.sourcePath) {
+        throw new Error('目标文件与源文件相同，请选择其他技能库或格式');
+    }
+
+    const entryExists = await customPathExists(entryPath);
+    const previousContent = entryExists ? await readDecodedText(entryPath).catch(() => null) : null;
+    if (entryExists) warnings.push(`${converted.fileName} 已存在，将被覆盖`);
+
+    const bundled: PlannedFile[] = [];
+    if (isFolderSkill) {
+        const sourceFiles: string[] = [];
+        for (const dir of BUNDLE_DIRS) {
+            const bundleDir = await join(sourceDir, dir);
+            if (await customPathExists(bundleDir)) {
+                sourceFiles.push(...await listFilesRecursive(bundleDir));
+            }
+        }
+
+        if (sourceFiles.length > 0 && !layout.supportsBundles) {
+            warnings.push(`目标格式不支持附带文件，已跳过 ${sourceFiles.length} 个文件（scripts/、examples/、resources/）`);
+        } else {
+            for (const sourcePath of sourceFiles) {
+                const relativePath = sourcePath.slice(sourceDir.length + 1);
+                const targetPath = await join(targetDir, ...relativePath.split(/[/\\]/));
+                bundled.push({
+                    sourcePath,
+                    targetPath,
+                    relativePath,
+                    exists: await customPathExists(targetPath),
+                });
+            }
+        }
+    }
+
+    const overwritten = bundled.filter(file => file.exists);
+    if (overwritten.length > 0) {
+        warnings.push(`${overwritten.length} 个附带文件已存在，将被覆盖：${overwritten.map(file => file.relativePath).join(', ')}`);
+    }
+
+    return {
+        skill,
+        targetFormat,
+        targetLibrary,
+        targetDir,
+        entry: {
+            targetPath: entryPath,
+            relativePath: converted.fileName,
+            exists: entryExists,
+            content: converted.content,
+            previousContent,
+        },
+        bundled,
+        warnings,
+    };
+}
+
+/**
+ * Write a conversion plan to disk and return the newly created skill
+ */
+export async function applyConversion(plan: ConversionPlan): Promise<Skill | null> {
+    await customMkdir(plan.targetDir);
+    await customWriteFile(plan.entry.targetPath, plan.entry.content);
+
+    for (const file of plan.bundled) {
+        if (file.sourcePath) {
+            await customCopyFile(file.sourcePath, file.targetPath);
+        }
+    }
+
+    // The target layout decides the kind (Cursor rules are always-on memory)
+    return readSkillFile(plan.entry.targetPath, plan.targetFormat, resolveFormat(plan.targetFormat).layout.kind);
+}
+
+/**
+ * Copy a skill as-is into `destination`: a folder skill's whole folder, or its single file
+ * @returns Path of the exported folder or file
+ */
+export async function exportSkill(skill: Skill, destination: string): Promise<string> {
+    const sourceDir = await dirname(skill.sourcePath);
+    const isFolderSkill = isFolderEntryFile(await basename(skill.sourcePath));
+    const target = await join(destination, await basename(isFolderSkill ? sourceDir : skill.sourcePath));
+
+    if (isFolderSkill && `${destination}/`.replace(/\\/g, '/').startsWith(`${sourceDir}/`.replace(/\\/g, '/'))) {
+        throw new Error('不能导出到技能自身的文件夹中');
+    }
+    if (await customPathExists(target)) {
+        throw new Error(`${target} 已存在`);
+    }
+
+    if (!isFolderSkill) {
+        await customCopyFile(skill.sourcePath, target);
+        return target;
+    }
+    for (const file of await listFilesRecursive(sourceDir)) {
+        const relativePath = file.slice(sourceDir.length + 1);
+        await customCopyFile(file, await join(target, ...relativePath.split(/[/\\]/)));
+    }
+    return target;
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { BUILTIN_FORMATS, createCustomFormat, mergeFormats } from '../formats';
+import type { Skill } from '../types';
+import { convertEntry, getTargetLayout, toSkillSlug } from './mapping';
+
+function skill(content: string, overrides: Partial<Skill> = {}): Skill {
+    return {
+        id: 'skill-1',
+        title: 'PDF Tools',
+        description: '',
+        content,
+        tags: [],
+        sourcePath: '/lib/pdf-tools/SKILL.md',
+        format: 'antigravity',
+        kind: 'skill',
+        lastModified: 0,
+        ...overrides,
+    };
+}
+
+const wiki = {
+    ...createCustomFormat('wiki'),
+    layout: { entryPath: ['{{slug}}', 'WIKI.md'], bundleDirs: [], kind: 'skill' as const },
+    fields: [
+        { key: 'owner', label: 'Owner', type: 'text' as const },
+        { key: 'published', label: 'Published', type: 'boolean' as const },
+    ],
+};
+const formats = mergeFormats([wiki]);
+
+describe('toSkillSlug', () => {
+    it('lowercases and hyphenates, falling back for text without ASCII letters', () => {
+        expect(toSkillSlug('  PDF Tools (v2) ')).toBe('pdf-tools-v2');
+        expect(toSkillSlug('文档工具', 'docs')).toBe('docs');
+    });
+});
+
+describe('getTargetLayout', () => {
+    it('derives folders and entry names from the format layout', () => {
+        const cursor = getTargetLayout('cursor', {}, BUILTIN_FORMATS);
+        expect(cursor).toMatchObject({ usesSkillFolder: false, subdirectories: ['.cursor', 'rules'], supportsBundles: false });
+        expect(cursor.entryFileName('pdf-tools')).toBe('pdf-tools.mdc');
+
+        const claude = getTargetLayout('claude', {}, BUILTIN_FORMATS);
+        expect(claude).toMatchObject({ usesSkillFolder: true, subdirectories: [], supportsBundles: true });
+        expect(claude.entryFileName('pdf-tools')).toBe('SKILL.md');
+    });
+
+    it('writes a single .cursorrules file in legacy mode', () => {
+        expect(getTargetLayout('cursor', { legacyCursorRules: true }, BUILTIN_FORMATS).entryFileName('x')).toBe('.cursorrules');
+    });
+});
+
+describe('convertEntry', () => {
+    const source = '---\nname: PDF Tools\ndescription: Work with PDFs\ntags: [pdf]\nallowed-tools: Read\nglobs: "*.pdf"\nowner: docs\n---\n\n# PDF\n\nBody\n';
+
+    it('slugs the name for Claude and drops fields only other formats declare', () => {
+        const result = convertEntry(skill(source), 'claude', 'pdf-tools', {}, formats);
+
+        expect(result.folderName).toBe('pdf-tools');
+        expect(result.fileName).toBe('SKILL.md');
+        expect(result.content).toBe('---\nname: pdf-tools\ndescription: Work with PDFs\ntags:\n  - pdf\nallowed-tools: Read\n---\n\n# PDF\n\nBody\n');
+        expect(result.warnings).toEqual(['name 已转换为 Claude 规范：pdf-tools', 'Claude 不支持字段 globs, owner，已丢弃']);
+    });
+
+    it('keeps only the description and Cursor fields in a rule', () => {
+        const result = convertEntry(skill(source), 'cursor', 'pdf-tools', {}, formats);
+
+        expect(result.folderName).toBeNull();
+        expect(result.fileName).toBe('pdf-tools.mdc');
+        expect(result.content).toBe('---\ndescription: Work with PDFs\nglobs: "*.pdf"\nalwaysApply: false\n---\n\n# PDF\n\nBody\n');
+        expect(result.warnings).toEqual(['Cursor 规则不支持字段 name, tags, allowed-tools, owner，已丢弃']);
+    });
+
+    it('maps custom formats through their declared fields', () => {
+        const result = convertEntry(skill(source), 'wiki', 'pdf-tools', {}, formats);
+
+        expect(result.fileName).toBe('WIKI.md');
+        expect(result.content).toBe('---\nname: PDF Tools\ndescription: Work with PDFs\ntags:\n  - pdf\nowner: docs\npublished: false\n---\n\n# PDF\n\nBody\n');
+        expect(result.warnings).toEqual(['wiki 不支持字段 globs, allowed-tools，已丢弃']);
+    });
+
+    it('moves metadata into the body of a legacy .cursorrules file', () => {
+        const result = convertEntry(skill('---\nname: Demo\ndescription: Does things\n---\n# Demo\n\nBody\n'), 'cursor', null, { legacyCursorRules: true }, formats);
+
+        expect(result.content).toBe('# Demo\n\nDoes things\n\nBody\n');
+    });
+
+    it('refuses sources with invalid frontmatter', () => {
+        expect(() => convertEntry(skill('---\nname: [oops\n---\n'), 'claude', null, {}, formats)).toThrow(/frontmatter/);
+    });
+});
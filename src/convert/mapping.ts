@@ -0,0 +1,176 @@
+import { normalizeTags, parseFrontmatter, updateFrontmatter } from '../adapters/frontmatter';
+import { CLAUDE_DESCRIPTION_MAX_LENGTH, CLAUDE_NAME_MAX_LENGTH } from '../lint/rules';
+import { fillPlaceholders, getFormats, hasPlaceholder, resolveFormat, type FormatDefinition } from '../formats';
+import type { Skill, SkillFormat } from '../types';
+
+export interface ConvertOptions {
+    /** Write a legacy single `.cursorrules` file instead of a `.mdc` rule */
+    legacyCursorRules?: boolean;
+}
+
+/**
+ * Where a format keeps its entry file and whether it can carry bundled files
+ */
+export interface TargetLayout {
+    /** One folder per skill (SKILL.md style) */
+    usesSkillFolder: boolean;
+    /** Folders below the library root the entry file lives in, e.g. `.cursor/rules` */
+    subdirectories: string[];
+    /** Whether scripts/, examples/ and resources/ can be carried over */
+    supportsBundles: boolean;
+    entryFileName: (slug: string) => string;
+}
+
+/**
+ * Converted entry file for a target format
+ */
+export interface ConvertedEntry {
+    slug: string;
+    folderName: string | null;
+    fileName: string;
+    content: string;
+    warnings: string[];
+}
+
+/**
+ * Derive the target layout from the format definition's entry path
+ */
+export function getTargetLayout(
+    format: SkillFormat,
+    options: ConvertOptions = {},
+    formats: FormatDefinition[] = getFormats()
+): TargetLayout {
+    if (format === 'cursor' && options.legacyCursorRules) {
+        return { usesSkillFolder: false, subdirectories: [], supportsBundles: false, entryFileName: () => '.cursorrules' };
+    }
+
+    const { layout } = resolveFormat(format, formats);
+    const dirs = layout.entryPath.slice(0, -1);
+    const entryFile = layout.entryPath[layout.entryPath.length - 1];
+    // The first placeholder folder is the per-skill folder; everything above it is fixed
+    const folderIndex = dirs.findIndex(hasPlaceholder);
+
+    return {
+        usesSkillFolder: folderIndex >= 0,
+        subdirectories: folderIndex >= 0 ? dirs.slice(0, folderIndex) : dirs,
+        supportsBundles: layout.bundleDirs.length > 0,
+        entryFileName: (slug) => fillPlaceholders(entryFile, slug),
+    };
+}
+
+/**
+ * Turn a display name into a lowercase-hyphenated identifier
+ */
+export function toSkillSlug(text: string, fallback = 'converted-skill'): string {
+    const slug = text
+        .normalize('NFKD')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, CLAUDE_NAME_MAX_LENGTH)
+        .replace(/-+$/, '');
+    return slug || fallback;
+}
+
+function omitKeys(data: Record<string, unknown>, keys: string[]): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(data).filter(([key]) => !keys.includes(key)));
+}
+
+function pickKeys(data: Record<string, unknown>, keys: string[]): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(data).filter(([key]) => keys.includes(key)));
+}
+
+function droppedWarning(data: Record<string, unknown>, keys: string[], target: string): string[] {
+    const dropped = keys.filter(key => data[key] !== undefined);
+    return dropped.length > 0 ? [`${target} 不支持字段 ${dropped.join(', ')}，已丢弃`] : [];
+}
+
+/**
+ * Map a skill's entry file onto the target format
+ * Keys the target declares in its `fields` are kept; keys only other formats declare are dropped.
+ * @param folderHint - Source folder name, used for slugs when the title has no ASCII characters
+ */
+export function convertEntry(
+    skill: Skill,
+    target: SkillFormat,
+    folderHint: string | null,
+    options: ConvertOptions = {},
+    formats: FormatDefinition[] = getFormats()
+): ConvertedEntry {
+    const fm = parseFrontmatter(skill.content);
+    if (fm.error) {
+        throw new Error(`源文件 frontmatter 无法解析：${fm.error}`);
+    }
+
+    const data = fm.data;
+    const name = String(data.name ?? skill.title).trim();
+    const description = String(data.description ?? (skill.description === '暂无描述' ? '' : skill.description)).trim();
+    const tags = normalizeTags(data.tags);
+    const extra = omitKeys(data, ['name', 'description', 'tags']);
+    const body = fm.body.replace(/^\s*\n/, '');
+
+    const slug = toSkillSlug(name, folderHint ? toSkillSlug(folderHint) : undefined);
+    const layout = getTargetLayout(target, options, formats);
+    const definition = resolveFormat(target, formats);
+    const ownKeys = definition.fields.map(field => field.key);
+    const foreignKeys = [...new Set(formats
+        .filter(f => f.id !== definition.id)
+        .flatMap(f => f.fields.map(field => field.key))
+        .filter(key => !ownKeys.includes(key)))];
+    const kept = omitKeys(extra, foreignKeys);
+    // Switches the target declares start out off, as in its template
+    definition.fields
+        .filter(field => field.type === 'boolean' && typeof kept[field.key] !== 'boolean')
+        .forEach(field => { kept[field.key] = false; });
+    const warnings: string[] = [];
+
+    let frontmatter: Record<string, unknown> | null;
+    let outBody = body;
+    let folderName: string | null = null;
+
+    switch (target) {
+        case 'claude': {
+            if (slug !== name) warnings.push(`name 已转换为 Claude 规范：${slug}`);
+            let desc = description;
+            if (desc.length > CLAUDE_DESCRIPTION_MAX_LENGTH) {
+                desc = desc.slice(0, CLAUDE_DESCRIPTION_MAX_LENGTH);
+                warnings.push(`description 超过 ${CLAUDE_DESCRIPTION_MAX_LENGTH} 字符，已截断`);
+            }
+            warnings.push(...droppedWarning(data, foreignKeys, definition.label));
+            frontmatter = { name: slug, description: desc, tags, ...kept };
+            folderName = slug;
+            break;
+        }
+        case 'cursor': {
+            if (options.legacyCursorRules) {
+                if (Object.keys(data).length > 0) warnings.push('.cursorrules 不支持 frontmatter，元数据已写入正文');
+                frontmatter = null;
+                outBody = `# ${name}\n\n${description ? description + '\n\n' : ''}${body.replace(/^#\s+.+\n+/, '')}`;
+            } else {
+                // Rules only carry a description and the fields Cursor declares
+                const dropped = Object.keys(omitKeys(data, ['description', ...ownKeys]));
+                if (dropped.length > 0) warnings.push(`Cursor 规则不支持字段 ${dropped.join(', ')}，已丢弃`);
+                frontmatter = { description, ...pickKeys(kept, ownKeys) };
+                // Keep the title visible since .mdc has no name field
+                if (!/^#\s+/m.test(body)) outBody = `# ${name}\n\n${body}`;
+            }
+            break;
+        }
+        default: {
+            warnings.push(...droppedWarning(data, foreignKeys, definition.label));
+            frontmatter = { name, description, tags, ...kept };
+            folderName = folderHint || name.replace(/[<>:"/\\|?*]/g, '-');
+            break;
+        }
+    }
+
+    const content = frontmatter ? updateFrontmatter(outBody, frontmatter) : outBody;
+
+    return {
+        slug,
+        folderName: layout.usesSkillFolder ? folderName : null,
+        fileName: layout.entryFileName(slug),
+        content,
+        warnings,
+    };
+}
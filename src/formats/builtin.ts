@@ -0,0 +1,96 @@
+import type { FormatDefinition } from './types';
+
+const BUNDLE_DIRS = ['scripts', 'examples', 'resources'];
+
+const SKILL_TEMPLATE = `---
+name: "{{name}}"
+description: "在这里输入技能描述"
+---
+
+# {{name}}
+
+## 概述
+这是一个新创建的技能。
+
+## 使用方法
+在这里描述如何使用此技能。
+`;
+
+export const BUILTIN_FORMATS: FormatDefinition[] = [
+    {
+        id: 'antigravity',
+        label: 'Antigravity',
+        color: '#a855f7',
+        entries: [
+            { file: 'SKILL.md', kind: 'skill', ownsFolder: true },
+        ],
+        dotDirs: ['.agent'],
+        detectKeywords: ['antigravity', '.agent'],
+        layout: { entryPath: ['{{name}}', 'SKILL.md'], bundleDirs: BUNDLE_DIRS, kind: 'skill' },
+        fields: [],
+        template: SKILL_TEMPLATE,
+        builtin: true,
+    },
+    {
+        id: 'cursor',
+        label: 'Cursor',
+        color: '#3b82f6',
+        entries: [
+            { file: '.cursorrules', kind: 'memory' },
+            { file: '*.mdc', parentDir: '.cursor/rules', nested: true, kind: 'memory' },
+        ],
+        dotDirs: ['.cursor'],
+        detectKeywords: ['cursor'],
+        layout: { entryPath: ['.cursor', 'rules', '{{slug}}.mdc'], bundleDirs: [], kind: 'memory' },
+        fields: [
+            { key: 'globs', label: '匹配文件 (globs)', type: 'list', placeholder: 'src/**/*.ts' },
+            { key: 'alwaysApply', label: '始终应用', type: 'boolean' },
+        ],
+        template: `---
+description: "在这里输入技能描述"
+globs: ""
+alwaysApply: false
+---
+
+# {{name}}
+
+在这里描述如何使用此技能。
+`,
+        builtin: true,
+    },
+    {
+        id: 'claude',
+        label: 'Claude',
+        color: '#f97316',
+        entries: [
+            { file: 'SKILL.md', kind: 'skill', ownsFolder: true },
+            { file: 'CLAUDE.md', kind: 'memory' },
+            { file: 'CLAUDE.local.md', kind: 'memory' },
+            { file: '*.md', parentDir: '.claude/commands', nested: true, kind: 'command' },
+            { file: '*.md', parentDir: '.claude/agents', kind: 'agent' },
+        ],
+        dotDirs: ['.claude'],
+        detectKeywords: ['claude'],
+        layout: { entryPath: ['{{slug}}', 'SKILL.md'], bundleDirs: BUNDLE_DIRS, kind: 'skill' },
+        fields: [
+            { key: 'allowed-tools', label: '允许的工具', type: 'list', placeholder: 'Read, Grep, Bash' },
+            { key: 'license', label: '许可证', type: 'text' },
+        ],
+        template: SKILL_TEMPLATE.replace('name: "{{name}}"', 'name: {{slug}}'),
+        builtin: true,
+    },
+    {
+        id: 'generic',
+        label: 'Generic',
+        color: '#6b7280',
+        entries: [
+            { file: 'SKILL.md', kind: 'skill', ownsFolder: true },
+        ],
+        dotDirs: [],
+        detectKeywords: [],
+        layout: { entryPath: ['{{name}}', 'SKILL.md'], bundleDirs: BUNDLE_DIRS, kind: 'skill' },
+        fields: [],
+        template: SKILL_TEMPLATE,
+        builtin: true,
+    },
+];
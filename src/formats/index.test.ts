@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import {
+    BUILTIN_FORMATS,
+    createCustomFormat,
+    detectFormatFromPath,
+    fillPlaceholders,
+    getScannedDotDirs,
+    hasPlaceholder,
+    isFolderEntryFile,
+    matchEntryFile,
+    mergeFormats,
+    resolveFormat,
+} from './index';
+
+describe('mergeFormats', () => {
+    it('appends custom formats and lets them replace built-in ones by id', () => {
+        const custom = { ...BUILTIN_FORMATS.find(f => f.id === 'cursor')!, label: 'My Cursor', builtin: true };
+        const merged = mergeFormats([custom, createCustomFormat('wiki')]);
+
+        expect(merged.map(f => f.id)).toEqual(['antigravity', 'cursor', 'claude', 'generic', 'wiki']);
+        expect(merged[1]).toMatchObject({ label: 'My Cursor', builtin: false });
+    });
+});
+
+describe('resolveFormat', () => {
+    it('returns a known definition', () => {
+        expect(resolveFormat('claude', BUILTIN_FORMATS).label).toBe('Claude');
+    });
+
+    it('synthesizes a SKILL.md-folder format for unknown ids', () => {
+        const resolved = resolveFormat('windsurf', BUILTIN_FORMATS);
+
+        expect(resolved).toMatchObject({ id: 'windsurf', label: 'windsurf', builtin: false });
+        expect(resolved.entries).toEqual(BUILTIN_FORMATS.find(f => f.id === 'generic')!.entries);
+        expect(resolved.color).toMatch(/^#[0-9a-f]{6}$/);
+        expect(resolveFormat('windsurf', BUILTIN_FORMATS).color).toBe(resolved.color);
+    });
+});
+
+describe('detectFormatFromPath', () => {
+    it('guesses from folder keywords', () => {
+        expect(detectFormatFromPath('/home/me/.claude/skills', BUILTIN_FORMATS)).toBe('claude');
+        expect(detectFormatFromPath('/work/project/.agent/skills', BUILTIN_FORMATS)).toBe('antigravity');
+        expect(detectFormatFromPath('/work/notes', BUILTIN_FORMATS)).toBeNull();
+        expect(detectFormatFromPath('/work/wiki-skills', mergeFormats([createCustomFormat('wiki')]))).toBe('wiki');
+    });
+});
+
+describe('matchEntryFile', () => {
+    const match = (dir: string, file: string, libraryFormat = 'generic') => matchEntryFile(dir, file, libraryFormat, BUILTIN_FORMATS);
+
+    it('finds Cursor rules only below .cursor/rules, including sub-folders', () => {
+        expect(match('/repo/.cursor/rules', 'style.mdc')).toEqual({ format: 'cursor', kind: 'memory', ownsFolder: false });
+        expect(match('/repo/.cursor/rules/frontend', 'react.MDC')).toEqual({ format: 'cursor', kind: 'memory', ownsFolder: false });
+        expect(match('/repo/docs', 'notes.mdc')).toBeNull();
+        expect(match('/repo/.cursor', 'style.mdc')).toBeNull();
+        expect(match('C:\\repo\\.cursor\\rules', 'style.mdc')).toMatchObject({ format: 'cursor' });
+    });
+
+    it('keeps legacy .cursorrules files anywhere', () => {
+        expect(match('/repo', '.cursorrules')).toMatchObject({ format: 'cursor', kind: 'memory' });
+    });
+
+    it('tries the library\'s own format first for shared entry names', () => {
+        expect(match('/lib/pdf', 'SKILL.md', 'claude')).toEqual({ format: 'claude', kind: 'skill', ownsFolder: true });
+        expect(match('/lib/pdf', 'SKILL.md', 'antigravity')).toMatchObject({ format: 'antigravity' });
+    });
+});
+
+describe('isFolderEntryFile', () => {
+    it('only treats folder-owning entries as folder skills', () => {
+        expect(isFolderEntryFile('SKILL.md', BUILTIN_FORMATS)).toBe(true);
+        expect(isFolderEntryFile('skill.md', BUILTIN_FORMATS)).toBe(true);
+        expect(isFolderEntryFile('CLAUDE.md', BUILTIN_FORMATS)).toBe(false);
+    });
+});
+
+describe('getScannedDotDirs', () => {
+    it('collects every format\'s hidden folders', () => {
+        expect([...getScannedDotDirs(BUILTIN_FORMATS)].sort()).toEqual(['.agent', '.claude', '.cursor']);
+    });
+});
+
+describe('fillPlaceholders', () => {
+    it('fills the name and a lowercase-hyphenated slug', () => {
+        expect(fillPlaceholders('{{name}}/{{slug}}.mdc', 'PDF Tools')).toBe('PDF Tools/pdf-tools.mdc');
+        expect(fillPlaceholders('{{slug}}', '文档')).toBe('new-skill');
+        expect(hasPlaceholder('{{slug}}.mdc')).toBe(true);
+        expect(hasPlaceholder('rules')).toBe(false);
+    });
+});
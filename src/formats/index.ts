@@ -0,0 +1,175 @@
+import { useMemo } from 'react';
+import { useAppStore } from '../store/appStore';
+import type { SkillFormat, SkillKind } from '../types';
+import { BUILTIN_FORMATS } from './builtin';
+import type { EntryPattern, FormatDefinition } from './types';
+
+export type { EntryPattern, FormatDefinition, FormatLayout, FrontmatterField, FrontmatterFieldType } from './types';
+export { BUILTIN_FORMATS } from './builtin';
+
+/**
+ * Merge user-defined formats over the built-in ones (same id replaces)
+ */
+export function mergeFormats(custom: FormatDefinition[] = []): FormatDefinition[] {
+    const result = [...BUILTIN_FORMATS];
+    custom.forEach(def => {
+        const index = result.findIndex(f => f.id === def.id);
+        if (index >= 0) result[index] = { ...def, builtin: false };
+        else result.push(def);
+    });
+    return result;
+}
+
+/**
+ * All formats known right now, for use outside React
+ */
+export function getFormats(): FormatDefinition[] {
+    return mergeFormats(useAppStore.getState().preferences.customFormats);
+}
+
+export function useFormats(): FormatDefinition[] {
+    const custom = useAppStore(s => s.preferences.customFormats);
+    return useMemo(() => mergeFormats(custom), [custom]);
+}
+
+/**
+ * Look up a format, synthesizing a SKILL.md-folder definition for labels
+ * that were typed in before they had a definition of their own
+ */
+export function resolveFormat(id: SkillFormat, formats: FormatDefinition[] = getFormats()): FormatDefinition {
+    const found = formats.find(f => f.id === id);
+    if (found) return found;
+
+    const generic = BUILTIN_FORMATS.find(f => f.id === 'generic')!;
+    return { ...generic, id, label: id, color: colorFromText(id), builtin: false };
+}
+
+export function useFormat(id: SkillFormat): FormatDefinition {
+    const formats = useFormats();
+    return useMemo(() => resolveFormat(id, formats), [id, formats]);
+}
+
+/**
+ * A blank definition for a new custom format
+ */
+export function createCustomFormat(id: string): FormatDefinition {
+    const generic = BUILTIN_FORMATS.find(f => f.id === 'generic')!;
+    return {
+        ...generic,
+        id,
+        label: id,
+        color: colorFromText(id),
+        detectKeywords: [id.toLowerCase()],
+        builtin: false,
+    };
+}
+
+/**
+ * Guess a library's format from its folder path using each format's keywords
+ */
+export function detectFormatFromPath(path: string, formats: FormatDefinition[] = getFormats()): SkillFormat | null {
+    const lower = path.toLowerCase();
+    const match = formats.find(f => f.detectKeywords.some(keyword => keyword && lower.includes(keyword.toLowerCase())));
+    return match ? match.id : null;
+}
+
+/**
+ * Hidden folders any format wants scanned
+ */
+export function getScannedDotDirs(formats: FormatDefinition[] = getFormats()): Set<string> {
+    return new Set(formats.flatMap(f => f.dotDirs));
+}
+
+export interface EntryMatch {
+    format: SkillFormat;
+    kind: SkillKind;
+    ownsFolder: boolean;
+}
+
+/**
+ * Decide whether a file is a skill entry, trying the library's own format first
+ */
+export function matchEntryFile(
+    dirPath: string,
+    fileName: string,
+    libraryFormat: SkillFormat,
+    formats: FormatDefinition[] = getFormats()
+): EntryMatch | null {
+    const ordered = [resolveFormat(libraryFormat, formats), ...formats.filter(f => f.id !== libraryFormat)];
+
+    for (const def of ordered) {
+        const entry = def.entries.find(e => matchesEntry(e, dirPath, fileName));
+        if (entry) return { format: def.id, kind: entry.kind, ownsFolder: !!entry.ownsFolder };
+    }
+    return null;
+}
+
+/**
+ * Whether a file name is an entry that owns its whole folder (SKILL.md)
+ */
+export function isFolderEntryFile(fileName: string, formats: FormatDefinition[] = getFormats()): boolean {
+    return formats.some(f => f.entries.some(e => e.ownsFolder && wildcardToRegex(e.file).test(fileName)));
+}
+
+function matchesEntry(entry: EntryPattern, dirPath: string, fileName: string): boolean {
+    if (!wildcardToRegex(entry.file).test(fileName)) return false;
+    if (!entry.parentDir) return true;
+
+    const dir = dirPath.replace(/\\/g, '/').replace(/\/+$/, '');
+    const parent = entry.parentDir.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+    if (dir === parent || dir.endsWith(`/${parent}`)) return true;
+    return !!entry.nested && (dir.startsWith(`${parent}/`) || dir.includes(`/${parent}/`));
+}
+
+function wildcardToRegex(pattern: string): RegExp {
+    const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * Fill `{{name}}` / `{{slug}}` placeholders in a layout segment or template
+ */
+export function fillPlaceholders(text: string, name: string): string {
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'new-skill';
+    return text.replace(/\{\{name\}\}/g, name).replace(/\{\{slug\}\}/g, slug);
+}
+
+export function hasPlaceholder(segment: string): boolean {
+    return /\{\{(name|slug)\}\}/.test(segment);
+}
+
+/**
+ * Inline badge colors; Tailwind can't generate classes for user-picked colors
+ */
+export function formatBadgeStyle(color: string): { color: string; backgroundColor: string; borderColor: string } {
+    return {
+        color,
+        backgroundColor: withAlpha(color, 0.2),
+        borderColor: withAlpha(color, 0.3),
+    };
+}
+
+export function withAlpha(hex: string, alpha: number): string {
+    const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+    if (!match) return hex;
+    const value = parseInt(match[1], 16);
+    return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+}
+
+function colorFromText(text: string): string {
+    let hash = 0;
+    for (let i = 0; i < text.length; i++) {
+        hash = text.charCodeAt(i) + ((hash << 5) - hash);
+    }
+    return hslToHex(Math.abs(hash) % 360, 0.65, 0.6);
+}
+
+function hslToHex(h: number, s: number, l: number): string {
+    const a = s * Math.min(l, 1 - l);
+    const channel = (n: number) => {
+        const k = (n + h / 30) % 12;
+        const value = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+        return Math.round(value * 255).toString(16).padStart(2, '0');
+    };
+    return `#${channel(0)}${channel(8)}${channel(4)}`;
+}
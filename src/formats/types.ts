@@ -0,0 +1,63 @@
+import type { SkillKind } from '../types';
+
+export type FrontmatterFieldType = 'text' | 'textarea' | 'list' | 'boolean';
+
+/**
+ * A frontmatter key shown in the Editor's metadata form
+ */
+export interface FrontmatterField {
+    key: string;
+    label: string;
+    type: FrontmatterFieldType;
+    placeholder?: string;
+}
+
+/**
+ * A file the scanner recognizes as a skill entry
+ */
+export interface EntryPattern {
+    /** File name, case-insensitive, `*` wildcards allowed (e.g. `SKILL.md`, `*.mdc`) */
+    file: string;
+    /** Required parent folder suffix, e.g. `.claude/agents` */
+    parentDir?: string;
+    /** Also match files in sub-folders of `parentDir` (namespaced commands) */
+    nested?: boolean;
+    kind: SkillKind;
+    /** The entry's folder is the skill: the scanner does not descend further */
+    ownsFolder?: boolean;
+}
+
+/**
+ * Where new entries of this format are created
+ */
+export interface FormatLayout {
+    /** Segments below the library root; `{{name}}` is the sanitized name, `{{slug}}` the lowercase-hyphenated one */
+    entryPath: string[];
+    /** Folders created next to the entry and carried over on conversion */
+    bundleDirs: string[];
+    /** Kind of the created entry */
+    kind: SkillKind;
+}
+
+/**
+ * Declarative description of a skill ecosystem
+ * Built-in formats and user-defined ones from Settings share this shape,
+ * so it must stay JSON-serializable.
+ */
+export interface FormatDefinition {
+    id: string;
+    label: string;
+    /** Hex color used for badges */
+    color: string;
+    entries: EntryPattern[];
+    /** Hidden folders the scanner descends into */
+    dotDirs: string[];
+    /** Folder-name keywords used to guess this format for a new library */
+    detectKeywords: string[];
+    layout: FormatLayout;
+    /** Format-specific frontmatter fields, on top of name/description/tags/version */
+    fields: FrontmatterField[];
+    /** Content of a newly created entry; `{{name}}` and `{{slug}}` are replaced */
+    template: string;
+    builtin?: boolean;
+}
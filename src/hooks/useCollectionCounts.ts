@@ -0,0 +1,18 @@
+import { useMemo } from 'react';
+import { collectionSkills, useAppStore } from '../store/appStore';
+import { useSearchIndexVersion } from '../search';
+
+/**
+ * Live number of skills in each collection, by collection id
+ */
+export function useCollectionCounts(): Map<string, number> {
+    const skills = useAppStore((s) => s.skills);
+    const libraries = useAppStore((s) => s.preferences.libraries);
+    const collections = useAppStore((s) => s.preferences.collections);
+    const version = useSearchIndexVersion();
+
+    return useMemo(
+        () => new Map((collections || []).map(c => [c.id, collectionSkills(c, skills, libraries).length])),
+        [collections, skills, libraries, version]
+    );
+}
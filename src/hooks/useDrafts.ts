@@ -0,0 +1,37 @@
+import { useEffect, useRef } from 'react';
+import { useAppStore, isTabDirty } from '../store/appStore';
+import { removeDrafts, saveDrafts } from '../adapters/drafts';
+
+// Keystrokes arrive in bursts; write drafts once typing pauses
+const DRAFT_DELAY_MS = 1000;
+
+/**
+ * Mirror unsaved Editor tabs into drafts on disk
+ * Tabs that are saved, reverted or closed drop their draft; drafts from earlier
+ * sessions are left for the recovery dialog.
+ */
+export function useDrafts() {
+    const editorTabs = useAppStore(s => s.editorTabs);
+    // Content of each draft written this session
+    const written = useRef(new Map<string, string>());
+
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            const dirty = editorTabs.filter(isTabDirty);
+            const dirtyPaths = new Set(dirty.map(t => t.path));
+            const changed = dirty.filter(t => written.current.get(t.path) !== t.content);
+            const stale = [...written.current.keys()].filter(path => !dirtyPaths.has(path));
+
+            if (changed.length > 0) {
+                const savedAt = Date.now();
+                saveDrafts(changed.map(({ path, skillId, content }) => ({ path, skillId, content, savedAt })));
+                changed.forEach(t => written.current.set(t.path, t.content));
+            }
+            if (stale.length > 0) {
+                removeDrafts(stale);
+                stale.forEach(path => written.current.delete(path));
+            }
+        }, DRAFT_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [editorTabs]);
+}
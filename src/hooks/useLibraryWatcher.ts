@@ -0,0 +1,152 @@
+import { useEffect } from 'react';
+import { listen } from '@tauri-apps/api/event';
+import { useAppStore } from '../store/appStore';
+import { FS_CHANGE_EVENT, isGitignoredPath, readSkillFile, watchLibraries, type FsChangeEvent } from '../adapters/fs';
+import { getFormats, getScannedDotDirs, isFolderEntryFile, matchEntryFile } from '../formats';
+import { matchesAnyGlob } from '../utils/glob';
+import { createScanReport, getScanConfig, useSkillScanner } from './useSkillScanner';
+
+// Editors emit bursts of events per save; each path is applied once it settles
+const SETTLE_DELAY_MS = 150;
+
+function normalizePath(path: string): string {
+    return path.replace(/\\/g, '/').replace(/\/+$/, '');
+}
+
+function isInside(path: string, dir: string): boolean {
+    return path === dir || path.startsWith(`${dir}/`);
+}
+
+function parentOf(path: string): string {
+    return path.slice(0, path.lastIndexOf('/'));
+}
+
+/**
+ * Keep the store in sync with changes made outside the app (other editors, agent tools)
+ * Changes are applied incrementally through addSkill/updateSkill/removeSkill,
+ * so the dashboard never has to clear and rescan.
+ */
+export function useLibraryWatcher() {
+    const libraries = useAppStore(s => s.preferences.libraries);
+    const { scanDirectory } = useSkillScanner();
+
+    const watchedPaths = (libraries || []).filter(l => l.isActive).map(l => l.path).join('\n');
+
+    // Keep the Rust side watching exactly the active libraries
+    useEffect(() => {
+        watchLibraries(watchedPaths ? watchedPaths.split('\n') : []).catch(err => {
+            console.warn('Failed to watch libraries:', err);
+        });
+    }, [watchedPaths]);
+
+    useEffect(() => {
+        const applyChange = async (event: FsChangeEvent) => {
+            const path = normalizePath(event.path);
+            const { preferences } = useAppStore.getState();
+
+            // Nested libraries: the deepest root wins
+            const library = preferences.libraries
+                .filter(l => l.isActive && isInside(path, normalizePath(l.path)))
+                .sort((a, b) => b.path.length - a.path.length)[0];
+            if (!library) return;
+
+            if (event.kind === 'delete') {
+                // A deleted folder takes every skill below it along
+                const { skills, removeSkill } = useAppStore.getState();
+                skills
+                    .filter(s => isInside(normalizePath(s.sourcePath), path))
+                    .forEach(s => removeSkill(s.id));
+                return;
+            }
+
+            // Reads that fail here show up in the scan report like scan failures do
+            const recordReadFailure = (err: unknown) => useAppStore.getState().mergeScanReport({
+                ...createScanReport(library, path),
+                failed: [{ path: event.path, reason: 'readFile', detail: String(err) }],
+            });
+
+            const formats = getFormats();
+            const config = getScanConfig(library);
+            const dotDirs = getScannedDotDirs(formats);
+            const segments = path.slice(normalizePath(library.path).length + 1).split('/').filter(Boolean);
+            const dirSegments = event.isDir ? segments : segments.slice(0, -1);
+            if (dirSegments.length > config.maxDepth) return;
+            if (dirSegments.some(segment => segment.startsWith('.') && !dotDirs.has(segment))) return;
+            // An excluded folder hides everything below it, as in the scanner
+            if (segments.some((_, i) => matchesAnyGlob(segments.slice(0, i + 1).join('/'), config.exclude))) return;
+            if (config.respectGitignore && await isGitignoredPath(library.path, event.path)) return;
+
+            // Files inside a folder skill belong to that skill; the scanner only descends
+            // into it when nested skills are allowed
+            const owner = useAppStore.getState().skills.find(s => {
+                const entryPath = normalizePath(s.sourcePath);
+                return entryPath !== path
+                    && isFolderEntryFile(entryPath.slice(entryPath.lastIndexOf('/') + 1), formats)
+                    && isInside(path, parentOf(entryPath));
+            });
+            if (owner && (!config.allowNested || (!event.isDir && parentOf(normalizePath(owner.sourcePath)) === parentOf(path)))) return;
+
+            if (event.isDir) {
+                // Folders copied in at once may not report each file they contain
+                if (event.kind === 'create') await scanDirectory(event.path, library, dirSegments.length);
+                return;
+            }
+
+            const existing = useAppStore.getState().skills.find(s => normalizePath(s.sourcePath) === path);
+            if (existing) {
+                const fresh = await readSkillFile(event.path, existing.format, existing.kind, recordReadFailure);
+                if (!fresh || fresh.content === existing.content) return;
+                useAppStore.getState().updateSkill(existing.id, {
+                    title: fresh.title,
+                    description: fresh.description,
+                    content: fresh.content,
+                    tags: fresh.tags,
+                    metadata: fresh.metadata,
+                    parseError: fresh.parseError,
+                    lastModified: fresh.lastModified,
+                });
+                return;
+            }
+
+            if (config.include.length > 0 && !matchesAnyGlob(segments.join('/'), config.include)) return;
+            const match = matchEntryFile(parentOf(path), segments[segments.length - 1], library.format, formats);
+            if (!match) return;
+
+            const skill = await readSkillFile(event.path, match.format, match.kind, recordReadFailure);
+            if (!skill) return;
+            if (skill.parseError) {
+                useAppStore.getState().mergeScanReport({
+                    ...createScanReport(library, path),
+                    failed: [{ path: event.path, reason: 'frontmatter', detail: skill.parseError }],
+                });
+            }
+
+            const { skills, addSkill, removeSkill } = useAppStore.getState();
+            if (match.ownsFolder) {
+                // The folder just became one skill; standalone entries in it no longer count
+                skills
+                    .filter(s => config.allowNested
+                        ? parentOf(normalizePath(s.sourcePath)) === parentOf(path)
+                        : isInside(normalizePath(s.sourcePath), parentOf(path)))
+                    .forEach(s => removeSkill(s.id));
+            }
+            addSkill(skill);
+        };
+
+        const pending = new Map<string, ReturnType<typeof setTimeout>>();
+        const unlisten = listen<FsChangeEvent>(FS_CHANGE_EVENT, ({ payload }) => {
+            // The last event for a path wins (create + modify → modify, modify + delete → delete)
+            const key = normalizePath(payload.path);
+            clearTimeout(pending.get(key));
+            pending.set(key, setTimeout(() => {
+                pending.delete(key);
+                applyChange(payload).catch(err => console.error(`Failed to apply change to ${payload.path}`, err));
+            }, SETTLE_DELAY_MS));
+        });
+
+        return () => {
+            unlisten.then(stop => stop());
+            pending.forEach(timer => clearTimeout(timer));
+        };
+    }, [scanDirectory]);
+}
@@ -0,0 +1,126 @@
+import { useEffect, useRef } from 'react';
+import { listen } from '@tauri-apps/api/event';
+import { useAppStore } from '../store/appStore';
+import { FS_CHANGE_EVENT, readDecodedText, readSkillBundles, type FsChangeEvent } from '../adapters/fs';
+import { getFormats, isFolderEntryFile } from '../formats';
+import { notifySearchIndexChanged, searchIndex } from '../search';
+import type { Skill } from '../types';
+
+// Bundles are read in chunks so one IPC reply stays reasonably small
+const BUNDLE_BATCH_SIZE = 50;
+const SETTLE_DELAY_MS = 300;
+
+function normalizePath(path: string): string {
+    return path.replace(/\\/g, '/');
+}
+
+function folderOf(path: string): string {
+    const normalized = normalizePath(path);
+    return normalized.slice(0, normalized.lastIndexOf('/'));
+}
+
+function isFolderSkill(skill: Skill): boolean {
+    return isFolderEntryFile(skill.sourcePath.split(/[/\\]/).pop() || '', getFormats());
+}
+
+function indexSkillText(skill: Skill): void {
+    searchIndex.set({
+        skillId: skill.id,
+        path: skill.sourcePath,
+        field: 'meta',
+        text: [skill.title, skill.description, ...skill.tags].join('\n'),
+    });
+    searchIndex.set({ skillId: skill.id, path: skill.sourcePath, field: 'entry', text: skill.content });
+}
+
+/**
+ * Keep the full-text index in sync with the loaded skills and their bundled files
+ * Entry files come from the store; text files in skill folders are read natively
+ * and refreshed from watcher events (the store ignores them).
+ */
+export function useSearchIndex() {
+    const skills = useAppStore(s => s.skills);
+    const indexed = useRef(new Map<string, Skill>());
+
+    useEffect(() => {
+        const previous = indexed.current;
+        const current = new Map(skills.map(skill => [skill.id, skill]));
+        const needBundles: Skill[] = [];
+
+        previous.forEach((_, id) => {
+            if (!current.has(id)) searchIndex.removeSkill(id);
+        });
+        current.forEach((skill, id) => {
+            const before = previous.get(id);
+            if (before === skill) return;
+            indexSkillText(skill);
+            if (!before || before.sourcePath !== skill.sourcePath) {
+                searchIndex.removeSkill(id, doc => doc.field === 'bundle');
+                if (isFolderSkill(skill)) needBundles.push(skill);
+            }
+        });
+        indexed.current = current;
+        notifySearchIndexChanged();
+
+        // Not cancelled on re-run: the skills are already marked indexed, and stale
+        // results are filtered out below
+        (async () => {
+            for (let i = 0; i < needBundles.length; i += BUNDLE_BATCH_SIZE) {
+                const batch = needBundles.slice(i, i + BUNDLE_BATCH_SIZE);
+                const files = await readSkillBundles(batch.map(s => s.sourcePath)).catch(err => {
+                    console.warn('Failed to read skill bundles for search:', err);
+                    return [];
+                });
+                files.forEach(file => {
+                    // Skip skills that moved or went away while reading
+                    const skill = batch.find(s => s.sourcePath === file.entry);
+                    if (!skill || indexed.current.get(skill.id)?.sourcePath !== file.entry) return;
+                    searchIndex.set({ skillId: skill.id, path: file.path, field: 'bundle', text: file.content });
+                });
+                notifySearchIndexChanged();
+            }
+        })();
+    }, [skills]);
+
+    useEffect(() => {
+        // Same rules as read_skill_bundles: hidden files and folders are left out
+        const owningSkills = (path: string) => [...indexed.current.values()].filter(skill => {
+            const folder = `${folderOf(skill.sourcePath)}/`;
+            const normalized = normalizePath(path);
+            return skill.sourcePath !== path && isFolderSkill(skill) && normalized.startsWith(folder)
+                && !normalized.slice(folder.length).split('/').some(part => part.startsWith('.'));
+        });
+
+        const applyChange = async (event: FsChangeEvent) => {
+            if (event.isDir) return;
+            const owners = owningSkills(event.path);
+            if (owners.length === 0) return;
+
+            const content = event.kind === 'delete'
+                ? null
+                : await readDecodedText(event.path).catch(() => null);
+            owners.forEach(skill => {
+                if (content === null) {
+                    searchIndex.removeFile(skill.id, event.path);
+                } else {
+                    searchIndex.set({ skillId: skill.id, path: event.path, field: 'bundle', text: content });
+                }
+            });
+            notifySearchIndexChanged();
+        };
+
+        const pending = new Map<string, ReturnType<typeof setTimeout>>();
+        const unlisten = listen<FsChangeEvent>(FS_CHANGE_EVENT, ({ payload }) => {
+            clearTimeout(pending.get(payload.path));
+            pending.set(payload.path, setTimeout(() => {
+                pending.delete(payload.path);
+                applyChange(payload).catch(err => console.warn(`Failed to index ${payload.path}`, err));
+            }, SETTLE_DELAY_MS));
+        });
+
+        return () => {
+            unlisten.then(stop => stop());
+            pending.forEach(timer => clearTimeout(timer));
+        };
+    }, []);
+}
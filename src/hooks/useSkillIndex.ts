@@ -0,0 +1,22 @@
+import { useEffect } from 'react';
+import { useAppStore } from '../store/appStore';
+import { isSkillIndexLoaded, saveSkillIndex } from '../adapters/skillIndex';
+
+// Editor saves and watcher updates arrive in bursts; write the index once they settle
+const SAVE_DELAY_MS = 1000;
+
+/**
+ * Keep the on-disk skill index in step with skills changed outside a full scan
+ * Full scans save the index themselves, with fresh file stats.
+ */
+export function useSkillIndex() {
+    const skills = useAppStore(s => s.skills);
+    const isLoading = useAppStore(s => s.isLoading);
+
+    useEffect(() => {
+        // Until the index is loaded, an empty store would overwrite it
+        if (isLoading || !isSkillIndexLoaded()) return;
+        const timer = setTimeout(() => saveSkillIndex(skills), SAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [skills, isLoading]);
+}
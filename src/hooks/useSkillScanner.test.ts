@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SCAN_CONFIG, type SkillLibrary } from '../types';
+import { buildScanRules, getScanConfig } from './useSkillScanner';
+
+const library: SkillLibrary = {
+    id: 'lib-1',
+    name: 'Work',
+    path: '/work/skills',
+    format: 'cursor',
+    isActive: true,
+    scan: { maxDepth: 3, exclude: ['drafts'], respectGitignore: true },
+};
+
+describe('getScanConfig', () => {
+    it('fills missing settings with the defaults', () => {
+        expect(getScanConfig(library)).toEqual({ ...DEFAULT_SCAN_CONFIG, maxDepth: 3, exclude: ['drafts'], respectGitignore: true });
+        expect(getScanConfig({ ...library, scan: undefined })).toEqual(DEFAULT_SCAN_CONFIG);
+    });
+});
+
+describe('buildScanRules', () => {
+    it('passes the library settings and every format\'s entries, its own format first', () => {
+        const rules = buildScanRules(library);
+
+        expect(rules).toMatchObject({
+            base: '/work/skills',
+            maxDepth: 3,
+            include: [],
+            exclude: ['drafts'],
+            respectGitignore: true,
+            allowNested: false,
+        });
+        expect(rules.entries[0]).toMatchObject({ format: 'cursor', file: '.cursorrules' });
+        expect(rules.entries).toContainEqual({ file: '*.mdc', parentDir: '.cursor/rules', nested: true, kind: 'memory', format: 'cursor' });
+        expect(new Set(rules.dotDirs)).toEqual(new Set(['.agent', '.cursor', '.claude']));
+    });
+
+    it('counts depth from the scanned folder', () => {
+        expect(buildScanRules(library, 2).maxDepth).toBe(1);
+    });
+});
@@ -1,8 +1,125 @@
 import { useCallback } from 'react';
+import { listen } from '@tauri-apps/api/event';
 import { useAppStore } from '../store/appStore';
-import { join } from '@tauri-apps/api/path';
-import { readSkillFile } from '../adapters/fs';
-import type { SkillFormat } from '../types';
+import { readDecodedText, SCAN_PROGRESS_EVENT, scanLibrary, skillFromContent, type ScannedEntry, type ScanProgressEvent, type ScanRules } from '../adapters/fs';
+import { getIndexedSkill, getKnownFiles, loadSkillIndex, saveSkillIndex } from '../adapters/skillIndex';
+import { getFormats, getScannedDotDirs, resolveFormat } from '../formats';
+import { DEFAULT_SCAN_CONFIG, type LibraryScanConfig, type LibraryScanReport, type Skill, type SkillLibrary } from '../types';
+import { isSameOrInside } from '../utils/path';
+
+/**
+ * A library's scan settings with defaults filled in
+ */
+export function getScanConfig(library: SkillLibrary): LibraryScanConfig {
+    return { ...DEFAULT_SCAN_CONFIG, ...library.scan };
+}
+
+/**
+ * Flatten the format definitions into rules for the native scanner,
+ * with the library's own format tried first
+ * @param depth - Folder depth of the scanned folder below the library root
+ */
+export function buildScanRules(library: SkillLibrary, depth = 0): ScanRules {
+    const formats = getFormats();
+    const config = getScanConfig(library);
+    const ordered = [resolveFormat(library.format, formats), ...formats.filter(f => f.id !== library.format)];
+
+    return {
+        entries: ordered.flatMap(def => def.entries.map(entry => ({ ...entry, format: def.id }))),
+        dotDirs: [...getScannedDotDirs(formats)],
+        maxDepth: config.maxDepth - depth,
+        base: library.path,
+        include: config.include,
+        exclude: config.exclude,
+        respectGitignore: config.respectGitignore,
+        allowNested: config.allowNested,
+    };
+}
+
+/**
+ * An empty diagnostics report for a scan below a library
+ */
+export function createScanReport(library: SkillLibrary, root = library.path): LibraryScanReport {
+    return {
+        libraryId: library.id,
+        libraryName: library.name,
+        root,
+        visited: [],
+        skipped: [],
+        failed: [],
+        found: 0,
+        durationMs: 0,
+    };
+}
+
+/**
+ * Scan a folder natively for entry files, recording what was skipped or failed
+ * @param depth - Folder depth of `dirPath` below the library root
+ */
+async function scanFolder(
+    dirPath: string,
+    library: SkillLibrary,
+    depth = 0,
+    onProgress?: (progress: ScanProgressEvent) => void
+): Promise<{ entries: ScannedEntry[]; report: LibraryScanReport }> {
+    const startedAt = Date.now();
+    const report = createScanReport(library, dirPath);
+    if (depth > getScanConfig(library).maxDepth) return { entries: [], report };
+
+    const scanId = crypto.randomUUID();
+    const unlisten = onProgress
+        ? await listen<ScanProgressEvent>(SCAN_PROGRESS_EVENT, ({ payload }) => {
+            if (payload.scanId === scanId) onProgress(payload);
+        })
+        : null;
+
+    try {
+        const root = dirPath.replace(/[/\\]+$/, '');
+        const known = Object.fromEntries(Object.entries(getKnownFiles()).filter(([path]) => isSameOrInside(path, root)));
+        const output = await scanLibrary(dirPath, { ...buildScanRules(library, depth), known }, scanId);
+        report.visited = output.visited;
+        report.skipped = output.skipped;
+        report.failed = output.failed;
+        return { entries: output.entries, report };
+    } catch (err) {
+        report.failed.push({ path: dirPath, reason: 'library', detail: String(err) });
+        return { entries: [], report };
+    } finally {
+        report.durationMs = Date.now() - startedAt;
+        unlisten?.();
+    }
+}
+
+/**
+ * Build skills from scanned entry files, adding parse failures to the report
+ * @param livePaths - Every entry path known to exist, for rename detection
+ */
+async function buildSkills(entries: ScannedEntry[], report: LibraryScanReport, livePaths: Set<string>): Promise<Skill[]> {
+    const ids = useAppStore.getState().assignSkillIds(entries, livePaths);
+    const results = await Promise.allSettled(entries.map(async (e, i): Promise<Skill> => {
+        // Unchanged since indexed: reuse the parsed skill instead of reading again
+        const cached = e.content === null ? getIndexedSkill(e.path) : undefined;
+        if (cached) return { ...cached.skill, id: ids[i], format: e.format, kind: e.kind };
+        const content = e.content ?? await readDecodedText(e.path);
+        return skillFromContent(e.path, content, e.format, e.kind, e.modified, ids[i]);
+    }));
+
+    const skills: Skill[] = [];
+    results.forEach((result, i) => {
+        const path = entries[i].path;
+        if (result.status === 'rejected') {
+            report.failed.push({ path, reason: 'parse', detail: String(result.reason) });
+            return;
+        }
+        skills.push(result.value);
+        // Still listed, but the metadata shown is incomplete
+        if (result.value.parseError) {
+            report.failed.push({ path, reason: 'frontmatter', detail: result.value.parseError });
+        }
+    });
+    report.found = skills.length;
+    return skills;
+}
 
 export function useSkillScanner() {
     const {
@@ -11,73 +128,87 @@ export function useSkillScanner() {
         setLoading,
         setError,
         setSkills,
+        setScanProgress,
+        setScanReport,
+        setScanFinished,
+        mergeScanReport,
+        pruneSkillIndex,
     } = useAppStore();
 
-    // Updated to accept library format as parameter
-    const scanDirectory = useCallback(async (dirPath: string, libraryFormat: SkillFormat, depth = 0): Promise<void> => {
-        if (depth > 5) return; // Prevent infinite recursion
-
-        try {
-            // Use customReadDir to bypass Tauri checks
-            const entries = await import('../adapters/fs').then(m => m.customReadDir(dirPath));
-
-            // Look for SKILL.md first (Antigravity/Standard format)
-            const skillFile = entries.find(e => e.isFile && e.name.toUpperCase() === 'SKILL.MD');
-
-            if (skillFile) {
-                const fullPath = await join(dirPath, skillFile.name);
-                const skill = await readSkillFile(fullPath, libraryFormat);
-                if (skill) {
-                    addSkill(skill);
-                }
-                return;
-            }
-
-            // If no SKILL.md, look for other patterns or keep searching subdirectories
-            for (const entry of entries) {
-                const fullPath = await join(dirPath, entry.name);
-
-                if (entry.isDirectory) {
-                    // Don't recurse into common hidden/build folders
-                    if (entry.name.startsWith('.') && entry.name !== '.agent') continue;
-                    if (['node_modules', 'dist', 'target', 'bin'].includes(entry.name)) continue;
-
-                    await scanDirectory(fullPath, libraryFormat, depth + 1);
-                } else if (entry.isFile) {
-                    // Support standalone skill files (like .cursorrules)
-                    const lowerName = entry.name.toLowerCase();
-                    if (lowerName === '.cursorrules') {
-                        // .cursorrules always has cursor format regardless of library
-                        const skill = await readSkillFile(fullPath, 'cursor');
-                        if (skill) addSkill(skill);
-                    }
-                }
-            }
-        } catch (err) {
-            console.error(`Error scanning directory ${dirPath}`, err);
-        }
-    }, [addSkill]);
+    // Scan a folder below a library (e.g. one that was just copied in) and add what it holds
+    const scanDirectory = useCallback(async (dirPath: string, library: SkillLibrary, depth = 0): Promise<void> => {
+        const { entries, report } = await scanFolder(dirPath, library, depth);
+        const livePaths = new Set([
+            ...useAppStore.getState().skills.map(s => s.sourcePath),
+            ...entries.map(e => e.path),
+        ]);
+        const skills = await buildSkills(entries, report, livePaths);
+        skills.forEach(addSkill);
+        mergeScanReport(report);
+    }, [addSkill, mergeScanReport]);
 
     const scanAllLibraries = useCallback(async () => {
         setLoading(true);
         setError(null);
-        setSkills([]); // Clear existing skills before rescan
 
         try {
-            // Iterate libraries and pass format to scanner
+            // Show the last known skills right away; the scan below only re-reads changed files
+            const indexed = await loadSkillIndex();
+            const activeRoots = preferences.libraries.filter(l => l.isActive).map(l => l.path.replace(/[/\\]+$/, ''));
+            if (useAppStore.getState().skills.length === 0) {
+                setSkills(indexed
+                    .map(entry => entry.skill)
+                    .filter(skill => activeRoots.some(root => isSameOrInside(skill.sourcePath, root))));
+            }
+
+            const scans: { entries: ScannedEntry[]; report: LibraryScanReport }[] = [];
+            let visitedDirs = 0;
+            let foundCount = 0;
+
             for (const lib of preferences.libraries) {
                 if (!lib.isActive) continue;
-                await scanDirectory(lib.path, lib.format);
+                const scan = await scanFolder(lib.path, lib, 0, (progress) => setScanProgress({
+                    visitedDirs: visitedDirs + progress.visitedDirs,
+                    found: foundCount + progress.found,
+                    currentPath: progress.currentPath,
+                }));
+                scans.push(scan);
+                visitedDirs += scan.report.visited.length;
+                foundCount += scan.entries.length;
+            }
+
+            // Ids are assigned once every library is scanned, so a file moved
+            // between libraries is recognized as well
+            const livePaths = new Set(scans.flatMap(scan => scan.entries.map(e => e.path)));
+            const found: Skill[] = [];
+            for (const scan of scans) {
+                found.push(...await buildSkills(scan.entries, scan.report, livePaths));
             }
+            // Libraries that couldn't be read (e.g. an unmounted drive) keep their ids
+            const scannedRoots = scans
+                .filter(scan => !scan.report.failed.some(f => f.reason === 'library'))
+                .map(scan => scan.report.root);
+            pruneSkillIndex(scannedRoots, livePaths);
+            setScanReport({ finishedAt: Date.now(), libraries: scans.map(scan => scan.report) });
+
+            // Replace everything at once so the grid doesn't flash empty;
+            // overlapping libraries can report the same file twice
+            const unique = new Map(found.map(skill => [skill.id, skill]));
+            setSkills([...unique.values()]);
+            const stats = new Map(scans.flatMap(scan => scan.entries.map(e => [e.path, { modified: e.modified, size: e.size }] as const)));
+            await saveSkillIndex([...unique.values()], stats);
         } catch (err) {
             console.error('Scanning error:', err);
             setError(err instanceof Error ? err.message : 'Unknown scanning error');
         } finally {
             setLoading(false);
+            setScanProgress(null);
+            setScanFinished();
         }
-    }, [preferences.libraries, setLoading, setError, setSkills, scanDirectory]);
+    }, [preferences.libraries, setLoading, setError, setSkills, setScanProgress, setScanReport, setScanFinished, pruneSkillIndex]);
 
     return {
-        scanAllLibraries
+        scanAllLibraries,
+        scanDirectory
     };
 }
@@ -0,0 +1,21 @@
+import { useMemo } from 'react';
+import { useAppStore } from '../store/appStore';
+
+/**
+ * Every tag in the loaded skills with how many skills use it, most used first
+ * Tags differing only in case are counted together under the first spelling seen.
+ */
+export function useTagCounts(): { tag: string; count: number }[] {
+    const skills = useAppStore((s) => s.skills);
+    return useMemo(() => {
+        const counts = new Map<string, { tag: string; count: number }>();
+        for (const skill of skills) {
+            for (const tag of new Set(skill.tags.map(t => t.toLowerCase()))) {
+                const entry = counts.get(tag);
+                if (entry) entry.count++;
+                else counts.set(tag, { tag: skill.tags.find(t => t.toLowerCase() === tag)!, count: 1 });
+            }
+        }
+        return [...counts.values()].sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+    }, [skills]);
+}
@@ -0,0 +1,41 @@
+import { parseFrontmatter } from '../adapters/frontmatter';
+import type { SkillFormat, SkillKind } from '../types';
+import { BUILTIN_RULES } from './rules';
+import type { LintDiagnostic, LintRule } from './types';
+
+export type { LintDiagnostic, LintRule, LintSeverity, LintContext } from './types';
+
+/**
+ * Lint a skill entry file (SKILL.md, .mdc, commands, agents...) against the rules for its format and kind
+ */
+export function lintSkillFile(
+    content: string,
+    path: string,
+    format: SkillFormat,
+    kind: SkillKind = 'skill',
+    rules: LintRule[] = BUILTIN_RULES
+): LintDiagnostic[] {
+    const ctx = {
+        content,
+        path,
+        fileName: path.split(/[/\\]/).pop() || path,
+        format,
+        kind,
+        frontmatter: parseFrontmatter(content),
+    };
+
+    const diagnostics = rules
+        .filter(rule => !rule.formats || rule.formats.includes(format))
+        .filter(rule => !rule.kinds || rule.kinds.includes(kind))
+        .flatMap(rule => rule.check(ctx));
+
+    // Errors first, then by line
+    return diagnostics.sort((a, b) => {
+        if (a.severity !== b.severity) return a.severity === 'error' ? -1 : 1;
+        return (a.line ?? 0) - (b.line ?? 0);
+    });
+}
+
+export function countErrors(diagnostics: LintDiagnostic[]): number {
+    return diagnostics.filter(d => d.severity === 'error').length;
+}
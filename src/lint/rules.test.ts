@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { SkillFormat, SkillKind } from '../types';
+import { countErrors, lintSkillFile } from './index';
+
+function ruleIds(content: string, format: SkillFormat, kind: SkillKind = 'skill', path = '/lib/demo/SKILL.md'): string[] {
+    return lintSkillFile(content, path, format, kind).map(d => d.ruleId);
+}
+
+describe('lintSkillFile', () => {
+    it('accepts a valid Claude skill', () => {
+        expect(lintSkillFile('---\nname: pdf-tools\ndescription: Work with PDFs\n---\n# PDF\n', '/lib/pdf/SKILL.md', 'claude')).toEqual([]);
+    });
+
+    it('reports invalid YAML on the first line', () => {
+        expect(lintSkillFile('---\nname: [oops\n---\n', '/lib/demo/SKILL.md', 'generic')).toEqual([
+            expect.objectContaining({ ruleId: 'frontmatter-valid', severity: 'error', line: 1 }),
+        ]);
+    });
+
+    it('requires frontmatter for Claude and Antigravity skills and agents only', () => {
+        expect(ruleIds('# Demo\n', 'claude')).toEqual(['frontmatter-required']);
+        expect(ruleIds('# Demo\n', 'antigravity')).toEqual(['frontmatter-required']);
+        expect(ruleIds('# Demo\n', 'claude', 'agent', '/lib/.claude/agents/demo.md')).toEqual(['frontmatter-required']);
+        expect(ruleIds('# Demo\n', 'claude', 'command', '/lib/.claude/commands/demo.md')).toEqual([]);
+        expect(ruleIds('# Demo\n', 'generic')).toEqual([]);
+    });
+
+    it('checks Claude names and descriptions at their lines', () => {
+        const diagnostics = lintSkillFile('---\ndescription: ""\nname: PDF Tools\n---\n', '/lib/demo/SKILL.md', 'claude');
+
+        expect(diagnostics).toEqual([
+            expect.objectContaining({ ruleId: 'claude-description', line: 2 }),
+            expect.objectContaining({ ruleId: 'claude-name', line: 3 }),
+        ]);
+        expect(countErrors(diagnostics)).toBe(2);
+    });
+
+    it('points at the opening fence for keys missing from the frontmatter', () => {
+        const diagnostics = lintSkillFile('---\nname: demo\n---\n\ndescription: in the body\n', '/lib/demo/SKILL.md', 'claude');
+
+        expect(diagnostics).toEqual([expect.objectContaining({ ruleId: 'claude-description', line: 1 })]);
+    });
+
+    it('limits Claude name and description length', () => {
+        const name = 'a'.repeat(65);
+        const description = 'x'.repeat(1025);
+
+        expect(ruleIds(`---\nname: ${name}\ndescription: ${description}\n---\n`, 'claude')).toEqual(['claude-name', 'claude-description']);
+    });
+
+    it('warns about a missing Antigravity description', () => {
+        expect(lintSkillFile('---\nname: demo\n---\n', '/lib/demo/SKILL.md', 'antigravity')).toEqual([
+            expect.objectContaining({ ruleId: 'description-required', severity: 'warning', line: 1 }),
+        ]);
+    });
+
+    it('validates Cursor globs and alwaysApply', () => {
+        const path = '/lib/.cursor/rules/demo.mdc';
+
+        expect(ruleIds('---\nglobs: src/**/*.{ts,tsx}, *.md\nalwaysApply: false\n---\n', 'cursor', 'memory', path)).toEqual([]);
+        expect(ruleIds('---\nglobs: src/[a.ts\n---\n', 'cursor', 'memory', path)).toEqual(['cursor-globs']);
+        expect(ruleIds('---\nglobs: [1, 2]\n---\n', 'cursor', 'memory', path)).toEqual(['cursor-globs']);
+        expect(ruleIds('---\nalwaysApply: "yes"\n---\n', 'cursor', 'memory', path)).toEqual(['cursor-always-apply']);
+    });
+
+    it('warns about leftover template placeholders and malformed tags', () => {
+        const diagnostics = lintSkillFile('---\ntags: {a: 1}\n---\n\n在这里描述如何使用此技能\n', '/lib/demo/SKILL.md', 'generic');
+
+        expect(diagnostics).toEqual([
+            expect.objectContaining({ ruleId: 'tags-shape', severity: 'warning', line: 2 }),
+            expect.objectContaining({ ruleId: 'no-placeholder', severity: 'warning', line: 5 }),
+        ]);
+    });
+
+    it('sorts errors before warnings', () => {
+        const diagnostics = lintSkillFile('---\nname: demo\ntags: {a: 1}\ndescription: ""\n---\n', '/lib/demo/SKILL.md', 'claude');
+
+        expect(diagnostics.map(d => d.severity)).toEqual(['error', 'warning']);
+    });
+});
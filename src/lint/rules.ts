@@ -0,0 +1,208 @@
+import { splitGlobList } from '../utils/glob';
+import type { LintContext, LintDiagnostic, LintRule } from './types';
+
+/** Claude SKILL.md limits */
+export const CLAUDE_NAME_MAX_LENGTH = 64;
+export const CLAUDE_DESCRIPTION_MAX_LENGTH = 1024;
+
+/** Text left behind by the creation templates */
+const PLACEHOLDERS = ['在这里输入技能描述', '在这里描述如何使用此技能', '在这里输入命令描述', '在这里描述何时调用此子代理', '在这里编写子代理的系统提示词', '在这里记录需要始终加载的项目约定与指令'];
+
+/**
+ * 1-based line of a character offset
+ */
+function lineAt(content: string, index: number): number {
+    return content.slice(0, index).split('\n').length;
+}
+
+/**
+ * Line of a top-level `key:` inside the frontmatter block, or the opening fence if it isn't there
+ */
+function keyLine(ctx: LintContext, key: string): number | undefined {
+    if (!ctx.frontmatter.hasFrontmatter) return undefined;
+    const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // Only the block between the fences; the body may have `key:` lines of its own
+    const block = ctx.content.slice(0, ctx.content.length - ctx.frontmatter.body.length);
+    const match = new RegExp(`^${escaped}\\s*:`, 'm').exec(block);
+    return match ? lineAt(ctx.content, match.index) : 1;
+}
+
+function isMarkdownEntry(ctx: LintContext): boolean {
+    const lower = ctx.fileName.toLowerCase();
+    return lower.endsWith('.md') || lower.endsWith('.mdc');
+}
+
+function isBlank(value: unknown): boolean {
+    return value === undefined || value === null || String(value).trim() === '';
+}
+
+/**
+ * Check that a glob pattern has balanced brackets and braces
+ */
+function isValidGlob(pattern: string): boolean {
+    if (!pattern.trim()) return false;
+    let braces = 0;
+    let brackets = 0;
+    for (const ch of pattern) {
+        if (ch === '{') braces++;
+        if (ch === '}') braces--;
+        if (ch === '[') brackets++;
+        if (ch === ']') brackets--;
+        if (braces < 0 || brackets < 0) return false;
+    }
+    return braces === 0 && brackets === 0;
+}
+
+const frontmatterValid: LintRule = {
+    id: 'frontmatter-valid',
+    check: (ctx) => ctx.frontmatter.error
+        ? [{ ruleId: 'frontmatter-valid', severity: 'error', message: `Frontmatter 不是合法的 YAML：${ctx.frontmatter.error}`, line: 1 }]
+        : [],
+};
+
+const noPlaceholder: LintRule = {
+    id: 'no-placeholder',
+    check: (ctx) => {
+        const diagnostics: LintDiagnostic[] = [];
+        for (const text of PLACEHOLDERS) {
+            const index = ctx.content.indexOf(text);
+            if (index >= 0) {
+                diagnostics.push({
+                    ruleId: 'no-placeholder',
+                    severity: 'warning',
+                    message: `存在未替换的模板占位文本「${text}」`,
+                    line: lineAt(ctx.content, index),
+                });
+            }
+        }
+        return diagnostics;
+    },
+};
+
+const frontmatterRequired: LintRule = {
+    id: 'frontmatter-required',
+    formats: ['claude', 'antigravity'],
+    kinds: ['skill', 'agent'],
+    check: (ctx) => {
+        if (!isMarkdownEntry(ctx) || ctx.frontmatter.hasFrontmatter) return [];
+        return [{ ruleId: 'frontmatter-required', severity: 'error', message: `${ctx.fileName} 缺少 YAML frontmatter（name / description）`, line: 1 }];
+    },
+};
+
+const descriptionRequired: LintRule = {
+    id: 'description-required',
+    formats: ['antigravity'],
+    kinds: ['skill'],
+    check: (ctx) => {
+        if (!ctx.frontmatter.hasFrontmatter || ctx.frontmatter.error) return [];
+        if (!isBlank(ctx.frontmatter.data.description)) return [];
+        return [{ ruleId: 'description-required', severity: 'warning', message: '缺少 description，代理将无法判断何时使用此技能', line: keyLine(ctx, 'description') }];
+    },
+};
+
+const claudeName: LintRule = {
+    id: 'claude-name',
+    formats: ['claude'],
+    kinds: ['skill', 'agent'],
+    check: (ctx) => {
+        if (!ctx.frontmatter.hasFrontmatter || ctx.frontmatter.error) return [];
+        const name = ctx.frontmatter.data.name;
+        const line = keyLine(ctx, 'name');
+
+        if (isBlank(name)) {
+            return [{ ruleId: 'claude-name', severity: 'error', message: '缺少 name 字段', line }];
+        }
+
+        const diagnostics: LintDiagnostic[] = [];
+        const value = String(name);
+        if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(value)) {
+            diagnostics.push({ ruleId: 'claude-name', severity: 'error', message: 'name 只能包含小写字母、数字和连字符（如 pdf-tools）', line });
+        }
+        if (value.length > CLAUDE_NAME_MAX_LENGTH) {
+            diagnostics.push({ ruleId: 'claude-name', severity: 'error', message: `name 长度不能超过 ${CLAUDE_NAME_MAX_LENGTH} 个字符（当前 ${value.length}）`, line });
+        }
+        return diagnostics;
+    },
+};
+
+const claudeDescription: LintRule = {
+    id: 'claude-description',
+    formats: ['claude'],
+    kinds: ['skill', 'agent'],
+    check: (ctx) => {
+        if (!ctx.frontmatter.hasFrontmatter || ctx.frontmatter.error) return [];
+        const description = ctx.frontmatter.data.description;
+        const line = keyLine(ctx, 'description');
+
+        if (isBlank(description)) {
+            return [{ ruleId: 'claude-description', severity: 'error', message: 'description 不能为空', line }];
+        }
+        const length = String(description).length;
+        if (length > CLAUDE_DESCRIPTION_MAX_LENGTH) {
+            return [{ ruleId: 'claude-description', severity: 'error', message: `description 不能超过 ${CLAUDE_DESCRIPTION_MAX_LENGTH} 个字符（当前 ${length}）`, line }];
+        }
+        return [];
+    },
+};
+
+const cursorGlobs: LintRule = {
+    id: 'cursor-globs',
+    formats: ['cursor'],
+    check: (ctx) => {
+        if (!ctx.frontmatter.hasFrontmatter || ctx.frontmatter.error) return [];
+        const globs = ctx.frontmatter.data.globs;
+        if (globs === undefined || globs === null || globs === '') return [];
+
+        const line = keyLine(ctx, 'globs');
+        let patterns: string[];
+        if (typeof globs === 'string') {
+            patterns = splitGlobList(globs);
+        } else if (Array.isArray(globs) && globs.every(g => typeof g === 'string')) {
+            patterns = globs;
+        } else {
+            return [{ ruleId: 'cursor-globs', severity: 'error', message: 'globs 必须是字符串或字符串列表', line }];
+        }
+
+        return patterns
+            .filter(pattern => !isValidGlob(pattern))
+            .map(pattern => ({
+                ruleId: 'cursor-globs',
+                severity: 'error' as const,
+                message: pattern.trim() ? `无效的 glob 模式「${pattern}」（括号不匹配）` : 'globs 中存在空模式',
+                line,
+            }));
+    },
+};
+
+const cursorAlwaysApply: LintRule = {
+    id: 'cursor-always-apply',
+    formats: ['cursor'],
+    check: (ctx) => {
+        if (!ctx.frontmatter.hasFrontmatter || ctx.frontmatter.error) return [];
+        const value = ctx.frontmatter.data.alwaysApply;
+        if (value === undefined || typeof value === 'boolean') return [];
+        return [{ ruleId: 'cursor-always-apply', severity: 'error', message: 'alwaysApply 必须是 true 或 false', line: keyLine(ctx, 'alwaysApply') }];
+    },
+};
+
+const tagsShape: LintRule = {
+    id: 'tags-shape',
+    check: (ctx) => {
+        const tags = ctx.frontmatter.data.tags;
+        if (tags === undefined || typeof tags === 'string') return [];
+        if (Array.isArray(tags) && tags.every(t => typeof t === 'string' || typeof t === 'number')) return [];
+        return [{ ruleId: 'tags-shape', severity: 'warning', message: 'tags 应为字符串列表', line: keyLine(ctx, 'tags') }];
+    },
+};
+
+export const BUILTIN_RULES: LintRule[] = [
+    frontmatterValid,
+    frontmatterRequired,
+    noPlaceholder,
+    descriptionRequired,
+    claudeName,
+    claudeDescription,
+    cursorGlobs,
+    cursorAlwaysApply,
+    tagsShape,
+];
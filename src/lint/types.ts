@@ -0,0 +1,36 @@
+import type { FrontmatterBlock } from '../adapters/frontmatter';
+import type { SkillFormat, SkillKind } from '../types';
+
+export type LintSeverity = 'error' | 'warning';
+
+/**
+ * A single problem reported by a lint rule
+ */
+export interface LintDiagnostic {
+    ruleId: string;
+    severity: LintSeverity;
+    message: string;
+    /** 1-based line number, when the problem can be located */
+    line?: number;
+}
+
+/**
+ * Everything a rule needs to inspect one skill entry file
+ */
+export interface LintContext {
+    content: string;
+    path: string;
+    fileName: string;
+    format: SkillFormat;
+    kind: SkillKind;
+    frontmatter: FrontmatterBlock;
+}
+
+export interface LintRule {
+    id: string;
+    /** Formats this rule applies to; omitted means every format */
+    formats?: SkillFormat[];
+    /** Kinds this rule applies to; omitted means every kind */
+    kinds?: SkillKind[];
+    check: (ctx: LintContext) => LintDiagnostic[];
+}
@@ -0,0 +1,68 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { TextIndex } from './textIndex';
+import type { SearchResult } from './types';
+
+export { TextIndex } from './textIndex';
+export { tokenize } from './tokenize';
+export {
+    getCompletions,
+    matchesQualifiers,
+    parseQuery,
+    QUERY_KEYS,
+    queryFilters,
+    setQualifier,
+    toggleQualifier,
+    type CompletionSources,
+    type ParsedQuery,
+    type QueryCompletion,
+    type QueryContext,
+    type QueryKey,
+    type QueryQualifier,
+} from './query';
+export type { SearchDocument, SearchField, SearchMatch, SearchResult } from './types';
+
+/**
+ * Full-text index over every loaded skill, kept in sync by useSearchIndex
+ */
+export const searchIndex = new TextIndex();
+
+let version = 0;
+const listeners = new Set<() => void>();
+// The Dashboard, the filtered skill list and collection counts repeat the same queries
+let cache = { version, results: new Map<string, SearchResult[]>() };
+
+/** Call after a batch of index updates so search results refresh */
+export function notifySearchIndexChanged(): void {
+    version++;
+    listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+export function searchSkills(query: string): SearchResult[] {
+    if (cache.version !== version) cache = { version, results: new Map() };
+    let results = cache.results.get(query);
+    if (!results) {
+        results = searchIndex.search(query);
+        cache.results.set(query, results);
+    }
+    return results;
+}
+
+/**
+ * Changes whenever the index does; for views computing their own searches
+ */
+export function useSearchIndexVersion(): number {
+    return useSyncExternalStore(subscribe, () => version);
+}
+
+/**
+ * Ranked full-text results for a query, or null when the query is empty
+ */
+export function useSearchResults(query: string): SearchResult[] | null {
+    const current = useSearchIndexVersion();
+    return useMemo(() => (query.trim() ? searchSkills(query) : null), [query, current]);
+}
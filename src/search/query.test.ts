@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import type { Skill, SkillLibrary } from '../types';
+import { matchesQualifiers, parseQuery, queryFilters, setQualifier, toggleQualifier, type QueryContext } from './query';
+
+const DAY = 86400_000;
+const NOW = Date.parse('2025-06-15T12:00:00Z');
+
+function skill(overrides: Partial<Skill> = {}): Skill {
+    return {
+        id: 'skill-1',
+        title: 'PDF tools',
+        description: '',
+        content: '',
+        tags: ['pdf', 'Docs'],
+        sourcePath: '/libs/main/pdf/SKILL.md',
+        format: 'claude',
+        kind: 'skill',
+        lastModified: NOW - 3 * DAY,
+        ...overrides,
+    };
+}
+
+const library: SkillLibrary = { id: 'lib-1', name: 'Main', path: '/libs/main/', format: 'claude', isActive: true };
+
+const ctx: QueryContext = {
+    libraries: [library],
+    bundlePaths: () => ['/libs/main/pdf/scripts/extract.py'],
+    now: NOW,
+};
+
+const matches = (query: string, s = skill()) => matchesQualifiers(s, parseQuery(query), ctx);
+
+describe('parseQuery', () => {
+    it('splits qualifiers from free text', () => {
+        expect(parseQuery('merge pdf tag:docs -format:cursor files')).toEqual({
+            text: 'merge pdf files',
+            qualifiers: [
+                { key: 'tag', value: 'docs', negated: false },
+                { key: 'format', value: 'cursor', negated: true },
+            ],
+        });
+    });
+
+    it('reads quoted values and lowercases keys', () => {
+        expect(parseQuery('LIB:"My Library" "exact phrase"')).toEqual({
+            text: 'exact phrase',
+            qualifiers: [{ key: 'lib', value: 'My Library', negated: false }],
+        });
+    });
+
+    it('treats unknown keys as text and skips empty qualifiers', () => {
+        expect(parseQuery('http://x tag:')).toEqual({ text: 'http://x', qualifiers: [] });
+    });
+});
+
+describe('queryFilters', () => {
+    it('maps positive qualifiers onto the store filters', () => {
+        expect(queryFilters(parseQuery('format:claude format:cursor tag:a tag:a tag:b -tag:c kind:agent'))).toEqual({
+            filterFormat: 'cursor',
+            filterTags: ['a', 'b'],
+            filterKind: 'agent',
+        });
+    });
+
+    it('ignores unknown kinds', () => {
+        expect(queryFilters(parseQuery('kind:plugin')).filterKind).toBeNull();
+    });
+});
+
+describe('setQualifier / toggleQualifier', () => {
+    it('replaces every positive qualifier of a key', () => {
+        expect(setQualifier('pdf format:a -format:b format:c', 'format', 'claude')).toBe('pdf -format:b format:claude');
+        expect(setQualifier('pdf format:a', 'format', null)).toBe('pdf');
+    });
+
+    it('adds or removes a qualifier, quoting values with spaces', () => {
+        expect(toggleQualifier('pdf', 'tag', 'two words')).toBe('pdf tag:"two words"');
+        expect(toggleQualifier('pdf tag:"two words"', 'tag', 'Two Words')).toBe('pdf');
+    });
+});
+
+describe('matchesQualifiers', () => {
+    it('leaves positive format, tag and known kind qualifiers to the store filters', () => {
+        expect(matches('format:cursor tag:missing kind:agent')).toBe(true);
+    });
+
+    it('applies exclusions', () => {
+        expect(matches('-tag:docs')).toBe(false);
+        expect(matches('-format:claude')).toBe(false);
+        expect(matches('-kind:command')).toBe(true);
+    });
+
+    it('matches libraries by name or id inside the library folder', () => {
+        expect(matches('lib:main')).toBe(true);
+        expect(matches('lib:lib-1')).toBe(true);
+        expect(matches('lib:other')).toBe(false);
+        expect(matches('lib:main', skill({ sourcePath: '/libs/mainline/x/SKILL.md' }))).toBe(false);
+    });
+
+    it('filters by age and by date', () => {
+        expect(matches('modified:<7d')).toBe(true);
+        expect(matches('modified:<1d')).toBe(false);
+        expect(matches('modified:>2d')).toBe(true);
+        expect(matches('modified:>2025-06-01')).toBe(true);
+        expect(matches('modified:<2025-06-01')).toBe(false);
+        expect(matches('modified:soon')).toBe(false);
+    });
+
+    it('checks bundled folders and tags', () => {
+        expect(matches('has:scripts')).toBe(true);
+        expect(matches('has:assets')).toBe(false);
+        expect(matches('has:tags')).toBe(true);
+        expect(matches('-has:tags', skill({ tags: [] }))).toBe(true);
+    });
+});
@@ -0,0 +1,267 @@
+import { SKILL_KIND_LABELS, type Skill, type SkillKind, type SkillLibrary } from '../types';
+
+/**
+ * Qualifiers understood in the Dashboard search box (`key:value`, `-key:value` to exclude)
+ * - format / kind: single-valued, the last one given applies
+ * - tag: skills with any of the given tags (`-tag:` excludes each one)
+ * - lib: library name or id
+ * - modified: `<7d` / `>30d` by age (h, d, w, m, y), or `>2024-01-01` / `<2024-01-01` by date
+ * - has: a bundled folder such as `scripts`, or `tags` for skills with any tag (`-has:tags` finds untagged ones)
+ */
+export type QueryKey = 'format' | 'tag' | 'lib' | 'kind' | 'modified' | 'has';
+
+export const QUERY_KEYS: Record<QueryKey, string> = {
+    format: '格式',
+    tag: '标签',
+    lib: '技能库',
+    kind: '类型',
+    modified: '修改时间',
+    has: '附带目录',
+};
+
+export interface QueryQualifier {
+    key: QueryKey;
+    value: string;
+    negated: boolean;
+}
+
+export interface ParsedQuery {
+    /** Everything that isn't a qualifier, for full-text search */
+    text: string;
+    qualifiers: QueryQualifier[];
+}
+
+/**
+ * A whitespace-separated piece of the raw query, with its position
+ */
+interface QueryToken {
+    start: number;
+    end: number;
+    negated: boolean;
+    /** Lowercased text before the colon, if any */
+    key?: string;
+    value: string;
+}
+
+const TOKEN = /(-?)(?:([a-zA-Z]+):)?(?:"([^"]*)"?|(\S*))/y;
+
+function lex(input: string): QueryToken[] {
+    const tokens: QueryToken[] = [];
+    let at = 0;
+    while (at < input.length) {
+        if (/\s/.test(input[at])) {
+            at++;
+            continue;
+        }
+        TOKEN.lastIndex = at;
+        const m = TOKEN.exec(input)!;
+        tokens.push({
+            start: at,
+            end: at + m[0].length,
+            negated: m[1] === '-',
+            key: m[2]?.toLowerCase(),
+            value: m[3] ?? m[4] ?? '',
+        });
+        at += m[0].length;
+    }
+    return tokens;
+}
+
+function isQueryKey(key: string | undefined): key is QueryKey {
+    return !!key && key in QUERY_KEYS;
+}
+
+export function parseQuery(input: string): ParsedQuery {
+    const text: string[] = [];
+    const qualifiers: QueryQualifier[] = [];
+    for (const token of lex(input)) {
+        if (isQueryKey(token.key)) {
+            // `tag:` with nothing after it yet is still being typed
+            if (token.value) qualifiers.push({ key: token.key, value: token.value, negated: token.negated });
+        } else {
+            text.push(input.slice(token.start, token.end).replace(/"/g, ''));
+        }
+    }
+    return { text: text.join(' '), qualifiers };
+}
+
+function quoteValue(value: string): string {
+    return /[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+}
+
+/**
+ * Replace every (non-negated) `key:` qualifier in a raw query, or drop them when `value` is null
+ */
+export function setQualifier(input: string, key: QueryKey, value: string | null): string {
+    const kept = lex(input)
+        .filter(token => token.key !== key || token.negated)
+        .map(token => input.slice(token.start, token.end));
+    if (value) kept.push(`${key}:${quoteValue(value)}`);
+    return kept.join(' ');
+}
+
+/**
+ * Add a `key:value` qualifier to a raw query, or remove it if it is already there
+ */
+export function toggleQualifier(input: string, key: QueryKey, value: string): string {
+    const tokens = lex(input);
+    const isMatch = (token: QueryToken) => token.key === key && !token.negated && token.value.toLowerCase() === value.toLowerCase();
+    if (!tokens.some(isMatch)) {
+        return [input.trim(), `${key}:${quoteValue(value)}`].filter(Boolean).join(' ');
+    }
+    return tokens.filter(token => !isMatch(token)).map(token => input.slice(token.start, token.end)).join(' ');
+}
+
+/**
+ * The store filters a query sets (see setSearchQuery)
+ */
+export function queryFilters(parsed: ParsedQuery): { filterFormat: string | null; filterTags: string[]; filterKind: SkillKind | null } {
+    const positive = parsed.qualifiers.filter(q => !q.negated);
+    const last = (key: QueryKey) => positive.filter(q => q.key === key).pop()?.value ?? null;
+    const kind = last('kind');
+    return {
+        filterFormat: last('format'),
+        filterTags: [...new Set(positive.filter(q => q.key === 'tag').map(q => q.value))],
+        filterKind: kind && kind in SKILL_KIND_LABELS ? kind as SkillKind : null,
+    };
+}
+
+const AGE_UNITS: Record<string, number> = {
+    h: 3600_000,
+    d: 86400_000,
+    w: 7 * 86400_000,
+    m: 30 * 86400_000,
+    y: 365 * 86400_000,
+};
+
+function matchesModified(lastModified: number, value: string, now: number): boolean {
+    const m = /^([<>]=?)?(.+)$/.exec(value.trim());
+    if (!m) return false;
+    const op = m[1] || '<';
+    const age = /^(\d+(?:\.\d+)?)([hdwmy])$/i.exec(m[2]);
+    if (age) {
+        // `<7d` reads as "less than 7 days ago"
+        const limit = parseFloat(age[1]) * AGE_UNITS[age[2].toLowerCase()];
+        const elapsed = now - lastModified;
+        return op.startsWith('<') ? elapsed <= limit : elapsed >= limit;
+    }
+    const date = Date.parse(m[2]);
+    if (Number.isNaN(date)) return false;
+    return op.startsWith('<') ? lastModified < date : lastModified >= date;
+}
+
+function normalizePath(path: string): string {
+    return path.replace(/\\/g, '/').replace(/\/+$/, '');
+}
+
+/**
+ * What qualifiers need beyond the skill itself
+ */
+export interface QueryContext {
+    libraries: SkillLibrary[];
+    /** Indexed files bundled with a skill */
+    bundlePaths: (skillId: string) => string[];
+    now: number;
+}
+
+function matchesQualifier(skill: Skill, q: QueryQualifier, ctx: QueryContext): boolean {
+    const value = q.value.toLowerCase();
+    switch (q.key) {
+        case 'format':
+            return skill.format.toLowerCase() === value;
+        case 'kind':
+            return (skill.kind || 'skill') === value;
+        case 'tag':
+            return skill.tags.some(tag => tag.toLowerCase() === value);
+        case 'lib': {
+            const path = normalizePath(skill.sourcePath);
+            return ctx.libraries.some(lib =>
+                (lib.name.toLowerCase() === value || lib.id === q.value)
+                && path.startsWith(`${normalizePath(lib.path)}/`));
+        }
+        case 'modified':
+            return matchesModified(skill.lastModified, q.value, ctx.now);
+        case 'has': {
+            if (value === 'tags') return skill.tags.length > 0;
+            // Folders holding at least one indexed text file
+            const folder = normalizePath(skill.sourcePath).replace(/\/[^/]*$/, '');
+            const prefix = `${folder}/${normalizePath(value)}/`.toLowerCase();
+            return ctx.bundlePaths(skill.id).some(path => normalizePath(path).toLowerCase().startsWith(prefix));
+        }
+    }
+}
+
+/**
+ * Whether a skill passes the qualifiers the store filters don't cover
+ * (exclusions, lib, modified, has and unknown kinds)
+ */
+export function matchesQualifiers(skill: Skill, parsed: ParsedQuery, ctx: QueryContext): boolean {
+    return parsed.qualifiers.every(q => {
+        if (!q.negated && (q.key === 'format' || q.key === 'tag')) return true;
+        if (!q.negated && q.key === 'kind' && q.value in SKILL_KIND_LABELS) return true;
+        return matchesQualifier(skill, q, ctx) !== q.negated;
+    });
+}
+
+/**
+ * A suggestion for the token under the cursor
+ */
+export interface QueryCompletion {
+    label: string;
+    hint?: string;
+    /** Replaces the token */
+    insert: string;
+}
+
+export interface CompletionSources {
+    formats: { id: string; label: string }[];
+    tags: string[];
+    libraries: string[];
+    bundleDirs: string[];
+}
+
+const MODIFIED_PRESETS: [string, string][] = [
+    ['<1d', '今天'],
+    ['<7d', '最近一周'],
+    ['<30d', '最近一个月'],
+    ['>90d', '三个月前'],
+];
+const MAX_COMPLETIONS = 8;
+
+/**
+ * Completions for the token ending at `cursor`, with the range they replace
+ */
+export function getCompletions(
+    input: string,
+    cursor: number,
+    sources: CompletionSources
+): { start: number; end: number; items: QueryCompletion[] } | null {
+    const token = lex(input).find(t => t.start < cursor && cursor <= t.end);
+    if (!token) return null;
+    const neg = token.negated ? '-' : '';
+
+    if (!isQueryKey(token.key)) {
+        if (token.key !== undefined) return null;
+        const typed = input.slice(token.start, cursor).replace(/^-/, '').toLowerCase();
+        if (!typed) return null;
+        const items = (Object.keys(QUERY_KEYS) as QueryKey[])
+            .filter(key => key.startsWith(typed) && key !== typed)
+            .map(key => ({ label: `${key}:`, hint: QUERY_KEYS[key], insert: `${neg}${key}:` }));
+        return items.length > 0 ? { start: token.start, end: token.end, items } : null;
+    }
+
+    const key = token.key;
+    const values: [string, string | undefined][] =
+        key === 'format' ? sources.formats.map(f => [f.id, f.label])
+            : key === 'kind' ? (Object.keys(SKILL_KIND_LABELS) as SkillKind[]).map(k => [k, SKILL_KIND_LABELS[k]])
+                : key === 'tag' ? sources.tags.map(t => [t, undefined])
+                    : key === 'lib' ? sources.libraries.map(l => [l, undefined])
+                        : key === 'has' ? [['tags', '有标签'], ...sources.bundleDirs.map((d): [string, undefined] => [d, undefined])]
+                            : MODIFIED_PRESETS;
+    const typed = token.value.toLowerCase();
+    const items = values
+        .filter(([value]) => value.toLowerCase().startsWith(typed) && value.toLowerCase() !== typed)
+        .slice(0, MAX_COMPLETIONS)
+        .map(([value, hint]) => ({ label: value, hint, insert: `${neg}${key}:${quoteValue(value)} ` }));
+    return items.length > 0 ? { start: token.start, end: token.end, items } : null;
+}
@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { TextIndex } from './textIndex';
+
+describe('TextIndex', () => {
+    let index: TextIndex;
+
+    beforeEach(() => {
+        index = new TextIndex();
+        index.set({ skillId: 'pdf', path: '/lib/pdf/SKILL.md', field: 'meta', text: 'PDF tools\nMerge and split PDF files' });
+        index.set({ skillId: 'pdf', path: '/lib/pdf/SKILL.md', field: 'entry', text: '# PDF tools\n\nUse pypdf to merge documents.' });
+        index.set({ skillId: 'pdf', path: '/lib/pdf/scripts/split.py', field: 'bundle', text: 'import pypdf\n\ndef split(path):\n    pass' });
+        index.set({ skillId: 'sheets', path: '/lib/sheets/SKILL.md', field: 'meta', text: 'Spreadsheets\nRead and write Excel files' });
+        index.set({ skillId: 'sheets', path: '/lib/sheets/SKILL.md', field: 'entry', text: 'Mentions pdf export once.' });
+    });
+
+    const ids = (query: string) => index.search(query).map(r => r.skillId);
+
+    it('ranks metadata matches above body mentions', () => {
+        expect(ids('pdf')).toEqual(['pdf', 'sheets']);
+    });
+
+    it('requires every query word, across any of a skill\'s files', () => {
+        expect(ids('merge split')).toEqual(['pdf']);
+        expect(ids('pdf excel')).toEqual(['sheets']);
+        expect(ids('pdf missing')).toEqual([]);
+    });
+
+    it('matches longer terms by prefix for type-ahead', () => {
+        expect(ids('spread')).toEqual(['sheets']);
+        expect(ids('s')).toEqual([]);
+    });
+
+    it('returns highlighted lines from files, not from metadata', () => {
+        const [result] = index.search('pypdf');
+
+        expect(result.matches).toEqual([
+            { path: '/lib/pdf/SKILL.md', line: 3, text: 'Use pypdf to merge documents.', ranges: [[4, 9]] },
+            { path: '/lib/pdf/scripts/split.py', line: 1, text: 'import pypdf', ranges: [[7, 12]] },
+        ]);
+    });
+
+    it('forgets replaced and removed documents', () => {
+        index.set({ skillId: 'sheets', path: '/lib/sheets/SKILL.md', field: 'entry', text: 'No exports here.' });
+        expect(ids('pdf')).toEqual(['pdf']);
+
+        index.removeFile('pdf', '/lib/pdf/scripts/split.py');
+        expect(index.paths('pdf')).toEqual([]);
+        expect(ids('split')).toEqual(['pdf']);
+
+        index.removeSkill('pdf');
+        expect(ids('pdf')).toEqual([]);
+    });
+});
@@ -0,0 +1,224 @@
+import { tokenize } from './tokenize';
+import type { SearchDocument, SearchField, SearchMatch, SearchResult } from './types';
+
+const FIELD_WEIGHTS: Record<SearchField, number> = { meta: 3, entry: 1.5, bundle: 1 };
+// BM25 term-frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+// Type-ahead: a word also matches longer terms starting with it, for less
+const PREFIX_WEIGHT = 0.6;
+const MAX_PREFIX_TERMS = 50;
+const MAX_MATCHES = 3;
+const SNIPPET_LENGTH = 160;
+
+interface IndexedDocument extends SearchDocument {
+    lines: string[];
+    length: number;
+    /** term → occurrences */
+    freqs: Map<string, number>;
+    /** term → 0-based lines containing it */
+    termLines: Map<string, number[]>;
+}
+
+function docId(doc: Pick<SearchDocument, 'skillId' | 'path' | 'field'>): string {
+    return `${doc.skillId}\n${doc.field}\n${doc.path}`;
+}
+
+function mergeRanges(ranges: [number, number][]): [number, number][] {
+    const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+    const merged: [number, number][] = [];
+    for (const [start, end] of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+        else merged.push([start, end]);
+    }
+    return merged;
+}
+
+/**
+ * Cut a long line down around its first match, shifting the ranges to match
+ */
+function buildSnippet(line: string, terms: string[]): Pick<SearchMatch, 'text' | 'ranges'> {
+    const lower = line.toLowerCase();
+    const ranges = mergeRanges(terms.flatMap(term => {
+        const found: [number, number][] = [];
+        for (let at = lower.indexOf(term); at !== -1; at = lower.indexOf(term, at + term.length)) {
+            found.push([at, at + term.length]);
+        }
+        return found;
+    }));
+
+    const trimmed = line.trimStart();
+    let offset = line.length - trimmed.length;
+    let text = trimmed.trimEnd();
+    if (text.length > SNIPPET_LENGTH) {
+        const first = ranges[0]?.[0] ?? offset;
+        const start = Math.max(offset, first - 40);
+        const end = start + SNIPPET_LENGTH;
+        text = (start > offset ? '…' : '') + line.slice(start, end).trimEnd() + (end < line.trimEnd().length ? '…' : '');
+        offset = start - (start > offset ? 1 : 0);
+    }
+    return {
+        text,
+        ranges: ranges
+            .map(([s, e]): [number, number] => [Math.max(0, s - offset), Math.min(text.length, e - offset)])
+            .filter(([s, e]) => e > s),
+    };
+}
+
+/**
+ * In-memory inverted index over skill text, ranked with BM25
+ * Documents are per file; a skill matches when every query word appears in
+ * any of its documents.
+ */
+export class TextIndex {
+    private docs = new Map<string, IndexedDocument>();
+    private postings = new Map<string, Set<string>>();
+    private bySkill = new Map<string, Set<string>>();
+    private totalLength = 0;
+
+    /** Add or replace a document */
+    set(doc: SearchDocument): void {
+        const id = docId(doc);
+        this.remove(id);
+
+        const lines = doc.text.split('\n');
+        const freqs = new Map<string, number>();
+        const termLines = new Map<string, number[]>();
+        let length = 0;
+        lines.forEach((line, i) => {
+            for (const term of tokenize(line, true)) {
+                length++;
+                freqs.set(term, (freqs.get(term) ?? 0) + 1);
+                const at = termLines.get(term);
+                if (!at) termLines.set(term, [i]);
+                else if (at[at.length - 1] !== i) at.push(i);
+            }
+        });
+
+        this.docs.set(id, { ...doc, lines, length, freqs, termLines });
+        this.totalLength += length;
+        freqs.forEach((_, term) => {
+            const ids = this.postings.get(term) ?? new Set<string>();
+            ids.add(id);
+            this.postings.set(term, ids);
+        });
+        const skillDocs = this.bySkill.get(doc.skillId) ?? new Set<string>();
+        skillDocs.add(id);
+        this.bySkill.set(doc.skillId, skillDocs);
+    }
+
+    removeFile(skillId: string, path: string, field: SearchField = 'bundle'): void {
+        this.remove(docId({ skillId, path, field }));
+    }
+
+    /** Drop a skill's documents, or only those matching `predicate` */
+    removeSkill(skillId: string, predicate: (doc: SearchDocument) => boolean = () => true): void {
+        [...this.bySkill.get(skillId) ?? []]
+            .filter(id => predicate(this.docs.get(id)!))
+            .forEach(id => this.remove(id));
+    }
+
+    /** Files a skill has documents for, e.g. its indexed bundle files */
+    paths(skillId: string, field: SearchField = 'bundle'): string[] {
+        return [...this.bySkill.get(skillId) ?? []]
+            .map(id => this.docs.get(id)!)
+            .filter(doc => doc.field === field)
+            .map(doc => doc.path);
+    }
+
+    private remove(id: string): void {
+        const doc = this.docs.get(id);
+        if (!doc) return;
+        this.docs.delete(id);
+        this.totalLength -= doc.length;
+        doc.freqs.forEach((_, term) => {
+            const ids = this.postings.get(term);
+            ids?.delete(id);
+            if (ids?.size === 0) this.postings.delete(term);
+        });
+        const skillDocs = this.bySkill.get(doc.skillId);
+        skillDocs?.delete(id);
+        if (skillDocs?.size === 0) this.bySkill.delete(doc.skillId);
+    }
+
+    private expand(word: string): { term: string; weight: number }[] {
+        const terms = this.postings.has(word) ? [{ term: word, weight: 1 }] : [];
+        if (word.length < 2) return terms;
+        for (const term of this.postings.keys()) {
+            if (terms.length >= MAX_PREFIX_TERMS) break;
+            if (term !== word && term.startsWith(word)) terms.push({ term, weight: PREFIX_WEIGHT });
+        }
+        return terms;
+    }
+
+    search(query: string): SearchResult[] {
+        const words = [...new Set(tokenize(query))];
+        if (words.length === 0 || this.docs.size === 0) return [];
+
+        const avgLength = this.totalLength / this.docs.size || 1;
+        const scores = new Map<string, number>();
+        const matchedWords = new Map<string, Set<number>>();
+        // skill → document → matched term → query word
+        const hits = new Map<string, Map<string, Map<string, number>>>();
+
+        words.forEach((word, w) => {
+            for (const { term, weight } of this.expand(word)) {
+                const ids = this.postings.get(term)!;
+                const idf = Math.log(1 + (this.docs.size - ids.size + 0.5) / (ids.size + 0.5));
+                ids.forEach(id => {
+                    const doc = this.docs.get(id)!;
+                    const tf = doc.freqs.get(term)!;
+                    const norm = (tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * doc.length) / avgLength));
+                    scores.set(doc.skillId, (scores.get(doc.skillId) ?? 0) + weight * FIELD_WEIGHTS[doc.field] * idf * norm);
+
+                    const matched = matchedWords.get(doc.skillId) ?? new Set<number>();
+                    matched.add(w);
+                    matchedWords.set(doc.skillId, matched);
+
+                    const skillHits = hits.get(doc.skillId) ?? new Map<string, Map<string, number>>();
+                    const docHits = skillHits.get(id) ?? new Map<string, number>();
+                    docHits.set(term, w);
+                    skillHits.set(id, docHits);
+                    hits.set(doc.skillId, skillHits);
+                });
+            }
+        });
+
+        return [...scores]
+            .filter(([skillId]) => matchedWords.get(skillId)?.size === words.length)
+            .sort((a, b) => b[1] - a[1])
+            .map(([skillId, score]) => ({ skillId, score, matches: this.bestLines(hits.get(skillId)!) }));
+    }
+
+    /** Lines matching the most query words, entry file first on ties */
+    private bestLines(skillHits: Map<string, Map<string, number>>): SearchMatch[] {
+        const candidates: { doc: IndexedDocument; line: number; words: Set<number>; terms: string[] }[] = [];
+        skillHits.forEach((docHits, id) => {
+            const doc = this.docs.get(id)!;
+            if (doc.field === 'meta') return;
+            const byLine = new Map<number, { words: Set<number>; terms: string[] }>();
+            docHits.forEach((w, term) => {
+                for (const line of doc.termLines.get(term) ?? []) {
+                    const entry = byLine.get(line) ?? { words: new Set<number>(), terms: [] };
+                    entry.words.add(w);
+                    entry.terms.push(term);
+                    byLine.set(line, entry);
+                }
+            });
+            byLine.forEach((entry, line) => candidates.push({ doc, line, ...entry }));
+        });
+
+        return candidates
+            .sort((a, b) =>
+                b.words.size - a.words.size
+                || FIELD_WEIGHTS[b.doc.field] - FIELD_WEIGHTS[a.doc.field]
+                || a.line - b.line)
+            .slice(0, MAX_MATCHES)
+            .map(({ doc, line, terms }) => ({
+                path: doc.path,
+                line: line + 1,
+                ...buildSnippet(doc.lines[line], terms),
+            }));
+    }
+}
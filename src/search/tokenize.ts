@@ -0,0 +1,35 @@
+const WORD = /[\p{L}\p{N}_]+/gu;
+const CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+/u;
+const CJK_RUNS = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+|[^\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+/gu;
+
+// Minified or generated lines produce junk terms
+const MAX_TOKEN_LENGTH = 64;
+
+/**
+ * Split text into lowercase search terms
+ * CJK text has no spaces, so it is indexed as overlapping character pairs.
+ * @param withParts - Also emit the parts of snake_case and camelCase identifiers
+ *   (for indexing, so `skill` finds `readSkillFile`; queries match whole words)
+ */
+export function tokenize(text: string, withParts = false): string[] {
+    const tokens: string[] = [];
+    for (const word of text.match(WORD) ?? []) {
+        for (const run of word.match(CJK_RUNS) ?? []) {
+            if (CJK.test(run)) {
+                if (run.length === 1) tokens.push(run);
+                for (let i = 0; i + 1 < run.length; i++) tokens.push(run.slice(i, i + 2));
+                continue;
+            }
+            if (run.length > MAX_TOKEN_LENGTH) continue;
+            tokens.push(run.toLowerCase());
+            if (withParts) {
+                const parts = run
+                    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+                    .split(/[_\s]+/)
+                    .filter(Boolean);
+                if (parts.length > 1) tokens.push(...parts.map(p => p.toLowerCase()));
+            }
+        }
+    }
+    return tokens;
+}
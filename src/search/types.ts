@@ -0,0 +1,34 @@
+/**
+ * Which part of a skill a document holds; used to weight matches
+ * - meta: title, description and tags
+ * - entry: the entry file (SKILL.md, .mdc, ...)
+ * - bundle: text files in the skill folder (scripts/, examples/, ...)
+ */
+export type SearchField = 'meta' | 'entry' | 'bundle';
+
+export interface SearchDocument {
+    skillId: string;
+    /** File the text came from (the entry file for meta) */
+    path: string;
+    field: SearchField;
+    text: string;
+}
+
+/**
+ * A matching line, with the character ranges to highlight
+ */
+export interface SearchMatch {
+    path: string;
+    /** 1-based line number in the file */
+    line: number;
+    /** The line, trimmed around the first match */
+    text: string;
+    ranges: [number, number][];
+}
+
+export interface SearchResult {
+    skillId: string;
+    score: number;
+    /** Best matching lines in the entry file and bundled files */
+    matches: SearchMatch[];
+}
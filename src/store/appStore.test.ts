@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Skill } from '../types';
+import { filterSkills, isTabDirty, useAppStore } from './appStore';
+
+function skill(id: string, overrides: Partial<Skill> = {}): Skill {
+    return {
+        id,
+        title: id,
+        description: '',
+        content: '',
+        tags: [],
+        sourcePath: `/lib/${id}/SKILL.md`,
+        format: 'claude',
+        kind: 'skill',
+        lastModified: 0,
+        ...overrides,
+    };
+}
+
+describe('filterSkills', () => {
+    const skills = [
+        skill('pdf', { tags: ['PDF', 'docs'] }),
+        skill('sheets', { tags: ['excel'] }),
+        skill('notes', { tags: ['docs'], format: 'cursor' }),
+    ];
+    const ids = (query: string, filterTags: string[] = []) =>
+        filterSkills(skills, query, [], { filterFormat: null, filterTags, filterKind: null }).map(s => s.id);
+
+    it('keeps skills with any of the selected tags, ignoring case', () => {
+        expect(ids('', ['pdf', 'excel'])).toEqual(['pdf', 'sheets']);
+    });
+
+    it('applies tag qualifiers from the query the same way', () => {
+        expect(filterSkills(skills, 'tag:docs tag:excel', []).map(s => s.id)).toEqual(['pdf', 'sheets', 'notes']);
+        expect(filterSkills(skills, 'tag:docs format:cursor', []).map(s => s.id)).toEqual(['notes']);
+    });
+
+    it('excludes negated tags', () => {
+        expect(ids('-tag:docs')).toEqual(['sheets']);
+    });
+});
+
+describe('assignSkillIds', () => {
+    const assign = (files: { path: string; fileKey?: string | null }[], live: string[] = files.map(f => f.path)) =>
+        useAppStore.getState().assignSkillIds(files, new Set(live));
+
+    beforeEach(() => {
+        useAppStore.setState({ skillIndex: { byPath: {}, byFile: {} } });
+    });
+
+    it('keeps the id of a known path', () => {
+        const [id] = assign([{ path: '/lib/a/SKILL.md', fileKey: '1:10' }]);
+
+        expect(assign([{ path: '/lib/a/SKILL.md', fileKey: '1:10' }])).toEqual([id]);
+        expect(assign([{ path: '/lib/a/SKILL.md', fileKey: null }])).toEqual([id]);
+    });
+
+    it('follows a renamed file by its identity', () => {
+        const [id] = assign([{ path: '/lib/a/SKILL.md', fileKey: '1:10' }]);
+        const [moved] = assign([{ path: '/lib/b/SKILL.md', fileKey: '1:10' }]);
+
+        expect(moved).toBe(id);
+        expect(useAppStore.getState().skillIndex.byPath).toEqual({ '/lib/b/SKILL.md': id });
+    });
+
+    it('gives a copy a new id while the original still exists', () => {
+        const [id] = assign([{ path: '/lib/a/SKILL.md', fileKey: '1:10' }]);
+        const [copy] = assign([{ path: '/lib/copy/SKILL.md', fileKey: '1:10' }], ['/lib/a/SKILL.md', '/lib/copy/SKILL.md']);
+
+        expect(copy).not.toBe(id);
+    });
+
+    it('gives files with the same name in different folders their own ids', () => {
+        const ids = assign([{ path: '/lib/a/SKILL.md', fileKey: '1:10' }, { path: '/lib/b/SKILL.md', fileKey: '1:11' }]);
+
+        expect(new Set(ids).size).toBe(2);
+    });
+
+    it('forgets pruned paths below the scanned roots only', () => {
+        assign([{ path: '/lib/a/SKILL.md', fileKey: '1:10' }, { path: '/libfoo/b/SKILL.md', fileKey: '1:11' }]);
+        useAppStore.getState().pruneSkillIndex(['/lib'], new Set());
+
+        expect(Object.keys(useAppStore.getState().skillIndex.byPath)).toEqual(['/libfoo/b/SKILL.md']);
+        expect(Object.keys(useAppStore.getState().skillIndex.byFile)).toEqual(['1:11']);
+    });
+});
+
+describe('editor tabs', () => {
+    const tab = (path: string, content = 'text') => ({ path, skillId: 'skill-1', content, savedContent: content });
+    const paths = () => useAppStore.getState().editorTabs.map(t => t.path);
+
+    beforeEach(() => {
+        useAppStore.setState({ editorTabs: [], activeTabPath: null });
+    });
+
+    it('opens each path once and activates it', () => {
+        const { openTab } = useAppStore.getState();
+        openTab(tab('/a.md'));
+        openTab(tab('/b.md'));
+        openTab(tab('/a.md', 'other'));
+
+        expect(paths()).toEqual(['/a.md', '/b.md']);
+        expect(useAppStore.getState().editorTabs[0].content).toBe('text');
+        expect(useAppStore.getState().activeTabPath).toBe('/a.md');
+    });
+
+    it('tracks dirty state until the tab is saved', () => {
+        const { openTab, updateTabContent, markTabSaved } = useAppStore.getState();
+        openTab(tab('/a.md'));
+        updateTabContent('/a.md', 'edited');
+        expect(isTabDirty(useAppStore.getState().editorTabs[0])).toBe(true);
+
+        markTabSaved('/a.md', 'edited', 42);
+        expect(useAppStore.getState().editorTabs[0]).toMatchObject({ content: 'edited', savedContent: 'edited', diskModified: 42 });
+        expect(isTabDirty(useAppStore.getState().editorTabs[0])).toBe(false);
+    });
+
+    it('hands the active tab over to its nearest neighbour on close', () => {
+        const { openTab, setActiveTab, closeTabs } = useAppStore.getState();
+        ['/a.md', '/b.md', '/c.md', '/d.md'].forEach(path => openTab(tab(path)));
+        setActiveTab('/b.md');
+
+        closeTabs(['/b.md', '/c.md']);
+        expect(paths()).toEqual(['/a.md', '/d.md']);
+        expect(useAppStore.getState().activeTabPath).toBe('/d.md');
+
+        closeTabs(['/d.md']);
+        expect(useAppStore.getState().activeTabPath).toBe('/a.md');
+
+        closeTabs(['/a.md']);
+        expect(useAppStore.getState().activeTabPath).toBeNull();
+    });
+
+    it('follows a renamed file or every file below a moved folder', () => {
+        const { openTab, renameTabs } = useAppStore.getState();
+        ['/lib/pdf/SKILL.md', '/lib/pdf/scripts/run.py', '/lib/pdfx/SKILL.md'].forEach(path => openTab(tab(path)));
+
+        renameTabs('/lib/pdf', '/lib/docs');
+        expect(paths()).toEqual(['/lib/docs/SKILL.md', '/lib/docs/scripts/run.py', '/lib/pdfx/SKILL.md']);
+        expect(useAppStore.getState().activeTabPath).toBe('/lib/pdfx/SKILL.md');
+
+        renameTabs('/lib/pdfx/SKILL.md', '/lib/pdfx/README.md');
+        expect(useAppStore.getState().activeTabPath).toBe('/lib/pdfx/README.md');
+    });
+});
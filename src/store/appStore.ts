@@ -1,6 +1,40 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import type { Skill, SkillLibrary, UserPreferences } from '../types';
+import { matchesQualifiers, parseQuery, queryFilters, searchIndex, searchSkills, useSearchIndexVersion } from '../search';
+import { movedPath } from '../utils/path';
+import type { LibraryScanReport, ScanProgress, ScanReport, Skill, SkillCollection, SkillIdIndex, SkillKind, SkillLibrary, UserPreferences } from '../types';
+
+export interface EditorTarget {
+    skillId: string;
+    path: string;
+    /** 1-based */
+    line: number;
+}
+
+/**
+ * A file open in the Editor; tabs may come from different skills
+ */
+export interface EditorTab {
+    path: string;
+    skillId: string;
+    content: string;
+    /** Content as last read from or written to disk */
+    savedContent: string;
+    /** mtime of the file when `savedContent` was read or written, if known */
+    diskModified?: number;
+    /** Images and binaries open in a viewer and have no content */
+    view?: 'image' | 'binary';
+    /** Encoding the file is written back in, UTF-8 when unset */
+    encoding?: string;
+    /** The file started with a byte order mark */
+    bom?: boolean;
+}
+
+export function isTabDirty(tab: EditorTab): boolean {
+    return tab.content !== tab.savedContent;
+}
+
+type View = 'dashboard' | 'editor' | 'settings' | 'welcome';
 
 /**
  * Main application store state definition
@@ -9,28 +43,58 @@ interface AppState {
     // Skills data
     skills: Skill[];
     isLoading: boolean;
+    scanProgress: ScanProgress | null;
+    // Diagnostics from the last full scan, plus later incremental scans
+    scanReport: ScanReport | null;
+    /** When the last full scan ended, whether or not it succeeded */
+    scanFinishedAt: number | null;
     error: string | null;
 
     // User preferences
     preferences: UserPreferences;
 
+    // Persisted path/file → id mapping
+    skillIndex: SkillIdIndex;
+
     // UI state
     selectedSkillId: string | null;
     searchQuery: string;
     filterFormat: string | null;
     filterTags: string[];
-    currentView: 'dashboard' | 'editor' | 'settings' | 'welcome';
+    filterKind: SkillKind | null;
+    // File and line the Editor should open at (e.g. a search match)
+    editorTarget: EditorTarget | null;
+    // Collection opened from the Sidebar; manual ones narrow the Dashboard to their skills
+    activeCollectionId: string | null;
+    // Open Editor tabs; they outlive the Editor view so edits survive navigation
+    editorTabs: EditorTab[];
+    activeTabPath: string | null;
+    // View requested while tabs had unsaved changes, waiting for the Editor's confirmation
+    pendingView: View | null;
+    currentView: View;
 
     // Actions - Skills
     setSkills: (skills: Skill[]) => void;
     addSkill: (skill: Skill) => void;
     updateSkill: (id: string, updates: Partial<Skill>) => void;
     removeSkill: (id: string) => void;
+    /**
+     * Ids for entry files, minting new ones for files never seen before
+     * @param livePaths - Paths still present; a file only counts as moved if its old path is gone
+     */
+    assignSkillIds: (files: { path: string; fileKey?: string | null }[], livePaths: Set<string>) => string[];
+    /** Forget paths below `roots` that a full scan no longer found */
+    pruneSkillIndex: (roots: string[], keepPaths: Set<string>) => void;
 
     // Actions - Preferences
     setPreferences: (prefs: Partial<UserPreferences>) => void;
     addLibrary: (library: SkillLibrary) => void;
     removeLibrary: (id: string) => void;
+    addCollection: (collection: SkillCollection) => void;
+    updateCollection: (id: string, updates: { name?: string; query?: string }) => void;
+    removeCollection: (id: string) => void;
+    /** Pin a skill to a manual collection, or unpin it */
+    toggleCollectionSkill: (collectionId: string, skillId: string) => void;
     completeOnboarding: () => void;
 
     // Actions - UI
@@ -38,15 +102,41 @@ interface AppState {
     setSearchQuery: (query: string) => void;
     setFilterFormat: (format: string | null) => void;
     setFilterTags: (tags: string[]) => void;
-    setCurrentView: (view: AppState['currentView']) => void;
+    setFilterKind: (kind: SkillKind | null) => void;
+    setEditorTarget: (target: EditorTarget | null) => void;
+    setActiveCollection: (id: string | null) => void;
+    /** Leaving the Editor with unsaved tabs only sets `pendingView` */
+    setCurrentView: (view: View) => void;
+    /** Go to the pending view, or stay in the Editor */
+    resolvePendingView: (proceed: boolean) => void;
+
+    // Actions - Editor tabs
+    /** Activate the tab for `tab.path`, adding it unless it is already open */
+    openTab: (tab: EditorTab) => void;
+    setActiveTab: (path: string) => void;
+    updateTabContent: (path: string, content: string) => void;
+    markTabSaved: (path: string, content: string, diskModified?: number) => void;
+    updateTab: (path: string, updates: Partial<Omit<EditorTab, 'path'>>) => void;
+    /** Throw away unsaved edits */
+    revertTabs: (paths: string[]) => void;
+    closeTabs: (paths: string[]) => void;
+    /** Follow a renamed or moved file, or every file below a moved folder */
+    renameTabs: (from: string, to: string) => void;
     setLoading: (loading: boolean) => void;
+    setScanProgress: (progress: ScanProgress | null) => void;
+    setScanReport: (report: ScanReport | null) => void;
+    setScanFinished: () => void;
+    mergeScanReport: (report: LibraryScanReport) => void;
     setError: (error: string | null) => void;
 }
 
+export const DEFAULT_AUTOSAVE_DELAY = 2000;
+
 const defaultPreferences: UserPreferences = {
     libraries: [],
     theme: 'system',
     hasCompletedOnboarding: false,
+    blockSaveOnLintErrors: false,
 };
 
 /**
@@ -54,16 +144,26 @@ const defaultPreferences: UserPreferences = {
  */
 export const useAppStore = create<AppState>()(
     persist(
-        (set) => ({
+        (set, get) => ({
             // Default Initial State
             skills: [],
             isLoading: false,
+            scanProgress: null,
+            scanReport: null,
+            scanFinishedAt: null,
             error: null,
             preferences: defaultPreferences,
+            skillIndex: { byPath: {}, byFile: {} },
             selectedSkillId: null,
             searchQuery: '',
             filterFormat: null,
             filterTags: [],
+            filterKind: null,
+            editorTarget: null,
+            activeCollectionId: null,
+            editorTabs: [],
+            activeTabPath: null,
+            pendingView: null,
             currentView: 'welcome',
 
             // Skills Actions
@@ -71,7 +171,10 @@ export const useAppStore = create<AppState>()(
             addSkill: (skill) => set((state) => {
                 if (!skill || !skill.id) return state;
                 const currentSkills = Array.isArray(state.skills) ? state.skills : [];
-                if (currentSkills.some(s => s.id === skill.id)) return state;
+                // Ids are per file, so a known id is the same file read again
+                if (currentSkills.some(s => s.id === skill.id)) {
+                    return { skills: currentSkills.map(s => s.id === skill.id ? skill : s) };
+                }
                 return { skills: [...currentSkills, skill] };
             }),
             updateSkill: (id, updates) => set((state) => ({
@@ -80,6 +183,46 @@ export const useAppStore = create<AppState>()(
             removeSkill: (id) => set((state) => ({
                 skills: (state.skills || []).filter(s => s.id !== id)
             })),
+            assignSkillIds: (files, livePaths) => {
+                const byPath = { ...get().skillIndex.byPath };
+                const byFile = { ...get().skillIndex.byFile };
+                const pathOf = new Map(Object.entries(byPath).map(([path, id]) => [id, path]));
+                let changed = false;
+
+                const ids = files.map(({ path, fileKey }) => {
+                    let id = byPath[path];
+                    if (!id && fileKey && byFile[fileKey]) {
+                        const movedFrom = pathOf.get(byFile[fileKey]);
+                        if (!movedFrom || !livePaths.has(movedFrom)) {
+                            id = byFile[fileKey];
+                            // A moved id leaves its old path behind
+                            if (movedFrom) delete byPath[movedFrom];
+                        }
+                    }
+                    id = id || crypto.randomUUID();
+                    if (byPath[path] !== id || (fileKey && byFile[fileKey] !== id)) {
+                        byPath[path] = id;
+                        pathOf.set(id, path);
+                        if (fileKey) byFile[fileKey] = id;
+                        changed = true;
+                    }
+                    return id;
+                });
+
+                if (changed) set({ skillIndex: { byPath, byFile } });
+                return ids;
+            },
+            pruneSkillIndex: (roots, keepPaths) => set((state) => {
+                const prefixes = roots.map(root => root.replace(/[/\\]+$/, ''));
+                const isUnderRoot = (path: string) => prefixes.some(root =>
+                    path.startsWith(`${root}/`) || path.startsWith(`${root}\\`));
+                const byPath = Object.fromEntries(Object.entries(state.skillIndex.byPath)
+                    .filter(([path]) => keepPaths.has(path) || !isUnderRoot(path)));
+                const liveIds = new Set(Object.values(byPath));
+                const byFile = Object.fromEntries(Object.entries(state.skillIndex.byFile)
+                    .filter(([, id]) => liveIds.has(id)));
+                return { skillIndex: { byPath, byFile } };
+            }),
 
             // Preferences Actions
             setPreferences: (prefs) => set((state) => ({
@@ -97,6 +240,40 @@ export const useAppStore = create<AppState>()(
                     libraries: (state.preferences?.libraries || []).filter(l => l.id !== id)
                 }
             })),
+            addCollection: (collection) => set((state) => ({
+                preferences: {
+                    ...state.preferences,
+                    collections: [...(state.preferences.collections || []), collection]
+                }
+            })),
+            updateCollection: (id, updates) => set((state) => ({
+                preferences: {
+                    ...state.preferences,
+                    collections: (state.preferences.collections || []).map(c => c.id !== id ? c : {
+                        ...c,
+                        name: updates.name ?? c.name,
+                        ...(c.kind === 'smart' && updates.query !== undefined ? { query: updates.query } : {}),
+                    })
+                }
+            })),
+            removeCollection: (id) => set((state) => ({
+                preferences: {
+                    ...state.preferences,
+                    collections: (state.preferences.collections || []).filter(c => c.id !== id)
+                },
+                activeCollectionId: state.activeCollectionId === id ? null : state.activeCollectionId,
+            })),
+            toggleCollectionSkill: (collectionId, skillId) => set((state) => ({
+                preferences: {
+                    ...state.preferences,
+                    collections: (state.preferences.collections || []).map(c => c.id !== collectionId || c.kind !== 'manual' ? c : {
+                        ...c,
+                        skillIds: c.skillIds.includes(skillId)
+                            ? c.skillIds.filter(id => id !== skillId)
+                            : [...c.skillIds, skillId],
+                    })
+                }
+            })),
             completeOnboarding: () => set((state) => ({
                 preferences: { ...(state.preferences || defaultPreferences), hasCompletedOnboarding: true },
                 currentView: 'dashboard'
@@ -104,12 +281,84 @@ export const useAppStore = create<AppState>()(
 
             // UI Actions
             setSelectedSkill: (id) => set({ selectedSkillId: id }),
-            setSearchQuery: (query) => set({ searchQuery: typeof query === 'string' ? query : '' }),
+            // Qualifiers in the query (`format:`, `tag:`, `kind:`) drive the filters
+            setSearchQuery: (query) => {
+                const searchQuery = typeof query === 'string' ? query : '';
+                set({ searchQuery, ...queryFilters(parseQuery(searchQuery)) });
+            },
             setFilterFormat: (format) => set({ filterFormat: format }),
             setFilterTags: (tags) => set({ filterTags: Array.isArray(tags) ? tags : [] }),
-            setCurrentView: (view) => set({ currentView: view }),
+            setFilterKind: (kind) => set({ filterKind: kind }),
+            setEditorTarget: (target) => set({ editorTarget: target }),
+            setActiveCollection: (id) => set({ activeCollectionId: id }),
+            setCurrentView: (view) => set((state) => {
+                const leavingEditor = state.currentView === 'editor' && view !== 'editor';
+                if (leavingEditor && state.editorTabs.some(isTabDirty)) return { pendingView: view };
+                return { currentView: view, pendingView: null };
+            }),
+            resolvePendingView: (proceed) => set((state) => ({
+                pendingView: null,
+                currentView: proceed && state.pendingView ? state.pendingView : state.currentView,
+            })),
             setLoading: (loading) => set({ isLoading: !!loading }),
+            setScanProgress: (progress) => set({ scanProgress: progress }),
+            setScanReport: (report) => set({ scanReport: report }),
+            setScanFinished: () => set({ scanFinishedAt: Date.now() }),
+            mergeScanReport: (report) => set((state) => {
+                const libraries = state.scanReport?.libraries ?? [];
+                const existing = libraries.find(l => l.libraryId === report.libraryId);
+                const merged: LibraryScanReport = existing
+                    ? {
+                        ...existing,
+                        visited: [...existing.visited, ...report.visited],
+                        skipped: [...existing.skipped, ...report.skipped],
+                        failed: [...existing.failed, ...report.failed],
+                        found: existing.found + report.found,
+                    }
+                    : report;
+                return {
+                    scanReport: {
+                        finishedAt: Date.now(),
+                        libraries: existing
+                            ? libraries.map(l => l === existing ? merged : l)
+                            : [...libraries, merged],
+                    },
+                };
+            }),
             setError: (error) => set({ error: error || null }),
+
+            // Editor Tab Actions
+            openTab: (tab) => set((state) => ({
+                editorTabs: state.editorTabs.some(t => t.path === tab.path) ? state.editorTabs : [...state.editorTabs, tab],
+                activeTabPath: tab.path,
+            })),
+            setActiveTab: (path) => set({ activeTabPath: path }),
+            updateTabContent: (path, content) => set((state) => {
+                if (!state.editorTabs.some(t => t.path === path && t.content !== content)) return state;
+                return { editorTabs: state.editorTabs.map(t => t.path === path ? { ...t, content } : t) };
+            }),
+            markTabSaved: (path, content, diskModified) => set((state) => ({
+                editorTabs: state.editorTabs.map(t => t.path === path ? { ...t, savedContent: content, diskModified } : t)
+            })),
+            updateTab: (path, updates) => set((state) => ({
+                editorTabs: state.editorTabs.map(t => t.path === path ? { ...t, ...updates } : t)
+            })),
+            revertTabs: (paths) => set((state) => ({
+                editorTabs: state.editorTabs.map(t => paths.includes(t.path) ? { ...t, content: t.savedContent } : t)
+            })),
+            closeTabs: (paths) => set((state) => {
+                const editorTabs = state.editorTabs.filter(t => !paths.includes(t.path));
+                if (!state.activeTabPath || !paths.includes(state.activeTabPath)) return { editorTabs };
+                // The closed active tab hands over to its nearest remaining neighbour
+                const index = state.editorTabs.findIndex(t => t.path === state.activeTabPath);
+                const next = state.editorTabs.slice(index + 1).find(t => !paths.includes(t.path))
+                    ?? [...state.editorTabs.slice(0, index)].reverse().find(t => !paths.includes(t.path));
+                return { editorTabs, activeTabPath: next?.path ?? null };
+            }),
+            renameTabs: (from, to) => set((state) => ({
+                editorTabs: state.editorTabs.map(t => ({ ...t, path: movedPath(t.path, from, to) })),
+                activeTabPath: state.activeTabPath && movedPath(state.activeTabPath, from, to),
+            })),
         }),
         {
             name: 'skill_tools_v1', // Changed name to bust any corrupted storage
@@ -117,36 +366,97 @@ export const useAppStore = create<AppState>()(
             partialize: (state) => ({
                 preferences: state.preferences,
                 currentView: state.currentView,
+                skillIndex: state.skillIndex,
             }),
         }
     )
 );
 
+type SkillFilters = Pick<AppState, 'filterFormat' | 'filterTags' | 'filterKind'>;
+
 /**
- * Filtered Skills Selector
+ * Skills matching a search query, ranked when it has free text
+ * @param filters - The store filters; they default to the ones the query itself sets
  */
-export const useFilteredSkills = () => {
-    const skills = useAppStore(s => s.skills) || [];
-    const query = (useAppStore(s => s.searchQuery) || '').toLowerCase().trim();
-    const formatFilter = useAppStore(s => s.filterFormat);
-    const tagFilter = useAppStore(s => s.filterTags) || [];
+export function filterSkills(
+    skills: Skill[],
+    searchQuery: string,
+    libraries: SkillLibrary[],
+    filters: SkillFilters = queryFilters(parseQuery(searchQuery))
+): Skill[] {
+    const parsed = parseQuery(searchQuery);
+    const query = parsed.text.toLowerCase().trim();
+    const { filterFormat: formatFilter, filterKind: kindFilter } = filters;
+    const tagFilter = filters.filterTags || [];
 
     let filtered = Array.isArray(skills) ? skills : [];
 
     if (query) {
-        filtered = filtered.filter(s =>
-            (s.title || '').toLowerCase().includes(query) ||
-            (s.description || '').toLowerCase().includes(query)
-        );
+        // Full-text hits in rank order, then plain substring matches on the name
+        // (e.g. `ill` in `skill`, which no indexed word starts with)
+        const byId = new Map(filtered.map(s => [s.id, s]));
+        const ranked = searchSkills(query).map(r => byId.get(r.skillId)).filter((s): s is Skill => !!s);
+        const rankedIds = new Set(ranked.map(s => s.id));
+        filtered = [
+            ...ranked,
+            ...filtered.filter(s => !rankedIds.has(s.id) && (
+                (s.title || '').toLowerCase().includes(query) ||
+                (s.description || '').toLowerCase().includes(query)
+            )),
+        ];
     }
 
     if (formatFilter) {
-        filtered = filtered.filter(s => s.format === formatFilter);
+        filtered = filtered.filter(s => s.format.toLowerCase() === formatFilter.toLowerCase());
+    }
+
+    if (kindFilter) {
+        filtered = filtered.filter(s => (s.kind || 'skill') === kindFilter);
     }
 
     if (tagFilter.length > 0) {
-        filtered = filtered.filter(s => tagFilter.some(t => (s.tags || []).includes(t)));
+        const wanted = tagFilter.map(t => t.toLowerCase());
+        filtered = filtered.filter(s => {
+            const tags = (s.tags || []).map(t => t.toLowerCase());
+            return wanted.some(t => tags.includes(t));
+        });
     }
 
+    if (parsed.qualifiers.length > 0) {
+        const ctx = { libraries, bundlePaths: (id: string) => searchIndex.paths(id), now: Date.now() };
+        filtered = filtered.filter(s => matchesQualifiers(s, parsed, ctx));
+    }
+
+    return filtered;
+}
+
+/**
+ * Skills in a collection: a smart one's query matches, or a manual one's pinned skills
+ */
+export function collectionSkills(collection: SkillCollection, skills: Skill[], libraries: SkillLibrary[]): Skill[] {
+    if (collection.kind === 'smart') return filterSkills(skills, collection.query, libraries);
+    const pinned = new Set(collection.skillIds);
+    return skills.filter(s => pinned.has(s.id));
+}
+
+/**
+ * Filtered Skills Selector
+ */
+export const useFilteredSkills = () => {
+    const skills = useAppStore(s => s.skills) || [];
+    const searchQuery = useAppStore(s => s.searchQuery) || '';
+    const libraries = useAppStore(s => s.preferences.libraries);
+    const filterFormat = useAppStore(s => s.filterFormat);
+    const filterTags = useAppStore(s => s.filterTags);
+    const filterKind = useAppStore(s => s.filterKind);
+    const activeCollection = useAppStore(s => (s.preferences.collections || []).find(c => c.id === s.activeCollectionId));
+    // Re-filter when bundles finish indexing (has:, full text)
+    useSearchIndexVersion();
+
+    const filtered = filterSkills(skills, searchQuery, libraries, { filterFormat, filterTags, filterKind });
+    if (activeCollection?.kind === 'manual') {
+        const pinned = new Set(activeCollection.skillIds);
+        return filtered.filter(s => pinned.has(s.id));
+    }
     return filtered;
 };
@@ -1,17 +1,32 @@
+import type { FormatDefinition } from '../formats/types';
+
 /**
- * Skill Format Types - Common AI tool ecosystems (can be extended with custom strings)
+ * Skill Format Types - Common AI tool ecosystems (extended by custom format definitions, see src/formats)
  */
 export type SkillFormat = 'antigravity' | 'cursor' | 'claude' | 'generic' | (string & {});
 
-/** Predefined format presets for quick selection */
-export const PRESET_FORMATS = ['antigravity', 'cursor', 'claude'] as const;
+/**
+ * What a discovered file is used for
+ * - skill: SKILL.md folder skills
+ * - command: Claude Code slash commands (.claude/commands/*.md)
+ * - agent: Claude Code subagents (.claude/agents/*.md)
+ * - memory: always-loaded instructions (CLAUDE.md, Cursor rules)
+ */
+export type SkillKind = 'skill' | 'command' | 'agent' | 'memory';
+
+export const SKILL_KIND_LABELS: Record<SkillKind, string> = {
+    skill: '技能',
+    command: '命令',
+    agent: '子代理',
+    memory: '记忆 / 规则',
+};
 
 /**
  * Universal Skill Model
  * Internal representation that can be converted to any target format
  */
 export interface Skill {
-    /** Unique identifier (generated from file path hash) */
+    /** Stable identifier, kept across renames (see SkillIdIndex) */
     id: string;
     /** Display title from frontmatter or filename */
     title: string;
@@ -25,12 +40,39 @@ export interface Skill {
     sourcePath: string;
     /** Which format this skill originates from */
     format: SkillFormat;
+    /** Skill, command, subagent or memory/rules file */
+    kind: SkillKind;
     /** Last modified timestamp (ms since epoch) */
     lastModified: number;
-    /** Format-specific metadata */
+    /** Format-specific metadata (every frontmatter key other than name/description/tags) */
     metadata?: Record<string, unknown>;
+    /** Frontmatter parse error, set when the YAML block could not be read */
+    parseError?: string;
 }
 
+/**
+ * How a library is scanned
+ */
+export interface LibraryScanConfig {
+    /** Deepest folder level below the library root that is scanned */
+    maxDepth: number;
+    /** Globs relative to the library root; when non-empty, entry files must match one */
+    include: string[];
+    /** Globs relative to the library root for files and folders to skip (bare names match at any depth) */
+    exclude: string[];
+    respectGitignore: boolean;
+    /** Keep scanning below a SKILL.md folder to find skills nested in it */
+    allowNested: boolean;
+}
+
+export const DEFAULT_SCAN_CONFIG: LibraryScanConfig = {
+    maxDepth: 5,
+    include: [],
+    exclude: ['node_modules', 'dist', 'target', 'bin'],
+    respectGitignore: false,
+    allowNested: false,
+};
+
 /**
  * Skill Library - A watched directory containing skills
  */
@@ -45,8 +87,83 @@ export interface SkillLibrary {
     format: SkillFormat;
     /** Whether this library is currently being watched */
     isActive: boolean;
+    /** Scan settings; missing fields fall back to DEFAULT_SCAN_CONFIG */
+    scan?: Partial<LibraryScanConfig>;
 }
 
+/**
+ * Persisted mapping that keeps skill ids stable
+ * A known path keeps its id; an unknown path whose file (device + inode) is known
+ * was renamed or moved and inherits that file's id.
+ */
+export interface SkillIdIndex {
+    /** Entry file path → skill id */
+    byPath: Record<string, string>;
+    /** File identity → skill id */
+    byFile: Record<string, string>;
+}
+
+/**
+ * Progress of a running library scan
+ */
+export interface ScanProgress {
+    visitedDirs: number;
+    /** Entry files found so far */
+    found: number;
+    currentPath: string;
+}
+
+/** Why a scan passed over a path */
+export type ScanSkipReason = 'exclude' | 'gitignore' | 'hidden' | 'depth' | 'include' | 'insideSkill';
+
+/** Why a scan couldn't use a path */
+export type ScanFailReason = 'library' | 'readDir' | 'readFile' | 'encoding' | 'frontmatter' | 'parse';
+
+export interface ScanIssue<Reason extends string> {
+    path: string;
+    reason: Reason;
+    /** Matching pattern, error message, etc. */
+    detail?: string;
+}
+
+/**
+ * What one library's scan visited, skipped and failed on
+ */
+export interface LibraryScanReport {
+    libraryId: string;
+    libraryName: string;
+    root: string;
+    /** Folders visited */
+    visited: string[];
+    skipped: ScanIssue<ScanSkipReason>[];
+    failed: ScanIssue<ScanFailReason>[];
+    found: number;
+    durationMs: number;
+}
+
+export interface ScanReport {
+    finishedAt: number;
+    libraries: LibraryScanReport[];
+}
+
+export const SCAN_SKIP_REASON_LABELS: Record<ScanSkipReason, string> = {
+    exclude: '匹配排除规则',
+    gitignore: '被 .gitignore 忽略',
+    hidden: '隐藏文件夹',
+    depth: '超出最大扫描深度',
+    include: '不匹配包含规则',
+    insideSkill: '位于文件夹技能内',
+};
+
+export const SCAN_FAIL_REASON_LABELS: Record<ScanFailReason, string> = {
+    library: '无法扫描技能库',
+    readDir: '无法读取文件夹',
+    readFile: '无法读取文件',
+    encoding: '不是有效的 UTF-8',
+    frontmatter: 'Frontmatter 格式错误',
+    parse: '无法解析',
+};
+
 /**
  * User preferences stored persistently
  */
@@ -57,4 +174,23 @@ export interface UserPreferences {
     theme: 'dark' | 'light' | 'system';
     /** Whether to show welcome screen */
     hasCompletedOnboarding: boolean;
+    /** Refuse to save a skill file while the linter reports errors */
+    blockSaveOnLintErrors?: boolean;
+    /** Save open files automatically once typing pauses */
+    autosave?: boolean;
+    /** Idle time before an autosave, ms */
+    autosaveDelay?: number;
+    /** User-defined format definitions, merged over the built-in ones */
+    customFormats?: FormatDefinition[];
+    /** Saved searches and pinned skill groups shown in the Sidebar */
+    collections?: SkillCollection[];
 }
+
+/**
+ * A named group of skills in the Sidebar
+ * - smart: every skill matching a saved search query, counted live
+ * - manual: skills pinned by id, from any library
+ */
+export type SkillCollection =
+    | { id: string; name: string; kind: 'smart'; query: string }
+    | { id: string; name: string; kind: 'manual'; skillIds: string[] };
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines, hasConflictMarkers, mergeLines } from './diff';
+
+describe('diffLines', () => {
+  it('reports added and removed lines with their line numbers', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc')).toEqual([
+      { type: 'equal', text: 'a', oldLine: 1, newLine: 1 },
+      { type: 'remove', text: 'b', oldLine: 2 },
+      { type: 'add', text: 'x', newLine: 2 },
+      { type: 'equal', text: 'c', oldLine: 3, newLine: 3 },
+    ]);
+  });
+
+  it('ignores line ending differences', () => {
+    expect(diffLines('a\r\nb', 'a\nb').every(line => line.type === 'equal')).toBe(true);
+  });
+});
+
+describe('mergeLines', () => {
+  const base = 'one\ntwo\nthree\nfour\nfive';
+
+  it('applies changes made on only one side', () => {
+    const mine = 'one\nTWO\nthree\nfour\nfive';
+    const theirs = 'one\ntwo\nthree\nfour\nFIVE';
+
+    expect(mergeLines(base, mine, theirs)).toEqual({ text: 'one\nTWO\nthree\nfour\nFIVE', conflicts: 0 });
+  });
+
+  it('keeps insertions and deletions from both sides', () => {
+    const mine = 'zero\none\ntwo\nthree\nfour\nfive';
+    const theirs = 'one\ntwo\nfour\nfive';
+
+    expect(mergeLines(base, mine, theirs)).toEqual({ text: 'zero\none\ntwo\nfour\nfive', conflicts: 0 });
+  });
+
+  it('takes identical changes once', () => {
+    const both = 'one\n2\nthree\nfour\nfive';
+
+    expect(mergeLines(base, both, both)).toEqual({ text: both, conflicts: 0 });
+  });
+
+  it('marks regions both sides changed differently', () => {
+    const result = mergeLines(base, 'one\nmine\nthree\nfour\nfive', 'one\ntheirs\nthree\nfour\nfive', {
+      mine: 'ours',
+      theirs: 'disk',
+    });
+
+    expect(result.conflicts).toBe(1);
+    expect(result.text).toBe('one\n<<<<<<< ours\nmine\n=======\ntheirs\n>>>>>>> disk\nthree\nfour\nfive');
+    expect(hasConflictMarkers(result.text)).toBe(true);
+  });
+
+  it('keeps CRLF line endings of the file on disk', () => {
+    const crlfBase = base.replace(/\n/g, '\r\n');
+    const mine = 'one\nTWO\nthree\nfour\nfive';
+    const theirs = 'one\r\ntwo\r\nthree\r\nfour\r\nFIVE';
+
+    expect(mergeLines(crlfBase, mine, theirs).text).toBe('one\r\nTWO\r\nthree\r\nfour\r\nFIVE');
+  });
+});
+
+describe('hasConflictMarkers', () => {
+  it('ignores marker-like text that is not at the start of a line', () => {
+    expect(hasConflictMarkers('text <<<<<<< mine')).toBe(false);
+  });
+});
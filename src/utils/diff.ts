@@ -0,0 +1,159 @@
+export type DiffLineType = 'equal' | 'add' | 'remove';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  /** 1-based line in the old text (equal/remove) */
+  oldLine?: number;
+  /** 1-based line in the new text (equal/add) */
+  newLine?: number;
+}
+
+function splitLines(text: string): string[] {
+  return text.replace(/\r\n/g, '\n').split('\n');
+}
+
+/**
+ * Line based diff using a longest-common-subsequence table
+ * Skill files are small, so the O(n*m) table is fine here.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // Trim common prefix/suffix to keep the table small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+  const table = new Uint32Array((n + 1) * (m + 1));
+  const at = (i: number, j: number) => i * (m + 1) + j;
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[at(i, j)] = midA[i] === midB[j]
+        ? table[at(i + 1, j + 1)] + 1
+        : Math.max(table[at(i + 1, j)], table[at(i, j + 1)]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  for (let k = 0; k < start; k++) {
+    result.push({ type: 'equal', text: a[k], oldLine: k + 1, newLine: k + 1 });
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && midA[i] === midB[j]) {
+      result.push({ type: 'equal', text: midA[i], oldLine: start + i + 1, newLine: start + j + 1 });
+      i++;
+      j++;
+    } else if (j < m && (i >= n || table[at(i, j + 1)] > table[at(i + 1, j)])) {
+      result.push({ type: 'add', text: midB[j], newLine: start + j + 1 });
+      j++;
+    } else {
+      result.push({ type: 'remove', text: midA[i], oldLine: start + i + 1 });
+      i++;
+    }
+  }
+
+  for (let k = 0; k < a.length - endA; k++) {
+    result.push({ type: 'equal', text: a[endA + k], oldLine: endA + k + 1, newLine: endB + k + 1 });
+  }
+
+  return result;
+}
+
+export interface MergeResult {
+  text: string;
+  /** Regions both sides changed differently, left in the text as conflict markers */
+  conflicts: number;
+}
+
+const CONFLICT_MARKER = /^(<{7}|>{7}) /m;
+
+export function hasConflictMarkers(text: string): boolean {
+  return CONFLICT_MARKER.test(text);
+}
+
+// Base line index → index of the same line in `other`, for lines both share
+function matchedLines(base: string, other: string): Map<number, number> {
+  const matches = new Map<number, number>();
+  for (const line of diffLines(base, other)) {
+    if (line.type === 'equal') matches.set(line.oldLine! - 1, line.newLine! - 1);
+  }
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * Three-way line merge (diff3): changes only one side made are applied,
+ * regions both sides changed differently become `<<<<<<<`/`=======`/`>>>>>>>` blocks
+ * @param labels - Shown after the opening and closing markers
+ */
+export function mergeLines(
+  base: string,
+  mine: string,
+  theirs: string,
+  labels: { mine: string; theirs: string } = { mine: 'mine', theirs: 'theirs' }
+): MergeResult {
+  const b = splitLines(base);
+  const m = splitLines(mine);
+  const t = splitLines(theirs);
+  const toMine = matchedLines(base, mine);
+  const toTheirs = matchedLines(base, theirs);
+  // Lines are compared without their endings; the result keeps the file's own
+  const eol = theirs.includes('\r\n') || base.includes('\r\n') ? '\r\n' : '\n';
+
+  const out: string[] = [];
+  let conflicts = 0;
+  let bi = 0;
+  let mi = 0;
+  let ti = 0;
+
+  while (bi < b.length || mi < m.length || ti < t.length) {
+    // Next base line both sides kept; everything before it is a changed chunk
+    let k = bi;
+    while (k < b.length && !(toMine.has(k) && toTheirs.has(k))) k++;
+    const mineEnd = k < b.length ? toMine.get(k)! : m.length;
+    const theirsEnd = k < b.length ? toTheirs.get(k)! : t.length;
+
+    if (k === bi && mineEnd === mi && theirsEnd === ti) {
+      out.push(b[bi]);
+      bi++;
+      mi++;
+      ti++;
+      continue;
+    }
+
+    const baseChunk = b.slice(bi, k);
+    const mineChunk = m.slice(mi, mineEnd);
+    const theirsChunk = t.slice(ti, theirsEnd);
+    if (sameLines(mineChunk, baseChunk)) {
+      out.push(...theirsChunk);
+    } else if (sameLines(theirsChunk, baseChunk) || sameLines(mineChunk, theirsChunk)) {
+      out.push(...mineChunk);
+    } else {
+      conflicts++;
+      out.push(`<<<<<<< ${labels.mine}`, ...mineChunk, '=======', ...theirsChunk, `>>>>>>> ${labels.theirs}`);
+    }
+    bi = k;
+    mi = mineEnd;
+    ti = theirsEnd;
+  }
+
+  return { text: out.join(eol), conflicts };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { globToRegExp, matchesAnyGlob, normalizeGlobs, splitGlobList } from './glob';
+
+describe('splitGlobList', () => {
+  it('splits on commas outside brace groups', () => {
+    expect(splitGlobList('src/**/*.{ts,tsx}, *.md')).toEqual(['src/**/*.{ts,tsx}', '*.md']);
+  });
+});
+
+describe('normalizeGlobs', () => {
+  it('accepts lists and comma separated strings', () => {
+    expect(normalizeGlobs([' a ', '', 'b'])).toEqual(['a', 'b']);
+    expect(normalizeGlobs('a, ,b')).toEqual(['a', 'b']);
+    expect(normalizeGlobs(undefined)).toEqual([]);
+  });
+});
+
+describe('globToRegExp', () => {
+  it('keeps `*` and `?` within one folder', () => {
+    expect(globToRegExp('*.md').test('notes.md')).toBe(true);
+    expect(globToRegExp('*.md').test('docs/notes.md')).toBe(false);
+    expect(globToRegExp('v?.md').test('v1.md')).toBe(true);
+  });
+
+  it('lets `**/` match zero or more folders', () => {
+    const re = globToRegExp('src/**/*.ts');
+    expect(re.test('src/a.ts')).toBe(true);
+    expect(re.test('src/a/b/c.ts')).toBe(true);
+    expect(re.test('lib/a.ts')).toBe(false);
+  });
+
+  it('supports classes, negated classes and brace groups', () => {
+    expect(globToRegExp('[ab].md').test('a.md')).toBe(true);
+    expect(globToRegExp('[!ab].md').test('a.md')).toBe(false);
+    expect(globToRegExp('*.{ts,tsx}').test('App.tsx')).toBe(true);
+    expect(globToRegExp('a.b').test('aXb')).toBe(false);
+  });
+});
+
+describe('matchesAnyGlob', () => {
+  it('matches bare names at any depth, like .gitignore', () => {
+    expect(matchesAnyGlob('node_modules', ['node_modules'])).toBe(true);
+    expect(matchesAnyGlob('pkg/node_modules', ['node_modules/'])).toBe(true);
+    expect(matchesAnyGlob('pkg/dist', ['node_modules'])).toBe(false);
+  });
+
+  it('anchors patterns with a slash at the library root', () => {
+    expect(matchesAnyGlob('drafts/old', ['drafts/*'])).toBe(true);
+    expect(matchesAnyGlob('team/drafts/old', ['./drafts/*'])).toBe(false);
+    expect(matchesAnyGlob('team/drafts/old', ['/team/**'])).toBe(true);
+  });
+
+  it('ignores empty patterns', () => {
+    expect(matchesAnyGlob('anything', ['', '  '])).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Split a comma separated glob list, ignoring commas inside `{a,b}` groups
+ */
+export function splitGlobList(value: string): string[] {
+  const patterns: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of value) {
+    if (ch === '{') depth++;
+    if (ch === '}') depth--;
+    if (ch === ',' && depth <= 0) {
+      patterns.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  patterns.push(current.trim());
+  return patterns;
+}
+
+/**
+ * Normalize a Cursor `globs` value (list or comma separated string) into patterns
+ */
+export function normalizeGlobs(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String).map(g => g.trim()).filter(Boolean);
+  if (typeof value === 'string') return splitGlobList(value).filter(Boolean);
+  return [];
+}
+
+/**
+ * Compile a glob (`*`, `**`, `?`, `[...]`, `{a,b}`) into a regex over `/`-separated paths
+ */
+export function globToRegExp(glob: string): RegExp {
+  let re = '';
+  let inGroup = false;
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*' && glob[i + 1] === '*') {
+      // `**/` matches zero or more folders, any other `**` matches everything
+      if (glob[i + 2] === '/') {
+        re += '(?:.*/)?';
+        i += 2;
+      } else {
+        re += '.*';
+        i += 1;
+      }
+    } else if (ch === '*') {
+      re += '[^/]*';
+    } else if (ch === '?') {
+      re += '[^/]';
+    } else if (ch === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        re += '\\[';
+      } else {
+        re += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (ch === '{') {
+      re += '(?:';
+      inGroup = true;
+    } else if (ch === '}' && inGroup) {
+      re += ')';
+      inGroup = false;
+    } else if (ch === ',' && inGroup) {
+      re += '|';
+    } else {
+      re += ch.replace(/[.+^$()|\]\\}]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+/**
+ * Whether a path relative to a library root matches any of the patterns
+ * Bare names (no `/`) match at any depth, like .gitignore.
+ */
+export function matchesAnyGlob(relativePath: string, patterns: string[]): boolean {
+  return patterns.some(pattern => {
+    const cleaned = pattern.trim().replace(/^\.\//, '').replace(/\/+$/, '');
+    if (!cleaned) return false;
+    const full = cleaned.includes('/') ? cleaned.replace(/^\/+/, '') : `**/${cleaned}`;
+    return globToRegExp(full).test(relativePath);
+  });
+}
@@ -0,0 +1,48 @@
+/**
+ * Synchronous path helpers for paths the native side handed us
+ * They keep whichever separator the path already uses, so Windows paths stay Windows paths.
+ */
+
+function separatorOf(path: string): string {
+  return path.includes('\\') && !path.includes('/') ? '\\' : '/';
+}
+
+export function basenameOf(path: string): string {
+  return path.replace(/[/\\]+$/, '').split(/[/\\]/).pop() ?? path;
+}
+
+export function dirnameOf(path: string): string {
+  const trimmed = path.replace(/[/\\]+$/, '');
+  return trimmed.slice(0, Math.max(trimmed.lastIndexOf('/'), trimmed.lastIndexOf('\\')));
+}
+
+/**
+ * Join a directory with a relative path that may use either separator
+ */
+export function joinPath(dir: string, relative: string): string {
+  const sep = separatorOf(dir);
+  const parts = relative.split(/[/\\]+/).filter(Boolean);
+  return [dir.replace(/[/\\]+$/, ''), ...parts].join(sep);
+}
+
+export function isSameOrInside(path: string, dir: string): boolean {
+  return path === dir || path.startsWith(`${dir}/`) || path.startsWith(`${dir}\\`);
+}
+
+/**
+ * Where `path` ends up when `from` (a file or a folder containing it) moves to `to`
+ */
+export function movedPath(path: string, from: string, to: string): string {
+  return isSameOrInside(path, from) ? to + path.slice(from.length) : path;
+}
+
+/**
+ * `name` with ` 2`, ` 3`, ... (or `suffix`, `suffix 2`, ...) inserted before the extension
+ * Dotfiles like `.env` are treated as having no extension.
+ */
+export function numberedName(name: string, n: number, suffix = ''): string {
+  const dot = name.lastIndexOf('.');
+  const [stem, ext] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+  const label = [suffix, n > 1 || !suffix ? String(n) : ''].filter(Boolean).join(' ');
+  return `${stem} ${label}${ext}`;
+}